@@ -1,68 +1,419 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
-import { OrbitControls, Stars, PerspectiveCamera } from '@react-three/drei';
-import { generateMockSnapshot, subscribeToBinanceStream } from './services/marketService';
-import { OrderBookSnapshot } from './types';
+import { DEFAULT_BUCKET_CONFIG, VISUAL_BUCKETS, percentAxisBuckets } from './services/marketService';
+import { createHistoryBuffer } from './services/historyBuffer';
+import { DEFAULT_DETECTOR_CONFIG, createLiquidityDetector } from './services/liquidityEvents';
+import { DEFAULT_HEIGHT_CONFIG } from './services/heightScale';
+import { DEFAULT_SIM_SEED } from './services/simulator';
+import { createAlertEngine, loadAlertRules, playAlertSound, saveAlertRules, showAlertNotification } from './services/alerts';
+import { CONSOLIDATED_VENUES, ReplaySource, ReplayState, SOURCE_IDS, SOURCE_LABELS, createMarketDataSource, createReplaySource, createSnapshotReplaySource, renderRecording } from './services/sources';
+import { RECORDING_EXTENSION, SessionRecorder, createSessionRecorder, decodeRecording, downloadBlob, encodeRecording, recordingFileName } from './services/sessionRecorder';
+import { CanvasRecording, captureFileName, captureScenePng, startCanvasRecording } from './services/canvasCapture';
+import { EXPORT_EXTENSIONS, decodeSnapshotExport, encodeSnapshots, exportFileName } from './services/snapshotExport';
+import { DEFAULT_SYMBOL, formatPrice, loadSavedSymbol, parseSymbol, saveSymbol, stepDecimals } from './services/symbolService';
+import { AlertRule, AlertTrigger, BucketConfig, BucketRef, CaptureSize, ExportFormat, ExportScope, FeedStatus, HeightConfig, LiquidityDetectorConfig, LiquidityEvent, MarketDataSource, OrderBookSnapshot, PaneConfig, PriceAxisMode, ReplayFile, SimScenario, SourceId, SourceMetadata, Trade, VenueId, ViewState } from './types';
 import { CanyonScene } from './components/CanyonScene';
+import { CanyonEnvironment, createCameraSync } from './components/CanyonEnvironment';
+import { MarketPane } from './components/MarketPane';
+import { HeatmapView } from './components/HeatmapView';
 import { TwoDepthChart } from './components/TwoDepthChart';
-import { Activity, Pause, Play, RefreshCw, Layers, Wifi, WifiOff, RotateCw } from 'lucide-react';
+import { SymbolPicker } from './components/SymbolPicker';
+import { BucketControl } from './components/BucketControl';
+import { ScenarioControl } from './components/ScenarioControl';
+import { HEIGHT_METRIC_LABELS, HeightControl } from './components/HeightControl';
+import { ReplayControls } from './components/ReplayControls';
+import { TimelineScrubber } from './components/TimelineScrubber';
+import { LiquidityEventsPanel } from './components/LiquidityEventsPanel';
+import { MetricsPanel } from './components/MetricsPanel';
+import { AlertsPanel } from './components/AlertsPanel';
+import { AlertToasts } from './components/AlertToasts';
+import { ExportMenu } from './components/ExportMenu';
+import { CaptureBridge, SceneHandle } from './components/CaptureBridge';
+import { CaptureControl } from './components/CaptureControl';
+import { SplitControl } from './components/SplitControl';
+import { AxisControl } from './components/AxisControl';
+import { TrailControl } from './components/TrailControl';
+import { VenueControl } from './components/VenueControl';
+import { Activity, Pause, Play, RefreshCw, Layers, Wifi, WifiOff, RotateCw, Circle, CircleDot, Square, FolderOpen, Box, Flame, GitCompare, Spline, X } from 'lucide-react';
 
 // Config
 const MAX_HISTORY = 100; // Keep more history for smoother, faster updates
 const TICK_RATE = 200; // Add a new slice every 200ms (5 FPS) for smoother visual flow
+const BUFFER_SECONDS = 60 * 60; // Rolling history kept for scrubbing (one hour)
+const BUFFER_CAPACITY = BUFFER_SECONDS * 1000 / TICK_RATE;
+const MAX_EVENTS = 500; // Liquidity events kept for the side panel and scene markers
+const MAX_ALERTS = 200; // Fired alerts kept for the side panel and scene markers
+const MAX_TOASTS = 4;
+const TOAST_MS = 6000;
+
+// HUD badge text per feed state
+const STATUS_LABELS: Record<FeedStatus, string> = {
+  connecting: 'CONNECTING',
+  syncing: 'SYNCING BOOK',
+  live: 'LIVE (FULL)',
+  resyncing: 'RESYNCING (GAP)',
+  stale: 'STALE FEED',
+  reconnecting: 'RECONNECTING',
+  failed: 'DISCONNECTED',
+};
+
+// HUD badge colours per feed state
+const STATUS_STYLES: Record<FeedStatus, string> = {
+  connecting: 'bg-slate-800/80 border-slate-700 text-slate-400',
+  syncing: 'bg-slate-800/80 border-slate-700 text-slate-400',
+  live: 'bg-yellow-900/30 border-yellow-700/50 text-yellow-400',
+  resyncing: 'bg-orange-900/30 border-orange-700/50 text-orange-400',
+  stale: 'bg-orange-900/30 border-orange-700/50 text-orange-400',
+  reconnecting: 'bg-orange-900/30 border-orange-700/50 text-orange-400',
+  failed: 'bg-rose-900/30 border-rose-700/50 text-rose-400',
+};
 
 const App: React.FC = () => {
   const [history, setHistory] = useState<OrderBookSnapshot[]>([]);
   const [isPaused, setIsPaused] = useState(false);
+  // Newest visible slice while paused/scrubbing (sequence number into the history buffer)
+  const [scrubSeq, setScrubSeq] = useState<number | null>(null);
+  const [bufferRange, setBufferRange] = useState({ start: 0, end: 0 });
   const [autoRotate, setAutoRotate] = useState(true);
+  // Canyon and heatmap share history, pause/scrub and slice selection
+  const [viewMode, setViewMode] = useState<ViewState['mode']>('3D');
+  const [showTrades, setShowTrades] = useState(true);
+  const [showTrail, setShowTrail] = useState(true);
+  const [showVwap, setShowVwap] = useState(false);
+  const [heightConfig, setHeightConfig] = useState<HeightConfig>(DEFAULT_HEIGHT_CONFIG);
   const [selectedSnapshot, setSelectedSnapshot] = useState<OrderBookSnapshot | null>(null);
-  // Default to API for real-time data
-  const [dataSource, setDataSource] = useState<'API' | 'MOCK'>('API');
+  // Bucket picked in the canyon or heatmap, highlighted in the depth chart
+  const [selectedBucket, setSelectedBucket] = useState<BucketRef | null>(null);
+  // Shift-click marks a first slice; the next shift-click opens the chart comparing the two
+  const [compareBase, setCompareBase] = useState<OrderBookSnapshot | null>(null);
+  const [compareSnapshot, setCompareSnapshot] = useState<OrderBookSnapshot | null>(null);
+  // Default to Binance for real-time data
+  const [sourceId, setSourceId] = useState<SourceId>('binance');
+  const [sourceMeta, setSourceMeta] = useState<SourceMetadata | null>(null);
+  const isLiveSource = sourceId !== 'mock' && sourceId !== 'replay';
+  // Recordings replay a single venue's raw stream
+  const canRecord = isLiveSource && sourceId !== 'consolidated';
+  // The simulation replays the same market for the same scenario and seed
+  const [simScenario, setSimScenario] = useState<SimScenario>('calm');
+  const [simSeed, setSimSeed] = useState(DEFAULT_SIM_SEED);
+  // Venues merged into the consolidated book, and whether bars are split by venue
+  const [consolidatedVenues, setConsolidatedVenues] = useState<VenueId[]>(CONSOLIDATED_VENUES);
+  const [byVenue, setByVenue] = useState(true);
+
+  // Session recording (live venues) and replay (from a recording or snapshot export file)
+  const sourceRef = useRef<MarketDataSource | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const [recordingStats, setRecordingStats] = useState<{ frames: number; durationMs: number } | null>(null);
+  const [replayFile, setReplayFile] = useState<ReplayFile | null>(null);
+  const replaySourceRef = useRef<ReplaySource | null>(null);
+  const [replayState, setReplayState] = useState<ReplayState | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [lastPrice, setLastPrice] = useState<number>(0);
-  const [isConnected, setIsConnected] = useState(false);
+  // Last picked pair survives reloads
+  const [symbol, setSymbol] = useState<string>(loadSavedSymbol);
+
+  // Split view: extra canyons next to the main one, on the main tick clock and camera
+  const [paneCount, setPaneCount] = useState(1);
+  const [panes, setPanes] = useState<PaneConfig[]>(() => (['coinbase', 'kraken', 'bybit'] as const).map((id, i) => ({
+    id: `pane-${i + 1}`,
+    sourceId: id,
+    symbol,
+  })));
+  const [priceAxis, setPriceAxis] = useState<PriceAxisMode>('follow');
+  // Bumped on every tick while live, whether or not the main feed has data; panes append their slices on this beat
+  const [tickSeq, setTickSeq] = useState(0);
+  const cameraSync = useMemo(createCameraSync, []);
+  const isSplit = paneCount > 1 && viewMode === '3D';
+  // The simulation always models BTC, whatever pair is picked for the live feed
+  // Replays carry the pair they were recorded on
+  const symbolInfo = useMemo(() => {
+    if (sourceId === 'replay' && replayFile) {
+      return replayFile.kind === 'session' ? replayFile.recording.header.symbolInfo : replayFile.data.header.symbolInfo;
+    }
+    return parseSymbol(isLiveSource ? symbol : DEFAULT_SYMBOL);
+  }, [sourceId, replayFile, isLiveSource, symbol]);
+  const [feedStatus, setFeedStatus] = useState<FeedStatus>('connecting');
+  const isConnected = feedStatus === 'live';
+  // Bumped to force a fresh subscription after the feed gave up
+  const [connectionAttempt, setConnectionAttempt] = useState(0);
   
+  // Bucket sizing is read by the feed on every emit, so changing it needs no resubscribe
+  const [bucketConfig, setBucketConfig] = useState<BucketConfig>(DEFAULT_BUCKET_CONFIG);
+  const [bucketSize, setBucketSize] = useState<number | null>(null);
+  // The percent axis sizes and counts buckets in bps from the mid, whatever the bucket mode
+  const percentAxis = viewMode === '3D' && priceAxis === 'percent';
+  const feedBucketConfig = useMemo(
+    () => percentAxis ? percentAxisBuckets(bucketConfig) : bucketConfig,
+    [bucketConfig, percentAxis]
+  );
+  const bucketConfigRef = useRef<BucketConfig>(feedBucketConfig);
+  bucketConfigRef.current = feedBucketConfig;
+
   // Refs to hold mutable data for the loop
   const latestDataRef = useRef<OrderBookSnapshot | null>(null);
+  // Trades received since the last tick; attached to the next canyon slice
+  const pendingTradesRef = useRef<Trade[]>([]);
   const historyRef = useRef<OrderBookSnapshot[]>([]);
+  // Long rolling history; keeps filling while paused so "jump to live" has everything
+  // Allocated once; a plain useRef(create...) would build (and drop) a new buffer on every render
+  const [historyBuffer] = useState(() => createHistoryBuffer(BUFFER_CAPACITY, VISUAL_BUCKETS));
+  const bufferRef = useRef(historyBuffer);
+
+  // Wall add/pull/consume detection runs on every slice pushed to the buffer
+  const [detectorConfig, setDetectorConfig] = useState<LiquidityDetectorConfig>(DEFAULT_DETECTOR_CONFIG);
+  const detectorConfigRef = useRef(detectorConfig);
+  detectorConfigRef.current = detectorConfig;
+  const detectorRef = useRef(createLiquidityDetector(() => detectorConfigRef.current));
+  const [liquidityEvents, setLiquidityEvents] = useState<LiquidityEvent[]>([]);
+
+  // User alerts are checked on every emitted snapshot, not just the 5 Hz slices
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadAlertRules);
+  const alertRulesRef = useRef(alertRules);
+  alertRulesRef.current = alertRules;
+  const alertEngineRef = useRef(createAlertEngine(() => alertRulesRef.current));
+  const [alertLog, setAlertLog] = useState<AlertTrigger[]>([]);
+  const [toasts, setToasts] = useState<AlertTrigger[]>([]);
+  // Pending toast dismissals, cleared with the source that raised them
+  const toastTimersRef = useRef(new Set<ReturnType<typeof setTimeout>>());
 
-  // 1. Data Source Connection (WebSocket or Mock Loop)
+  useEffect(() => saveAlertRules(alertRules), [alertRules]);
+
+  const raiseAlerts = (fired: AlertTrigger[]) => {
+    setAlertLog(prev => [...prev, ...fired].slice(-MAX_ALERTS));
+    setToasts(prev => [...prev, ...fired].slice(-MAX_TOASTS));
+    const timer = setTimeout(() => {
+      toastTimersRef.current.delete(timer);
+      setToasts(prev => prev.filter(t => !fired.includes(t)));
+    }, TOAST_MS);
+    toastTimersRef.current.add(timer);
+
+    const ruleOf = (trigger: AlertTrigger) => alertRulesRef.current.find(r => r.id === trigger.ruleId);
+    if (fired.some(t => ruleOf(t)?.sound)) playAlertSound();
+    fired.filter(t => ruleOf(t)?.notify).forEach(t => showAlertNotification(t, symbolInfo));
+  };
+
+  // Screenshots and WebM clips of the canyon canvas (without the HUD)
+  const sceneRef = useRef<SceneHandle | null>(null);
+  const clipRef = useRef<{ recording: CanvasRecording; timer: ReturnType<typeof setTimeout> } | null>(null);
+  const [clipEndsAt, setClipEndsAt] = useState<number | null>(null);
+
+  // 1. Data Source Connection (venue WebSocket or Mock Loop)
   useEffect(() => {
-    let cleanup: (() => void) | undefined;
-    let mockInterval: any;
-
-    if (dataSource === 'API') {
-      setIsConnected(false);
-      // Subscribe to Binance WebSocket (BTCUSDT)
-      // Using the Diff-Depth stream to get full orderbook view
-      cleanup = subscribeToBinanceStream('BTCUSDT', (snapshot) => {
-        latestDataRef.current = snapshot;
-        setIsConnected(true);
-        setLastPrice(snapshot.midPrice);
-      });
+    // Slices from another pair or source would mix scales, so start a fresh canyon
+    latestDataRef.current = null;
+    pendingTradesRef.current = [];
+    historyRef.current = [];
+    setHistory([]);
+    bufferRef.current.clear();
+    setBufferRange({ start: 0, end: 0 });
+    detectorRef.current.reset();
+    setLiquidityEvents([]);
+    alertEngineRef.current.reset();
+    setAlertLog([]);
+    setToasts([]);
+    setScrubSeq(null);
+    setIsPaused(false);
+    setSelectedSnapshot(null);
+    setSelectedBucket(null);
+    setCompareBase(null);
+    setCompareSnapshot(null);
+    setLastPrice(0);
+    setBucketSize(null);
+
+    const options = { getBucketConfig: () => bucketConfigRef.current, scenario: simScenario, seed: simSeed, venues: consolidatedVenues };
+    let source: MarketDataSource;
+
+    if (sourceId === 'replay') {
+      if (!replayFile) return;
+      const replay = replayFile.kind === 'session'
+        ? createReplaySource(replayFile.recording, options)
+        : createSnapshotReplaySource(replayFile.data);
+      replay.onReplayState(setReplayState);
+      replaySourceRef.current = replay;
+      source = replay;
     } else {
-      // Mock Data Generation Loop (simulates a high-frequency stream)
-      setIsConnected(true);
-      mockInterval = setInterval(() => {
-        const prev = latestDataRef.current || historyRef.current[historyRef.current.length - 1];
-        const snapshot = generateMockSnapshot(prev);
-        latestDataRef.current = snapshot;
-        setLastPrice(snapshot.midPrice);
-      }, 100); // Mock generates data every 100ms
+      source = createMarketDataSource(sourceId, symbolInfo, options);
     }
 
+    sourceRef.current = source;
+    setSourceMeta(source.metadata);
+
+    source.subscribe((snapshot) => {
+      latestDataRef.current = snapshot;
+      setLastPrice(snapshot.midPrice);
+      setBucketSize(snapshot.bucketSize);
+      const fired = alertEngineRef.current.process(snapshot, symbolInfo);
+      if (fired.length > 0) raiseAlerts(fired);
+    }, setFeedStatus, (trades) => {
+      pendingTradesRef.current.push(...trades);
+    });
+
     return () => {
-      if (cleanup) cleanup();
-      if (mockInterval) clearInterval(mockInterval);
+      // Switching away mid-recording still saves what was captured
+      if (recorderRef.current) stopRecording();
+      source.unsubscribe();
+      toastTimersRef.current.forEach(clearTimeout);
+      toastTimersRef.current.clear();
+      sourceRef.current = null;
+      replaySourceRef.current = null;
+      setReplayState(null);
     };
-  }, [dataSource]);
+  }, [sourceId, symbolInfo, replayFile, simScenario, simSeed, consolidatedVenues, connectionAttempt]);
+
+  // Refresh the recording indicator while capturing
+  const isRecording = recordingStats !== null;
+  useEffect(() => {
+    if (!isRecording) return;
+    const id = setInterval(() => {
+      if (recorderRef.current) setRecordingStats(recorderRef.current.stats());
+    }, 1000);
+    return () => clearInterval(id);
+  }, [isRecording]);
+
+  const startRecording = () => {
+    const source = sourceRef.current;
+    if (!source?.setRecorder) return;
+    const recorder = createSessionRecorder(source.metadata);
+    recorderRef.current = recorder;
+    source.setRecorder(recorder.onFrame);
+    setRecordingStats(recorder.stats());
+  };
+
+  const stopRecording = () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    sourceRef.current?.setRecorder?.(null);
+    setRecordingStats(null);
+
+    const recording = recorder.stop();
+    if (recording.frames.length === 0) return;
+    encodeRecording(recording)
+      .then(blob => downloadBlob(blob, recordingFileName(recording)))
+      .catch(err => console.error('Failed to save recording:', err));
+  };
+
+  const openReplayFile = async (file: File) => {
+    try {
+      const next: ReplayFile = file.name.endsWith(EXPORT_EXTENSIONS.json)
+        ? { kind: 'snapshots', data: await decodeSnapshotExport(file) }
+        : { kind: 'session', recording: await decodeRecording(file) };
+      setReplayFile(next);
+      setSourceId('replay');
+    } catch (err) {
+      console.error('Failed to open recording:', err);
+      alert(`Could not open ${file.name}: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const closeReplay = () => {
+    setSourceId('binance');
+    setReplayFile(null);
+  };
+
+  // Writes aggregated slices with the source they came from, so a JSON export replays as it looked
+  const exportSlices = async (scope: ExportScope, format: ExportFormat) => {
+    let slices: OrderBookSnapshot[];
+    if (scope === 'slice') {
+      slices = [compareSnapshot, selectedSnapshot]
+        .filter((s): s is OrderBookSnapshot => s !== null)
+        .sort((a, b) => a.timestamp - b.timestamp);
+    } else if (scope === 'window') {
+      slices = history;
+    } else if (replayFile?.kind === 'snapshots') {
+      slices = replayFile.data.slices;
+    } else if (replayFile) {
+      // Sessions hold raw frames; aggregate them on the canyon's own slice interval
+      slices = await renderRecording(replayFile.recording, TICK_RATE, { getBucketConfig: () => bucketConfigRef.current });
+    } else {
+      return;
+    }
+    if (slices.length === 0) return;
+
+    const source = sourceId !== 'replay' || !replayFile
+      ? SOURCE_LABELS[sourceId]
+      : replayFile.kind === 'session' ? SOURCE_LABELS[replayFile.recording.header.sourceId] : replayFile.data.header.source;
+    const blob = encodeSnapshots(slices, format, { source, symbolInfo, tickSize: sourceMeta?.tickSize ?? null });
+    downloadBlob(blob, exportFileName(symbolInfo.symbol, scope, format, slices[slices.length - 1].timestamp));
+  };
+
+  const bucketLabel = bucketSize
+    ? formatPrice(bucketSize, symbolInfo.quoteAsset, stepDecimals(bucketSize))
+    : 'Price';
+
+  const handleSymbolChange = (next: string) => {
+    saveSymbol(next);
+    setSymbol(next);
+  };
+
+  const takeScreenshot = async (size: CaptureSize | null, overlay: boolean) => {
+    const handle = sceneRef.current;
+    if (!handle) return;
+    const first = history[0];
+    const last = history[history.length - 1];
+    const caption = overlay && last ? {
+      title: `${symbolInfo.baseAsset}/${symbolInfo.quoteAsset} · ${sourceMeta?.label ?? SOURCE_LABELS[sourceId]}`,
+      lines: [
+        `${new Date(first.timestamp).toLocaleString()} – ${new Date(last.timestamp).toLocaleTimeString()}`,
+        `Mid ${formatPrice(last.midPrice, symbolInfo.quoteAsset)} · ${bucketLabel} buckets`,
+      ],
+    } : undefined;
+    const blob = await captureScenePng(handle.gl, handle.scene, handle.camera, size, caption);
+    downloadBlob(blob, captureFileName(symbolInfo.symbol, '.png', last?.timestamp));
+  };
+
+  const stopClip = () => {
+    const clip = clipRef.current;
+    if (!clip) return;
+    clipRef.current = null;
+    clearTimeout(clip.timer);
+    setClipEndsAt(null);
+    clip.recording.stop()
+      .then(blob => downloadBlob(blob, captureFileName(symbolInfo.symbol, '.webm')))
+      .catch(err => console.error('Failed to save video:', err));
+  };
+
+  const startClip = (seconds: number) => {
+    const canvas = sceneRef.current?.gl.domElement;
+    if (!canvas || clipRef.current) return;
+    const recording = startCanvasRecording(canvas);
+    if (!recording) {
+      alert('This browser cannot record WebM video.');
+      return;
+    }
+    clipRef.current = { recording, timer: setTimeout(stopClip, seconds * 1000) };
+    setClipEndsAt(Date.now() + seconds * 1000);
+  };
+
+  // The canvas goes away with the canyon view, so finish any clip first
+  useEffect(() => {
+    if (viewMode !== '3D') stopClip();
+  }, [viewMode]);
 
   // 2. App Loop (The "Tick" that creates the visual canyon slices)
   useEffect(() => {
     const tick = () => {
-      if (isPaused || !latestDataRef.current) return;
+      // The panes follow the clock itself, so a connecting or failed main feed does not stall them
+      if (!isPaused) setTickSeq(n => n + 1);
+      if (!latestDataRef.current) return;
+
+      // Take the latest available data from the stream, with the trades of this time slot
+      const trades = pendingTradesRef.current;
+      pendingTradesRef.current = [];
+      const snapshot: OrderBookSnapshot = trades.length > 0
+        ? { ...latestDataRef.current, trades }
+        : latestDataRef.current;
+
+      const buffer = bufferRef.current;
+      buffer.push(snapshot);
+      setBufferRange({ start: buffer.start(), end: buffer.end() });
+
+      const found = detectorRef.current.process(snapshot);
+      if (found.length > 0) {
+        setLiquidityEvents(prev => [...prev, ...found].slice(-MAX_EVENTS));
+      }
 
-      // Take the latest available data from the stream
-      const snapshot = latestDataRef.current;
+      if (isPaused) return;
 
       // Update History
       const currentHist = historyRef.current;
@@ -81,42 +432,110 @@ const App: React.FC = () => {
     return () => clearInterval(intervalId);
   }, [isPaused]); // Only recreate if pause state changes
 
+  // Shows the MAX_HISTORY slices ending at `seq` from the long buffer
+  const scrubTo = (seq: number) => {
+    const buffer = bufferRef.current;
+    if (buffer.end() === 0) return;
+    const clamped = Math.min(buffer.end() - 1, Math.max(buffer.start(), seq));
+    setIsPaused(true);
+    setScrubSeq(clamped);
+    setHistory(buffer.window(clamped, MAX_HISTORY));
+  };
+
+  const pause = () => {
+    const buffer = bufferRef.current;
+    setIsPaused(true);
+    setScrubSeq(buffer.end() > 0 ? buffer.end() - 1 : null);
+  };
+
+  // Resume following the stream, continuing from the newest buffered slices
+  const jumpToLive = () => {
+    const buffer = bufferRef.current;
+    const live = buffer.end() > 0 ? buffer.window(buffer.end() - 1, MAX_HISTORY) : [];
+    historyRef.current = live;
+    setHistory(live);
+    setScrubSeq(null);
+    setIsPaused(false);
+  };
+
+  // Click opens a slice's depth chart; shift-click picks two slices to compare
+  const selectSlice = (snapshot: OrderBookSnapshot, compare: boolean, bucket?: BucketRef) => {
+    setSelectedBucket(bucket ?? null);
+    if (!compare) {
+      setCompareBase(null);
+      setCompareSnapshot(null);
+      setSelectedSnapshot(snapshot);
+    } else if (!compareBase) {
+      setCompareBase(snapshot);
+    } else {
+      setCompareSnapshot(compareBase);
+      setSelectedSnapshot(snapshot);
+      setCompareBase(null);
+    }
+  };
+
   return (
     <div className="relative w-full h-full bg-slate-950 text-white font-sans overflow-hidden">
       
-      {/* 3D Canvas Layer */}
-      <div className="absolute inset-0 z-0">
-        <Canvas>
-          {/* Widen FOV slightly to 60 to see more of the canyon walls */}
-          <PerspectiveCamera makeDefault position={[0, 15, 30]} fov={60} />
-          <OrbitControls 
-            enablePan={true} 
-            enableZoom={true} 
-            minDistance={5} 
-            maxDistance={120}
-            autoRotate={autoRotate && !isPaused && !selectedSnapshot}
-            autoRotateSpeed={0.5}
-            target={[0, 0, -10]} 
+      {/* 2D Heatmap Layer */}
+      {viewMode === '2D' && (
+        <div className="absolute inset-0 z-0">
+          <HeatmapView
+            history={history}
+            symbolInfo={symbolInfo}
+            showTrades={showTrades}
+            heightConfig={heightConfig}
+            onSelectSlice={selectSlice}
           />
-          
-          <ambientLight intensity={1.8} />
-          <pointLight position={[10, 20, 10]} intensity={1.5} color="#ffffff" />
-          {/* Adjusted lights for wider scene */}
-          <pointLight position={[-30, 15, -20]} intensity={2} color="#10b981" distance={80} /> 
-          <pointLight position={[30, 15, -20]} intensity={2} color="#f43f5e" distance={80} /> 
-          
-          <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
-          
-          <CanyonScene 
-            history={history} 
-            onSelectSlice={(snap) => {
-              setSelectedSnapshot(snap);
-            }} 
-          />
-          
-          <fog attach="fog" args={['#0f172a', 10, 150]} />
-        </Canvas>
-      </div>
+        </div>
+      )}
+
+      {/* 3D Canvas Layer: the main canyon, plus the other markets' canyons in split view */}
+      {viewMode === '3D' && (
+        <div className={`absolute inset-0 z-0 ${isSplit ? `grid grid-cols-2 ${paneCount > 2 ? 'grid-rows-2' : 'grid-rows-1'}` : ''}`}>
+          <div className="relative w-full h-full">
+            <Canvas>
+              <CanyonEnvironment
+                autoRotate={autoRotate && !isPaused && !selectedSnapshot}
+                sync={isSplit ? cameraSync : undefined}
+              />
+              <CanyonScene 
+                history={history} 
+                symbolInfo={symbolInfo}
+                isLive={!isPaused}
+                showTrades={showTrades}
+                heightConfig={heightConfig}
+                priceAxis={priceAxis}
+                byVenue={byVenue}
+                showTrail={showTrail}
+                showVwap={showVwap}
+                deepHistory={{ buffer: bufferRef.current, lastSeq: scrubSeq ?? bufferRange.end - 1 }}
+                events={liquidityEvents}
+                alerts={alertLog}
+                onSelectSlice={selectSlice}
+              />
+              <CaptureBridge handleRef={sceneRef} />
+            </Canvas>
+          </div>
+          {isSplit && panes.slice(0, paneCount - 1).map((pane, i) => (
+            <MarketPane
+              key={pane.id}
+              config={pane}
+              tick={tickSeq}
+              maxHistory={MAX_HISTORY}
+              getBucketConfig={() => bucketConfigRef.current}
+              heightConfig={heightConfig}
+              showTrades={showTrades}
+              priceAxis={priceAxis}
+              byVenue={byVenue}
+              showTrail={showTrail}
+              showVwap={showVwap}
+              cameraSync={cameraSync}
+              onChange={(next) => setPanes(prev => prev.map((p, j) => j === i ? next : p))}
+            />
+          ))}
+        </div>
+      )}
 
       {/* HUD / UI Overlay */}
       <div className="absolute top-0 left-0 w-full p-6 z-10 pointer-events-none">
@@ -136,36 +555,156 @@ const App: React.FC = () => {
               Register Binance now with 10% commission save →
             </a>
             <div className="flex items-center gap-3 mt-2">
-              <span className={`backdrop-blur px-3 py-1 rounded-full text-xs font-mono border flex items-center gap-2 transition-colors ${isConnected ? 'bg-yellow-900/30 border-yellow-700/50 text-yellow-400' : 'bg-slate-800/80 border-slate-700 text-slate-400'}`}>
+              <span className={`backdrop-blur px-3 py-1 rounded-full text-xs font-mono border flex items-center gap-2 transition-colors ${STATUS_STYLES[feedStatus]}`}>
                 {isConnected ? <Wifi size={12} className="text-yellow-400 animate-pulse" /> : <WifiOff size={12} className="text-rose-400" />}
-                {dataSource === 'API' ? 'BINANCE LIVE (FULL)' : 'SIMULATION'}
+                {!sourceMeta
+                  ? 'SIMULATION'
+                  : sourceId === 'mock' || sourceId === 'replay'
+                    ? `${sourceMeta.label.toUpperCase()} ${sourceMeta.venueSymbol}`
+                    : `${sourceMeta.label.toUpperCase()} ${sourceMeta.venueSymbol} ${STATUS_LABELS[feedStatus]}`}
               </span>
+              {isLiveSource && feedStatus === 'failed' && (
+                <button
+                  onClick={() => setConnectionAttempt(n => n + 1)}
+                  className="px-3 py-1 rounded-full text-xs font-mono border bg-rose-600/20 border-rose-500 text-rose-300 hover:bg-rose-600/30 transition-colors"
+                >
+                  Retry
+                </button>
+              )}
               <span className="text-2xl font-mono font-bold">
-                ${lastPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                {formatPrice(lastPrice, symbolInfo.quoteAsset)}
               </span>
             </div>
           </div>
 
           {/* Controls */}
-          <div className="flex gap-2 pointer-events-auto">
-             <button 
-              onClick={() => setDataSource(prev => prev === 'API' ? 'MOCK' : 'API')}
-              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all border ${dataSource === 'API' ? 'bg-yellow-600/20 border-yellow-500 text-yellow-400 hover:bg-yellow-600/30' : 'bg-orange-600/20 border-orange-500 text-orange-400 hover:bg-orange-600/30'}`}
+          <div className="flex flex-wrap justify-end gap-2 pointer-events-auto">
+            {isLiveSource && (
+              <SymbolPicker symbol={symbol} onChange={handleSymbolChange} />
+            )}
+            {sourceId === 'consolidated' && (
+              <VenueControl
+                venues={consolidatedVenues}
+                byVenue={byVenue}
+                onVenuesChange={setConsolidatedVenues}
+                onByVenueChange={setByVenue}
+              />
+            )}
+            {sourceId === 'mock' && (
+              <ScenarioControl
+                scenario={simScenario}
+                seed={simSeed}
+                onChange={(scenario, seed) => {
+                  setSimScenario(scenario);
+                  setSimSeed(seed);
+                }}
+              />
+            )}
+
+            <BucketControl config={bucketConfig} resolvedSize={bucketSize} fromMid={percentAxis} onChange={setBucketConfig} />
+            <HeightControl config={heightConfig} onChange={setHeightConfig} />
+            {viewMode === '3D' && (
+              <AxisControl mode={priceAxis} onChange={setPriceAxis} />
+            )}
+            {viewMode === '3D' && (
+              <TrailControl
+                showTrail={showTrail}
+                showVwap={showVwap}
+                onShowTrailChange={setShowTrail}
+                onShowVwapChange={setShowVwap}
+              />
+            )}
+            {viewMode === '3D' && (
+              <SplitControl paneCount={paneCount} onPaneCountChange={setPaneCount} />
+            )}
+            <ExportMenu canExportSession={sourceId === 'replay' && replayFile !== null} onExport={exportSlices} />
+            {viewMode === '3D' && (
+              <CaptureControl
+                clipEndsAt={clipEndsAt}
+                onScreenshot={takeScreenshot}
+                onStartClip={startClip}
+                onStopClip={stopClip}
+              />
+            )}
+
+            <label className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all border ${isLiveSource ? 'bg-yellow-600/20 border-yellow-500 text-yellow-400 hover:bg-yellow-600/30' : 'bg-orange-600/20 border-orange-500 text-orange-400 hover:bg-orange-600/30'}`}>
+              <RefreshCw size={16} className={isLiveSource && !isConnected ? "animate-spin" : ""} />
+              <select
+                value={sourceId}
+                onChange={(e) => setSourceId(e.target.value as SourceId)}
+                className="bg-transparent outline-none cursor-pointer"
+                aria-label="Data source"
+              >
+                {SOURCE_IDS.map(id => (
+                  <option key={id} value={id} className="bg-slate-800 text-white">{SOURCE_LABELS[id]}</option>
+                ))}
+                {replayFile && (
+                  <option value="replay" className="bg-slate-800 text-white">{SOURCE_LABELS.replay}</option>
+                )}
+              </select>
+            </label>
+
+            {canRecord && (
+              <button
+                onClick={recordingStats ? stopRecording : startRecording}
+                className={`flex items-center gap-2 px-4 py-2 border rounded-lg text-sm font-medium transition-all ${recordingStats ? 'bg-rose-600/20 border-rose-500 text-rose-400' : 'bg-slate-800 border-slate-600 text-slate-400 hover:bg-slate-700'}`}
+                title="Record the raw depth stream to a file"
+              >
+                {recordingStats ? <Square size={16} /> : <Circle size={16} />}
+                {recordingStats
+                  ? `Stop ${Math.floor(recordingStats.durationMs / 1000)}s · ${recordingStats.frames}`
+                  : 'Record'}
+              </button>
+            )}
+
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-600 rounded-lg text-sm font-medium text-slate-400 transition-all"
+              title="Replay a recorded session or a JSON snapshot export"
             >
-              <RefreshCw size={16} className={dataSource === 'API' && !isConnected ? "animate-spin" : ""} />
-              {dataSource === 'API' ? 'Live Data' : 'Simulated'}
+              <FolderOpen size={16} />
+              Open
             </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={`${RECORDING_EXTENSION},.gz,.ndjson,${EXPORT_EXTENSIONS.json}`}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) openReplayFile(file);
+                e.target.value = '';
+              }}
+            />
 
-            <button 
-              onClick={() => setAutoRotate(!autoRotate)}
-              className={`flex items-center gap-2 px-4 py-2 border rounded-lg text-sm font-medium transition-all ${autoRotate ? 'bg-blue-600/20 border-blue-500 text-blue-400' : 'bg-slate-800 border-slate-600 text-slate-400 hover:bg-slate-700'}`}
+            <button
+              onClick={() => setShowTrades(!showTrades)}
+              className={`flex items-center gap-2 px-4 py-2 border rounded-lg text-sm font-medium transition-all ${showTrades ? 'bg-purple-600/20 border-purple-500 text-purple-300' : 'bg-slate-800 border-slate-600 text-slate-400 hover:bg-slate-700'}`}
+            >
+              <CircleDot size={16} />
+              Trades
+            </button>
+
+            <button
+              onClick={() => setViewMode(viewMode === '3D' ? '2D' : '3D')}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-600 rounded-lg text-sm font-medium transition-all"
             >
-              <RotateCw size={16} className={autoRotate ? "animate-spin-slow" : ""} />
-              Rotate
+              {viewMode === '3D' ? <Flame size={16} /> : <Box size={16} />}
+              {viewMode === '3D' ? 'Heatmap' : 'Canyon'}
             </button>
 
+            {viewMode === '3D' && (
+              <button 
+                onClick={() => setAutoRotate(!autoRotate)}
+                className={`flex items-center gap-2 px-4 py-2 border rounded-lg text-sm font-medium transition-all ${autoRotate ? 'bg-blue-600/20 border-blue-500 text-blue-400' : 'bg-slate-800 border-slate-600 text-slate-400 hover:bg-slate-700'}`}
+              >
+                <RotateCw size={16} className={autoRotate ? "animate-spin-slow" : ""} />
+                Rotate
+              </button>
+            )}
+
             <button 
-              onClick={() => setIsPaused(!isPaused)}
+              onClick={isPaused ? jumpToLive : pause}
               className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-600 rounded-lg text-sm font-medium transition-all"
             >
               {isPaused ? <Play size={16} /> : <Pause size={16} />}
@@ -175,33 +714,109 @@ const App: React.FC = () => {
         </div>
 
         {/* Instructions */}
-        <div className="mt-8 max-w-xs text-xs text-slate-400 bg-slate-900/50 backdrop-blur-md p-4 rounded-xl border border-slate-800 pointer-events-auto transition-opacity opacity-80 hover:opacity-100">
-          <h3 className="font-bold text-slate-200 mb-2 flex items-center gap-2">
-            <Activity size={14} /> Visual Guide
-          </h3>
-          <ul className="space-y-2">
-            <li className="flex items-center gap-2">
-              <div className="w-3 h-3 rounded bg-emerald-600"></div>
-              <span>Buy Wall (Aggregated $2 Buckets)</span>
-            </li>
-            <li className="flex items-center gap-2">
-              <div className="w-3 h-3 rounded bg-rose-700"></div>
-              <span>Sell Wall (Aggregated $2 Buckets)</span>
-            </li>
-            <li className="flex items-center gap-2">
-              <Layers size={14} />
-              <span>Height = Cumulative Volume</span>
-            </li>
-          </ul>
-        </div>
+        {!isSplit && (
+          <div className="mt-8 max-w-xs text-xs text-slate-400 bg-slate-900/50 backdrop-blur-md p-4 rounded-xl border border-slate-800 pointer-events-auto transition-opacity opacity-80 hover:opacity-100">
+            <h3 className="font-bold text-slate-200 mb-2 flex items-center gap-2">
+              <Activity size={14} /> Visual Guide
+            </h3>
+            <ul className="space-y-2">
+              <li className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded bg-emerald-600"></div>
+                <span>Buy Wall (Aggregated {bucketLabel} Buckets)</span>
+              </li>
+              <li className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded bg-rose-700"></div>
+                <span>Sell Wall (Aggregated {bucketLabel} Buckets)</span>
+              </li>
+              <li className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded-full bg-lime-400"></div>
+                <div className="w-3 h-3 rounded-full bg-orange-400 -ml-1"></div>
+                <span>Trades (Buy / Sell Aggressor, Size = Quantity)</span>
+              </li>
+              <li className="flex items-center gap-2">
+                <Spline size={14} />
+                <span>Floor Trail = Mid, Bid/Ask Spread Band, VWAP (Dashed)</span>
+              </li>
+              <li className="flex items-center gap-2">
+                <Layers size={14} />
+                <span>Height = {HEIGHT_METRIC_LABELS[heightConfig.metric]} ({heightConfig.scale})</span>
+              </li>
+              <li className="flex items-center gap-2">
+                <GitCompare size={14} />
+                <span>Click a slice for depth · Shift-click two to compare</span>
+              </li>
+            </ul>
+          </div>
+        )}
       </div>
 
+      {/* Side Panels: liquidity events, alerts and microstructure metrics (hidden over the split view) */}
+      <div className={`absolute top-28 right-6 z-10 flex flex-col gap-3 ${isSplit ? 'hidden' : ''}`}>
+        <LiquidityEventsPanel
+          events={liquidityEvents}
+          config={detectorConfig}
+          symbolInfo={symbolInfo}
+          onConfigChange={setDetectorConfig}
+        />
+        <AlertsPanel
+          rules={alertRules}
+          triggers={alertLog}
+          symbolInfo={symbolInfo}
+          latestSnapshot={history[history.length - 1] ?? null}
+          onRulesChange={setAlertRules}
+        />
+        <MetricsPanel history={history} symbolInfo={symbolInfo} />
+      </div>
+
+      {/* Bottom Dock: history scrubber and replay transport */}
+      <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20 w-full max-w-2xl px-4 flex flex-col gap-2">
+        {compareBase && (
+          <div className="self-center flex items-center gap-3 px-4 py-2 rounded-lg border border-blue-500 bg-blue-600/20 text-sm text-blue-300">
+            <GitCompare size={16} />
+            <span>Comparing from {new Date(compareBase.timestamp).toLocaleTimeString()} · shift-click a second slice</span>
+            <button onClick={() => setCompareBase(null)} className="text-blue-300 hover:text-white" aria-label="Cancel comparison">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
+        <TimelineScrubber
+          start={bufferRange.start}
+          end={bufferRange.end}
+          position={scrubSeq ?? bufferRange.end - 1}
+          isLive={!isPaused}
+          timestampAt={(seq) => bufferRef.current.timestampAt(Math.max(seq, bufferRef.current.start()))}
+          onScrub={scrubTo}
+          onJumpToLive={jumpToLive}
+        />
+
+        {sourceId === 'replay' && replayState && replayFile && (
+          <ReplayControls
+            state={replayState}
+            startedAt={replayFile.kind === 'session' ? replayFile.recording.header.startedAt : replayFile.data.slices[0]?.timestamp ?? 0}
+            onPlay={() => replaySourceRef.current?.play()}
+            onPause={() => replaySourceRef.current?.pause()}
+            onSeek={(ms) => replaySourceRef.current?.seek(ms)}
+            onSpeedChange={(speed) => replaySourceRef.current?.setSpeed(speed)}
+            onClose={closeReplay}
+          />
+        )}
+      </div>
+
+      <AlertToasts toasts={toasts} onDismiss={(toast) => setToasts(prev => prev.filter(t => t !== toast))} />
+
       {/* 2D Modal Overlay */}
       {selectedSnapshot && (
         <TwoDepthChart 
           snapshot={selectedSnapshot} 
+          compareSnapshot={compareSnapshot}
+          highlight={selectedBucket}
+          symbolInfo={symbolInfo}
+          onExport={(format) => exportSlices('slice', format)}
           onClose={() => {
             setSelectedSnapshot(null);
+            setCompareSnapshot(null);
+            setSelectedBucket(null);
             // No need to resume, we didn't pause
           }} 
         />
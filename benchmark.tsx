@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import ReactDOM from 'react-dom/client';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { Gauge, RotateCw } from 'lucide-react';
+import { OrderBookSnapshot, OrderEntry } from './types';
+import { HistoryBuffer, createHistoryBuffer } from './services/historyBuffer';
+import { DEFAULT_HEIGHT_CONFIG } from './services/heightScale';
+import { DEFAULT_SYMBOL, parseSymbol } from './services/symbolService';
+import { CanyonScene } from './components/CanyonScene';
+import { CanyonEnvironment } from './components/CanyonEnvironment';
+import { VISUAL_BUCKETS } from './services/marketService';
+
+/**
+ * Rendering benchmark: synthetic histories of increasing length drawn by the terrain the app uses,
+ * against the instanced canyon (kept for the venue breakdown; it only ever draws the newest 100 slices) as the baseline.
+ * Each run keeps appending slices at the app's tick, so ring uploads are part of what is measured.
+ */
+
+type Renderer = 'instanced' | 'shader';
+
+interface BenchmarkRun {
+  renderer: Renderer;
+  slices: number;
+  buckets: number;
+}
+
+interface RunResult extends BenchmarkRun {
+  avgMs: number;
+  p95Ms: number;
+  maxMs: number;
+  triangles: number;
+  fillMs: number;
+}
+
+const RUNS: BenchmarkRun[] = [
+  ...[60, VISUAL_BUCKETS].map(buckets => ({ renderer: 'instanced' as const, slices: 100, buckets })),
+  ...[100, 1000, 3000, 6000, 12000].map(slices => ({ renderer: 'shader' as const, slices, buckets: 60 })),
+  ...[1000, 12000].map(slices => ({ renderer: 'shader' as const, slices, buckets: VISUAL_BUCKETS })),
+];
+
+const WARMUP_FRAMES = 60;
+const MEASURE_FRAMES = 300;
+// One new slice every 12 frames: the app's 5 Hz tick on a 60 Hz display
+const TICK_FRAMES = 12;
+const VISIBLE_SLICES = 100;
+
+const TICK_MS = 200;
+const BUCKET_SIZE = 2;
+const START_TIME = Date.UTC(2025, 0, 1);
+
+// Stable pseudo-random [0, 1) per integer, so every run sees the same market
+const hashUnit = (n: number) => {
+  const x = Math.sin(n * 12.9898) * 43758.5453;
+  return x - Math.floor(x);
+};
+
+// A wandering mid over a book that thickens away from it, with the odd wall that persists while price sits there
+const syntheticSlice = (seq: number, buckets: number): OrderBookSnapshot => {
+  const mid = 100000 + 60 * Math.sin(seq / 400) + 20 * Math.sin(seq / 37) + 4 * Math.sin(seq / 3.7);
+  const bidTop = Math.floor(mid / BUCKET_SIZE) * BUCKET_SIZE;
+  const side = (isBid: boolean): OrderEntry[] => {
+    let total = 0;
+    return Array.from({ length: buckets }, (_, i) => {
+      const price = isBid ? bidTop - i * BUCKET_SIZE : bidTop + (i + 1) * BUCKET_SIZE;
+      const level = Math.round(price / BUCKET_SIZE);
+      const wall = hashUnit(level) > 0.97 ? 6 : 1;
+      const quantity = (0.5 + i / buckets) * (0.6 + 0.8 * hashUnit(level * 7 + (seq % 50))) * wall;
+      total += quantity;
+      return { price, quantity, total };
+    });
+  };
+  return { timestamp: START_TIME + seq * TICK_MS, midPrice: mid, bucketSize: BUCKET_SIZE, bids: side(true), asks: side(false) };
+};
+
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+
+interface FrameProbeProps {
+  onTick: () => void;
+  onDone: (frameMs: number[], triangles: number) => void;
+}
+
+// Appends a slice every TICK_FRAMES and records frame intervals once the scene has warmed up
+const FrameProbe: React.FC<FrameProbeProps> = ({ onTick, onDone }) => {
+  const gl = useThree(state => state.gl);
+  const frameRef = useRef(0);
+  const lastRef = useRef(0);
+  const samplesRef = useRef<number[]>([]);
+  const doneRef = useRef(false);
+
+  useFrame(() => {
+    if (doneRef.current) return;
+    const now = performance.now();
+    const frame = frameRef.current++;
+    if (frame > WARMUP_FRAMES) samplesRef.current.push(now - lastRef.current);
+    lastRef.current = now;
+    if (frame % TICK_FRAMES === 0) onTick();
+    if (samplesRef.current.length >= MEASURE_FRAMES) {
+      doneRef.current = true;
+      onDone(samplesRef.current, gl.info.render.triangles);
+    }
+  });
+  return null;
+};
+
+const symbolInfo = parseSymbol(DEFAULT_SYMBOL);
+
+const Benchmark: React.FC = () => {
+  const [runIndex, setRunIndex] = useState(0);
+  const [results, setResults] = useState<RunResult[]>([]);
+  const [lastSeq, setLastSeq] = useState(-1);
+  const run = RUNS[runIndex] as BenchmarkRun | undefined;
+
+  // The history a run starts from; filled outside the measured frames
+  const setup = useMemo((): { buffer: HistoryBuffer; fillMs: number } | null => {
+    if (!run) return null;
+    const started = performance.now();
+    const buffer = createHistoryBuffer(run.slices, run.buckets);
+    for (let seq = 0; seq < run.slices; seq++) buffer.push(syntheticSlice(seq, run.buckets));
+    return { buffer, fillMs: performance.now() - started };
+  }, [run]);
+
+  useEffect(() => {
+    if (setup) setLastSeq(setup.buffer.end() - 1);
+  }, [setup]);
+
+  const history = useMemo(
+    () => setup && lastSeq >= setup.buffer.start() && lastSeq < setup.buffer.end() ? setup.buffer.window(lastSeq, VISIBLE_SLICES) : [],
+    [setup, lastSeq]
+  );
+
+  const tick = () => {
+    if (!setup || !run) return;
+    setup.buffer.push(syntheticSlice(setup.buffer.end(), run.buckets));
+    setLastSeq(setup.buffer.end() - 1);
+  };
+
+  const finish = (frameMs: number[], triangles: number) => {
+    if (!run || !setup) return;
+    const sorted = [...frameMs].sort((a, b) => a - b);
+    setResults(prev => [...prev, {
+      ...run,
+      avgMs: frameMs.reduce((sum, ms) => sum + ms, 0) / frameMs.length,
+      p95Ms: percentile(sorted, 0.95),
+      maxMs: sorted[sorted.length - 1],
+      triangles,
+      fillMs: setup.fillMs,
+    }]);
+    setLastSeq(-1);
+    setRunIndex(i => i + 1);
+  };
+
+  const restart = () => {
+    setResults([]);
+    setLastSeq(-1);
+    setRunIndex(0);
+  };
+
+  return (
+    <div className="relative w-full h-full bg-slate-900 text-white">
+      {run && setup && history.length > 0 && (
+        <Canvas key={runIndex}>
+          <CanyonEnvironment autoRotate={false} />
+          <CanyonScene
+            history={history}
+            symbolInfo={symbolInfo}
+            isLive={true}
+            showTrades={false}
+            heightConfig={DEFAULT_HEIGHT_CONFIG}
+            priceAxis="follow"
+            byVenue={false}
+            showTrail={true}
+            showVwap={false}
+            deepHistory={run.renderer === 'shader' ? { buffer: setup.buffer, lastSeq } : null}
+            events={[]}
+            alerts={[]}
+            onSelectSlice={() => {}}
+          />
+          <FrameProbe onTick={tick} onDone={finish} />
+        </Canvas>
+      )}
+
+      <div className="absolute top-6 left-6 p-4 rounded-xl border border-slate-700 bg-slate-900/90 text-xs font-mono text-slate-300">
+        <h1 className="flex items-center gap-2 mb-3 text-sm font-bold text-slate-100">
+          <Gauge size={16} /> Canyon rendering benchmark
+        </h1>
+        <table>
+          <thead className="text-slate-500">
+            <tr>
+              {['Renderer', 'Slices', 'Buckets', 'Fill', 'Avg frame', 'p95', 'Max', 'Triangles'].map(label => (
+                <th key={label} className="px-2 text-left font-normal">{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {RUNS.map((r, i) => {
+              const result = results[i];
+              return (
+                <tr key={i} className={i === runIndex ? 'text-blue-300' : ''}>
+                  <td className="px-2">{r.renderer}</td>
+                  <td className="px-2 text-right">{r.slices}</td>
+                  <td className="px-2 text-right">{r.buckets}</td>
+                  <td className="px-2 text-right">{result ? `${result.fillMs.toFixed(0)} ms` : ''}</td>
+                  <td className="px-2 text-right">{result ? `${result.avgMs.toFixed(2)} ms` : i === runIndex ? 'running…' : ''}</td>
+                  <td className="px-2 text-right">{result ? `${result.p95Ms.toFixed(2)} ms` : ''}</td>
+                  <td className="px-2 text-right">{result ? `${result.maxMs.toFixed(2)} ms` : ''}</td>
+                  <td className="px-2 text-right">{result ? result.triangles.toLocaleString() : ''}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <p className="mt-3 max-w-md text-slate-500">
+          Frame intervals are capped by the display refresh rate; the terrain should stay flat as slices grow.
+          Instanced runs draw the newest {VISIBLE_SLICES} slices whatever the history holds.
+        </p>
+        {!run && (
+          <button
+            onClick={restart}
+            className="mt-3 flex items-center gap-2 px-3 py-1.5 rounded-lg border border-slate-600 bg-slate-800 hover:bg-slate-700 text-slate-300"
+          >
+            <RotateCw size={14} /> Run again
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const rootElement = document.getElementById('root');
+if (!rootElement) {
+  throw new Error("Could not find root element to mount to");
+}
+
+ReactDOM.createRoot(rootElement).render(
+  <React.StrictMode>
+    <Benchmark />
+  </React.StrictMode>
+);
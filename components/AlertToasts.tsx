@@ -0,0 +1,26 @@
+import React from 'react';
+import { BellRing, X } from 'lucide-react';
+import { AlertTrigger } from '../types';
+
+interface AlertToastsProps {
+  toasts: AlertTrigger[]; // Oldest first
+  onDismiss: (toast: AlertTrigger) => void;
+}
+
+export const AlertToasts: React.FC<AlertToastsProps> = ({ toasts, onDismiss }) => (
+  <div className="absolute top-28 left-1/2 -translate-x-1/2 z-30 flex flex-col gap-2 pointer-events-none">
+    {toasts.map((toast, i) => (
+      <div
+        key={`${toast.ruleId}-${toast.timestamp}-${i}`}
+        className="flex items-center gap-3 px-4 py-2 rounded-lg border border-amber-500 bg-slate-900/90 backdrop-blur-md text-sm text-amber-200 shadow-xl pointer-events-auto animate-in fade-in duration-200"
+      >
+        <BellRing size={16} className="text-amber-400 shrink-0" />
+        <span className="font-mono text-xs text-slate-400">{new Date(toast.timestamp).toLocaleTimeString()}</span>
+        <span>{toast.message}</span>
+        <button onClick={() => onDismiss(toast)} className="text-slate-400 hover:text-white" aria-label="Dismiss alert">
+          <X size={14} />
+        </button>
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Bell, BellOff, BellRing, ChevronDown, ChevronUp, Trash2, Volume2, VolumeX } from 'lucide-react';
+import { AlertKind, AlertRule, AlertTrigger, BookSide, OrderBookSnapshot, SymbolInfo } from '../types';
+import { ALERT_KIND_LABELS, createAlertRule, requestNotificationPermission } from '../services/alerts';
+import { DEPTH_BANDS_PCT } from '../services/bookMetrics';
+
+interface AlertsPanelProps {
+  rules: AlertRule[]; // All pairs; only the current pair's are shown
+  triggers: AlertTrigger[]; // Newest last
+  symbolInfo: SymbolInfo;
+  latestSnapshot: OrderBookSnapshot | null; // Seeds the level of new rules
+  onRulesChange: (rules: AlertRule[]) => void;
+}
+
+// Shared with CanyonScene's alert markers
+export const ALERT_COLOR = '#fbbf24';
+
+const VISIBLE_TRIGGERS = 20;
+
+const inputClass = 'bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono text-xs text-white outline-none focus:border-blue-500';
+
+export const AlertsPanel: React.FC<AlertsPanelProps> = ({
+  rules, triggers, symbolInfo, latestSnapshot, onRulesChange
+}) => {
+  const [collapsed, setCollapsed] = useState(true);
+  const [newKind, setNewKind] = useState<AlertKind>('mid-cross');
+  const pairRules = rules.filter(r => r.symbol === symbolInfo.symbol);
+  const visible = triggers.slice(-VISIBLE_TRIGGERS).reverse();
+
+  const update = (id: string, patch: Partial<AlertRule>) => {
+    if (patch.notify) requestNotificationPermission();
+    onRulesChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  return (
+    <div className="w-80 text-xs text-slate-400 bg-slate-900/50 backdrop-blur-md rounded-xl border border-slate-800 pointer-events-auto">
+      <button
+        onClick={() => setCollapsed(!collapsed)}
+        className="w-full flex items-center justify-between p-4 font-bold text-slate-200"
+      >
+        <span className="flex items-center gap-2"><BellRing size={14} /> Alerts ({pairRules.filter(r => r.enabled).length})</span>
+        {collapsed ? <ChevronDown size={14} /> : <ChevronUp size={14} />}
+      </button>
+
+      {!collapsed && (
+        <div className="px-4 pb-4 space-y-3">
+          <div className="flex gap-2">
+            <select
+              value={newKind}
+              onChange={(e) => setNewKind(e.target.value as AlertKind)}
+              className={`flex-1 ${inputClass}`}
+              aria-label="New alert condition"
+            >
+              {(Object.keys(ALERT_KIND_LABELS) as AlertKind[]).map(kind => (
+                <option key={kind} value={kind}>{ALERT_KIND_LABELS[kind]}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onRulesChange([...rules, createAlertRule(newKind, symbolInfo.symbol, latestSnapshot)])}
+              className="px-3 py-1 rounded bg-blue-600/20 border border-blue-500 text-blue-300 hover:bg-blue-600/30"
+            >
+              Add
+            </button>
+          </div>
+
+          <ul className="space-y-2">
+            {pairRules.length === 0 && <li className="text-slate-500">No alerts for {symbolInfo.symbol}</li>}
+            {pairRules.map(rule => (
+              <li key={rule.id} className={`space-y-1 ${rule.enabled ? '' : 'opacity-50'}`}>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => update(rule.id, { enabled: e.target.checked })}
+                    className="accent-blue-500"
+                    aria-label="Enabled"
+                  />
+                  <span className="text-slate-200">{ALERT_KIND_LABELS[rule.kind]}</span>
+                  <input
+                    type="number"
+                    value={rule.level}
+                    min={0}
+                    onChange={(e) => {
+                      const level = Number(e.target.value);
+                      if (level >= 0) update(rule.id, { level });
+                    }}
+                    className={`w-24 ml-auto ${inputClass}`}
+                    aria-label="Alert level"
+                  />
+                  <button onClick={() => update(rule.id, { sound: !rule.sound })} className="hover:text-white" aria-label="Toggle sound">
+                    {rule.sound ? <Volume2 size={14} /> : <VolumeX size={14} />}
+                  </button>
+                  <button onClick={() => update(rule.id, { notify: !rule.notify })} className="hover:text-white" aria-label="Toggle browser notification">
+                    {rule.notify ? <Bell size={14} /> : <BellOff size={14} />}
+                  </button>
+                  <button onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))} className="hover:text-rose-400" aria-label="Delete alert">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+                {(rule.kind === 'depth-thin' || rule.kind === 'bucket-size') && (
+                  <div className="flex items-center gap-2 pl-5">
+                    <select
+                      value={rule.side}
+                      onChange={(e) => update(rule.id, { side: e.target.value as BookSide | 'both' })}
+                      className={inputClass}
+                      aria-label="Book side"
+                    >
+                      <option value="both">Both sides</option>
+                      <option value="bid">Bids</option>
+                      <option value="ask">Asks</option>
+                    </select>
+                    {rule.kind === 'depth-thin' && (
+                      <>
+                        <span>within</span>
+                        {/* The metrics bands cover the whole book; other (older) bands only what the buckets reach */}
+                        <select
+                          value={rule.bandPct}
+                          onChange={(e) => update(rule.id, { bandPct: Number(e.target.value) })}
+                          className={inputClass}
+                          aria-label="Band around mid in percent"
+                        >
+                          {(DEPTH_BANDS_PCT.includes(rule.bandPct) ? DEPTH_BANDS_PCT : [...DEPTH_BANDS_PCT, rule.bandPct]).map(band => (
+                            <option key={band} value={band}>{band}%</option>
+                          ))}
+                        </select>
+                      </>
+                    )}
+                    <span className="ml-auto">{symbolInfo.baseAsset}</span>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {visible.length > 0 && (
+            <ul className="space-y-1 max-h-[20vh] overflow-y-auto pr-1 border-t border-slate-800 pt-2">
+              {visible.map((trigger, i) => (
+                <li key={`${trigger.ruleId}-${trigger.timestamp}-${i}`} className="flex gap-2 font-mono">
+                  <span className="text-slate-500 shrink-0">{new Date(trigger.timestamp).toLocaleTimeString()}</span>
+                  <span className="text-amber-300">{trigger.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
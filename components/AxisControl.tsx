@@ -0,0 +1,41 @@
+import React from 'react';
+import { MoveHorizontal } from 'lucide-react';
+import { PriceAxisMode } from '../types';
+
+export const PRICE_AXIS_LABELS: Record<PriceAxisMode, string> = {
+  follow: 'Follow mid',
+  fixed: 'Fixed price',
+  percent: '% from mid',
+};
+
+// Fixed axis: the origin moves to the mid's nearest round price once the mid has wandered this many buckets from it
+export const FIXED_AXIS_RECENTER_BUCKETS = 45;
+
+interface AxisControlProps {
+  mode: PriceAxisMode;
+  onChange: (mode: PriceAxisMode) => void;
+}
+
+export const AxisControl: React.FC<AxisControlProps> = ({ mode, onChange }) => (
+  <label className="flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-600 bg-slate-800 text-sm">
+    <MoveHorizontal size={16} className="text-slate-400" />
+    <select
+      value={mode}
+      onChange={(e) => onChange(e.target.value as PriceAxisMode)}
+      className="bg-transparent text-white outline-none cursor-pointer"
+      aria-label="Price axis"
+    >
+      {(Object.keys(PRICE_AXIS_LABELS) as PriceAxisMode[]).map(m => (
+        <option key={m} value={m} className="bg-slate-800">{PRICE_AXIS_LABELS[m]}</option>
+      ))}
+    </select>
+    {mode === 'fixed' && (
+      <span
+        className="text-xs text-slate-500"
+        title={`The axis re-centres on the mid once it moves more than ${FIXED_AXIS_RECENTER_BUCKETS} buckets from the origin`}
+      >
+        re-centres at ±{FIXED_AXIS_RECENTER_BUCKETS}
+      </span>
+    )}
+  </label>
+);
@@ -0,0 +1,56 @@
+import React from 'react';
+import { BookSide, OrderBookSnapshot, SymbolInfo } from '../types';
+import { formatCompact, formatNotional, formatPrice, stepDecimals } from '../services/symbolService';
+import { SOURCE_LABELS } from '../services/sources';
+import { VENUE_COLORS } from './VenueControl';
+
+export const formatAge = (ms: number) => {
+  const seconds = ms / 1000;
+  if (seconds < 60) return `-${seconds.toFixed(1)}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `-${minutes}m${Math.round(seconds % 60).toString().padStart(2, '0')}s`;
+};
+
+interface BarTooltipProps {
+  snapshot: OrderBookSnapshot;
+  side: BookSide;
+  bucket: number;
+  // 'front', or how far the slice is behind it
+  ageLabel: string;
+  symbolInfo: SymbolInfo;
+  // Extra lines below the bucket's figures
+  children?: React.ReactNode;
+}
+
+/**
+ * Figures of one bucket of one slice, shown above the hovered canyon bar.
+ */
+export const BarTooltip: React.FC<BarTooltipProps> = ({ snapshot, side, bucket, ageLabel, symbolInfo, children }) => {
+  const entry = (side === 'bid' ? snapshot.bids : snapshot.asks)[bucket];
+  if (!entry) return null;
+  const size = snapshot.bucketSize;
+  // Bid buckets cover (price - size, price], ask buckets [price, price + size)
+  const low = side === 'bid' ? entry.price - size : entry.price;
+  const decimals = stepDecimals(size);
+  return (
+    <div className="pointer-events-none whitespace-nowrap bg-slate-900/90 border border-slate-700 rounded-lg px-3 py-2 text-xs font-mono text-slate-300 shadow-xl -translate-x-1/2 -translate-y-full -mt-2">
+      <div className={side === 'bid' ? 'text-emerald-400' : 'text-rose-400'}>
+        {side === 'bid' ? 'Bid' : 'Ask'} bucket {bucket + 1}
+        <span className="text-slate-500"> · {ageLabel}</span>
+      </div>
+      <div className="text-white">
+        {formatPrice(low, symbolInfo.quoteAsset, decimals)} – {formatPrice(low + size, '', decimals)}
+      </div>
+      <div>Level {formatCompact(entry.quantity)} {symbolInfo.baseAsset}</div>
+      <div>Cumulative {formatCompact(entry.total)} {symbolInfo.baseAsset}</div>
+      <div>Notional {formatNotional(entry.price * entry.quantity, symbolInfo.quoteAsset)}</div>
+      {snapshot.breakdown?.venues.map((venue, v) => (
+        <div key={venue} className="flex items-center gap-1.5">
+          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: VENUE_COLORS[venue] }} />
+          {SOURCE_LABELS[venue]} {formatCompact((side === 'bid' ? snapshot.breakdown!.bids : snapshot.breakdown!.asks)[v][bucket])}
+        </div>
+      ))}
+      {children}
+    </div>
+  );
+};
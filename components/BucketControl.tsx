@@ -0,0 +1,81 @@
+import React, { useState, useEffect } from 'react';
+import { Grid3x3 } from 'lucide-react';
+import { BucketConfig } from '../types';
+import { AUTO_BUCKET_BPS } from '../services/marketService';
+
+interface BucketControlProps {
+  config: BucketConfig;
+  // Bucket size the feed actually resolved to (for display in 'auto' mode)
+  resolvedSize: number | null;
+  // Percent axis: buckets are sized in bps and counted from the mid whatever the mode
+  fromMid: boolean;
+  onChange: (config: BucketConfig) => void;
+}
+
+const valueOf = (config: BucketConfig): string => {
+  if (config.mode === 'absolute') return String(config.size);
+  if (config.mode === 'bps') return String(config.bps);
+  return '';
+};
+
+export const BucketControl: React.FC<BucketControlProps> = ({ config, resolvedSize, fromMid, onChange }) => {
+  const [draft, setDraft] = useState(valueOf(config));
+
+  useEffect(() => {
+    setDraft(valueOf(config));
+  }, [config]);
+
+  const commitValue = () => {
+    const value = parseFloat(draft);
+    if (!(value > 0)) {
+      setDraft(valueOf(config));
+      return;
+    }
+    if (config.mode === 'absolute') onChange({ mode: 'absolute', size: value });
+    else if (config.mode === 'bps') onChange({ mode: 'bps', bps: value });
+  };
+
+  const changeMode = (mode: BucketConfig['mode']) => {
+    if (mode === 'auto') onChange({ mode: 'auto' });
+    // Seed the new mode from what the feed is currently using so the canyon does not jump
+    else if (mode === 'absolute') onChange({ mode: 'absolute', size: resolvedSize ?? 1 });
+    else onChange({ mode: 'bps', bps: 1 });
+  };
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-600 bg-slate-800 text-sm">
+      <Grid3x3 size={16} className="text-slate-400" />
+      <select
+        value={config.mode}
+        onChange={(e) => changeMode(e.target.value as BucketConfig['mode'])}
+        className="bg-transparent text-white outline-none"
+        aria-label="Bucket size mode"
+      >
+        <option value="auto" className="bg-slate-800">Auto</option>
+        <option value="absolute" className="bg-slate-800">Price</option>
+        <option value="bps" className="bg-slate-800">bps</option>
+      </select>
+      {config.mode === 'auto' ? (
+        <span className="w-20 font-mono text-slate-400">{resolvedSize ?? '—'}</span>
+      ) : (
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commitValue}
+          onKeyDown={(e) => { if (e.key === 'Enter') commitValue(); }}
+          inputMode="decimal"
+          className="w-20 bg-transparent font-mono text-white outline-none"
+          aria-label={config.mode === 'bps' ? 'Bucket size in basis points' : 'Bucket size in price units'}
+        />
+      )}
+      {fromMid && (
+        <span
+          className="text-xs text-slate-500"
+          title={`The % axis counts buckets out from the mid, ${config.mode === 'bps' ? config.bps : AUTO_BUCKET_BPS} bps each`}
+        >
+          bps from mid
+        </span>
+      )}
+    </div>
+  );
+};
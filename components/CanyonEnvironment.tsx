@@ -0,0 +1,88 @@
+import React, { useEffect, useRef } from 'react';
+import { useThree } from '@react-three/fiber';
+import { OrbitControls, PerspectiveCamera, Stars } from '@react-three/drei';
+import { Vector3 } from 'three';
+
+type ControlsHandle = React.ElementRef<typeof OrbitControls>;
+type CameraListener = (from: unknown, position: Vector3, target: Vector3) => void;
+
+/**
+ * Shares one orbit camera between canyons: whichever pane is dragged, the others follow.
+ */
+export interface CameraSync {
+  publish: CameraListener;
+  subscribe: (listener: CameraListener) => () => void;
+}
+
+export const createCameraSync = (): CameraSync => {
+  const listeners = new Set<CameraListener>();
+  return {
+    publish: (from, position, target) => listeners.forEach(listener => listener(from, position, target)),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+interface CanyonEnvironmentProps {
+  autoRotate: boolean;
+  sync?: CameraSync;
+}
+
+// The terrain's oldest tier ends ~245 units behind the front
+const FOG_FAR = 300;
+
+/**
+ * Camera, orbit controls, lights, stars and fog of a canyon canvas.
+ */
+export const CanyonEnvironment: React.FC<CanyonEnvironmentProps> = ({ autoRotate, sync }) => {
+  const controlsRef = useRef<ControlsHandle>(null);
+  const camera = useThree(state => state.camera);
+  // Set while applying another pane's camera, so it is not published straight back
+  const applyingRef = useRef(false);
+
+  useEffect(() => sync?.subscribe((from, position, target) => {
+    const controls = controlsRef.current;
+    if (!controls || from === controls) return;
+    applyingRef.current = true;
+    camera.position.copy(position);
+    controls.target.copy(target);
+    controls.update();
+    applyingRef.current = false;
+  }), [sync, camera]);
+
+  const publish = () => {
+    const controls = controlsRef.current;
+    if (!sync || !controls || applyingRef.current) return;
+    sync.publish(controls, camera.position, controls.target);
+  };
+
+  return (
+    <>
+      {/* Widen FOV slightly to 60 to see more of the canyon walls */}
+      <PerspectiveCamera makeDefault position={[0, 15, 30]} fov={60} />
+      <OrbitControls
+        ref={controlsRef}
+        enablePan={true}
+        enableZoom={true}
+        minDistance={5}
+        maxDistance={120}
+        autoRotate={autoRotate}
+        autoRotateSpeed={0.5}
+        target={[0, 0, -10]}
+        onChange={publish}
+      />
+
+      <ambientLight intensity={1.8} />
+      <pointLight position={[10, 20, 10]} intensity={1.5} color="#ffffff" />
+      {/* Adjusted lights for wider scene */}
+      <pointLight position={[-30, 15, -20]} intensity={2} color="#10b981" distance={80} />
+      <pointLight position={[30, 15, -20]} intensity={2} color="#f43f5e" distance={80} />
+
+      <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
+
+      <fog attach="fog" args={['#0f172a', 10, FOG_FAR]} />
+    </>
+  );
+};
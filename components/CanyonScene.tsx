@@ -1,51 +1,222 @@
-import React, { useRef, useEffect, useMemo } from 'react';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
 import * as THREE from 'three';
-import { OrderBookSnapshot } from '../types';
-import { Text } from '@react-three/drei';
+import { ThreeEvent } from '@react-three/fiber';
+import { AlertTrigger, BookSide, BucketRef, HeightConfig, LiquidityEvent, OrderBookSnapshot, OrderEntry, PriceAxisMode, SymbolInfo } from '../types';
+import { Html, Line, Text } from '@react-three/drei';
+import { formatCompact, formatNotional, formatPrice, stepDecimals } from '../services/symbolService';
+import { createHeightScale, sideHeightValues } from '../services/heightScale';
+import { runningVwap, touchPrices } from '../services/bookMetrics';
+import { AUTO_BUCKET_BPS, VISUAL_BUCKETS } from '../services/marketService';
+import { EVENT_COLORS } from './LiquidityEventsPanel';
+import { ALERT_COLOR } from './AlertsPanel';
+import { VENUE_COLORS } from './VenueControl';
+import { FIXED_AXIS_RECENTER_BUCKETS } from './AxisControl';
+import { BarTooltip, formatAge } from './BarTooltip';
+import { CanyonTerrain, DeepHistory, TerrainLayout, useCanyonRing } from './CanyonTerrain';
 
 interface CanyonSceneProps {
   history: OrderBookSnapshot[];
-  onSelectSlice: (snapshot: OrderBookSnapshot) => void;
+  symbolInfo: SymbolInfo;
+  // False while paused or scrubbing; the front slice is then labelled with its clock time
+  isLive: boolean;
+  showTrades: boolean;
+  heightConfig: HeightConfig;
+  priceAxis: PriceAxisMode;
+  // Consolidated books: split each bar into one stacked segment per venue
+  byVenue: boolean;
+  // Mid line with the best bid/ask ribbon, and the running VWAP of the visible trades, along the floor
+  showTrail: boolean;
+  showVwap: boolean;
+  // Buffer the shader terrain draws the walls from, reaching thousands of slices back. Without one, or while the
+  // venue breakdown is shown (the terrain has none), the visible slices are drawn as instanced bars instead.
+  deepHistory?: DeepHistory | null;
+  events: LiquidityEvent[];
+  alerts: AlertTrigger[];
+  // `compare` is set for shift-clicks, which pick slices to diff; `bucket` is the bar that was hit
+  onSelectSlice: (snapshot: OrderBookSnapshot, compare: boolean, bucket?: BucketRef) => void;
 }
 
 // Visual Scaling Constants
 const Z_SPACING = 0.8; 
 const BAR_DEPTH = 0.9; 
 
-// X_SCALE:
-// Bucket size is $2.
-// We want a $2 step to occupy exactly 0.1 units in world space?
-// If X_SCALE is 0.05, then $2 * 0.05 = 0.1.
-const X_SCALE = 0.05; 
-
-// Y_SCALE: Adjusted for the aggregated volume
-const Y_SCALE = 0.05; 
-
-// BAR_WIDTH:
-// With X_SCALE 0.05 and $2 buckets, the center-to-center distance is 0.1.
-// We set width to 0.12 to ensure they slightly overlap, removing any gaps.
-const BAR_WIDTH = 0.12; 
-
-// TIMING CONSTANTS (Must match App.tsx TICK_RATE)
-const TICK_MS = 200;
-const SLICES_PER_SEC = 1000 / TICK_MS; // 5 slices per second
-const Z_PER_SEC = SLICES_PER_SEC * Z_SPACING; // Distance per second
+// BUCKET_WORLD_WIDTH:
+// One bucket of the latest snapshot occupies 0.1 units in world space, whatever its price width.
+// The price->world X scale is derived from the latest bucketSize (0.1 / bucketSize),
+// so a $2 BTC bucket and a $0.0001 bucket on a small token draw the same canyon width.
+const BUCKET_WORLD_WIDTH = 0.1;
+// On the percent axis the scale follows the mid instead: an auto-sized bucket's worth of bps
+// gets the same width, so canyons of different instruments line up side by side.
+const BPS_WORLD_WIDTH = BUCKET_WORLD_WIDTH / AUTO_BUCKET_BPS;
+
+// Bars are 20% wider than their bucket so neighbours slightly overlap, removing any gaps.
+const BAR_OVERLAP = 1.2;
+
+// Empty lane between the bid and ask walls
+const MID_GAP = 0.2;
+
+// How far a full wall of auto-sized buckets reaches from the centre; the rulers and wall labels sit just past it
+const WALL_REACH = VISUAL_BUCKETS * BUCKET_WORLD_WIDTH + MID_GAP;
+const RULER_X = -(WALL_REACH + 0.5);
+
+// Price labels are placed every N buckets on each side of mid
+const LABEL_EVERY_BUCKETS = 20;
+
+// Fixed axis: how long (in slice time) the mid marker says the axis has just re-centred
+const RECENTER_NOTICE_MS = 3000;
+const RECENTER_BOUND_COLOR = '#f59e0b';
+
+// The tallest visible bar reaches this height; the Y axis auto-scales to the visible data
+const MAX_BAR_HEIGHT = 20;
+const MIN_BAR_HEIGHT = 0.1;
+
+// Time ruler marks these slice offsets (≈ now, 3s, 5s, 10s, 20s at the 5 Hz tick);
+// labels come from the slices' own timestamps, so they stay true while scrubbing or replaying fast.
+const TIME_MARKER_SLICES = [0, 15, 25, 50, 99];
+
+// Trade markers: sphere radius grows with the cube root of size relative to the median visible trade,
+// so the tape reads the same on instruments with very different lot sizes.
+const MAX_TRADE_INSTANCES = 4000;
+const TRADE_BASE_RADIUS = 0.12;
+const TRADE_MIN_RADIUS = 0.05;
+const TRADE_MAX_RADIUS = 0.9;
+const BUY_TRADE_COLOR = new THREE.Color('#a3e635'); // Aggressive buy (lifted the ask)
+const SELL_TRADE_COLOR = new THREE.Color('#fb923c'); // Aggressive sell (hit the bid)
+
+// Liquidity event markers: a thin beam rising from the bucket where the change happened
+const MAX_EVENT_INSTANCES = 500;
+const EVENT_BEAM_HEIGHT = 4;
+
+// Alert markers: a diamond floating above the price and slice that tripped the rule
+const MAX_ALERT_INSTANCES = 200;
+const ALERT_MARKER_HEIGHT = EVENT_BEAM_HEIGHT + 1;
+const ALERT_MARKER_SIZE = 0.35;
+
+// Venue segments of consolidated bars: up to one per exchange adapter on every bar
+const MAX_VENUES = 4;
+
+// Price trail along the floor, just above the grid
+const TRAIL_Y = 0.03;
+const MID_TRAIL_COLOR = '#e2e8f0';
+const BID_TRAIL_COLOR = '#34d399';
+const ASK_TRAIL_COLOR = '#fb7185';
+const VWAP_COLOR = '#c084fc';
+
+// Wireframe drawn around the hovered bar, slightly larger so it is not hidden inside it
+const HIGHLIGHT_PADDING = 1.06;
+
+const TERRAIN_LAYOUT: TerrainLayout = {
+  midGap: MID_GAP,
+  barOverlap: BAR_OVERLAP,
+  depthRatio: BAR_DEPTH / Z_SPACING,
+  maxBarHeight: MAX_BAR_HEIGHT,
+  minBarHeight: MIN_BAR_HEIGHT,
+  rulerX: RULER_X,
+};
 
 const tempObject = new THREE.Object3D();
 const tempColor = new THREE.Color();
 
-export const CanyonScene: React.FC<CanyonSceneProps> = ({ history, onSelectSlice }) => {
+export const CanyonScene: React.FC<CanyonSceneProps> = ({
+  history, symbolInfo, isLive, showTrades, heightConfig, priceAxis, byVenue, showTrail, showVwap, deepHistory, events, alerts, onSelectSlice
+}) => {
   const bidsMeshRef = useRef<THREE.InstancedMesh>(null);
   const asksMeshRef = useRef<THREE.InstancedMesh>(null);
+  const tradesMeshRef = useRef<THREE.InstancedMesh>(null);
+  const eventsMeshRef = useRef<THREE.InstancedMesh>(null);
+  const alertsMeshRef = useRef<THREE.InstancedMesh>(null);
+  const segmentsMeshRef = useRef<THREE.InstancedMesh>(null);
+  const highlightRef = useRef<THREE.Group>(null);
+  // Bar under the pointer, by instance; resolved against the current layout on every render
+  const [hovered, setHovered] = useState<{ side: BookSide; instanceId: number } | null>(null);
   
   const DISPLAY_LIMIT = 100;
-  // We use 60 buckets per side from marketService
-  const DEPTH_PER_SIDE = 60; 
+  // Buckets per side from marketService
+  const DEPTH_PER_SIDE = VISUAL_BUCKETS;
   const MAX_INSTANCES = DISPLAY_LIMIT * DEPTH_PER_SIDE;
+  const MAX_SEGMENT_INSTANCES = MAX_INSTANCES * 2 * MAX_VENUES;
+
+  const { ring, version: ringVersion } = useCanyonRing(deepHistory ?? null, heightConfig.metric);
 
   const latestSnapshot = history[history.length - 1];
+  // The plain bars stay in place (invisible) under the segments, so picking and the tooltip work as usual.
+  // The shader terrain has no venue breakdown, so the instanced bars take over while it is shown.
+  const showVenues = byVenue && latestSnapshot?.breakdown !== undefined;
+  const terrain = ring && deepHistory && !showVenues ? { ring, deep: deepHistory } : null;
+  const frontTimestamp = latestSnapshot?.timestamp ?? 0;
   // Anchor the view to the latest midPrice (Center Lock)
   const centerPrice = latestSnapshot?.midPrice || 0;
+  const bucketSize = latestSnapshot?.bucketSize || 1;
+  // World units per unit of price
+  const xScale = priceAxis === 'percent' && centerPrice > 0
+    ? BPS_WORLD_WIDTH * 10000 / centerPrice
+    : BUCKET_WORLD_WIDTH / bucketSize;
+
+  // Price drawn at world x = 0. Following the mid (and on the percent axis) it is the latest mid, so older rows
+  // shift by how far price has moved since. On the fixed axis it stays on a round price and the mid moves instead,
+  // until the mid leaves the ±FIXED_AXIS_RECENTER_BUCKETS band around it; `recenteredAt` is the slice that moved it.
+  const fixedOriginRef = useRef<{ price: number; bucketSize: number; recenteredAt: number | null } | null>(null);
+  if (priceAxis !== 'fixed' || !centerPrice) {
+    fixedOriginRef.current = null;
+  } else {
+    const fixed = fixedOriginRef.current;
+    const outside = fixed !== null && Math.abs(centerPrice - fixed.price) > FIXED_AXIS_RECENTER_BUCKETS * bucketSize;
+    if (!fixed || fixed.bucketSize !== bucketSize || outside) {
+      const labelStep = LABEL_EVERY_BUCKETS * bucketSize;
+      fixedOriginRef.current = {
+        price: Math.round(centerPrice / labelStep) * labelStep,
+        bucketSize,
+        recenteredAt: outside ? frontTimestamp : null,
+      };
+    }
+  }
+  const axisOrigin = fixedOriginRef.current?.price ?? centerPrice;
+  const recenteredAt = fixedOriginRef.current?.recenteredAt ?? null;
+  const justRecentered = recenteredAt !== null && frontTimestamp >= recenteredAt && frontTimestamp - recenteredAt < RECENTER_NOTICE_MS;
+
+  // Bar values for the visible slices (front first) under the chosen metric, and the Y mapping they share
+  const { displayValues, maxValue, heightScale } = useMemo(() => {
+    const values = history.slice(-DISPLAY_LIMIT).reverse().map(snapshot => ({
+      bids: sideHeightValues(snapshot.bids, heightConfig.metric),
+      asks: sideHeightValues(snapshot.asks, heightConfig.metric),
+    }));
+    let maxValue = 0;
+    for (const row of values) {
+      for (const v of row.bids) if (v > maxValue) maxValue = v;
+      for (const v of row.asks) if (v > maxValue) maxValue = v;
+    }
+    // Terrain: the axis spans every slice it draws
+    if (terrain) maxValue = Math.max(maxValue, terrain.ring.visibleMax());
+    return { displayValues: values, maxValue, heightScale: createHeightScale(heightConfig.scale, maxValue) };
+  }, [history, heightConfig, terrain?.ring, ringVersion]);
+
+  // First instance id of each visible slice (front first), per side; bars are laid out slice by slice
+  const instanceStarts = useMemo(() => {
+    const starts = { bid: [] as number[], ask: [] as number[] };
+    let bid = 0;
+    let ask = 0;
+    for (const snapshot of history.slice(-DISPLAY_LIMIT).reverse()) {
+      starts.bid.push(bid);
+      starts.ask.push(ask);
+      bid += snapshot.bids.length;
+      ask += snapshot.asks.length;
+    }
+    return starts;
+  }, [history]);
+
+  // Maps a bar instance back to its slice and bucket
+  const resolveInstance = (side: BookSide, instanceId: number): { timeIndex: number; snapshot: OrderBookSnapshot; bucket: number } | null => {
+    const starts = instanceStarts[side];
+    let timeIndex = starts.length - 1;
+    while (timeIndex >= 0 && starts[timeIndex] > instanceId) timeIndex--;
+    if (timeIndex < 0) return null;
+    const snapshot = history[history.length - 1 - timeIndex];
+    const bucket = instanceId - starts[timeIndex];
+    const entries = side === 'bid' ? snapshot?.bids : snapshot?.asks;
+    return entries && bucket < entries.length ? { timeIndex, snapshot, bucket } : null;
+  };
+
+  const hit = hovered ? resolveInstance(hovered.side, hovered.instanceId) : null;
 
   // Calculate layout positions
   useEffect(() => {
@@ -71,31 +242,38 @@ export const CanyonScene: React.FC<CanyonSceneProps> = ({ history, onSelectSlice
       // Calculate how much this snapshot's price differs from the current center.
       // If snapshot price (e.g. 90) < current center (100), shift is -10 units.
       // This makes the canyon "curve" to follow the price history.
-      const priceDiff = snapshot.midPrice - centerPrice;
-      const xShift = priceDiff * X_SCALE;
+      const priceDiff = snapshot.midPrice - axisOrigin;
+      const xShift = priceDiff * xScale;
+
+      // Rows aggregated with a different bucket size (config changed mid-session) keep their true price width
+      const rowStep = snapshot.bucketSize * xScale;
+      const barWidth = rowStep * BAR_OVERLAP;
+
+      const values = displayValues[timeIndex];
 
       // --- Process Bids (Left side, Green) ---
-      // Note: In aggregation, index 0 is closest to mid, index 59 is furthest
-      snapshot.bids.forEach((bid, i) => {
+      // Note: In aggregation, index 0 is closest to mid, index VISUAL_BUCKETS - 1 is furthest
+      snapshot.bids.forEach((entry, i) => {
         if (bidIdx >= MAX_INSTANCES) return;
 
         // Visual X Position
-        // Index 0 is close to mid. (i * 2.0 * X_SCALE) expands outwards to the left.
-        // Shift left by fixed gap (0.2)
-        // Apply dynamic xShift to move the whole row based on historical price
-        const xPos = - (i * 2.0 * X_SCALE) - 0.2 + xShift; 
-
-        // HEIGHT = Cumulative Total
-        const height = Math.max(0.1, bid.total * Y_SCALE);
+        // Bars sit over their bucket's price range, mapped like the trail and trade markers:
+        // offset from the slice's mid, shifted left by the fixed gap (MID_GAP), plus the dynamic xShift.
+        // A bid bucket covers (price - size, price], so its centre is half a bucket below its price.
+        const xPos = (entry.price - snapshot.bucketSize / 2 - snapshot.midPrice) * xScale - MID_GAP + xShift;
+
+        // HEIGHT = chosen metric on the auto-scaled axis
+        const unit = heightScale.toUnit(values.bids[i]);
+        const height = Math.max(MIN_BAR_HEIGHT, unit * MAX_BAR_HEIGHT);
         
         tempObject.position.set(xPos, height / 2, -zPos);
-        tempObject.scale.set(1, height, 1); 
+        tempObject.scale.set(barWidth, height, 1); 
         tempObject.updateMatrix();
         
         bidsMeshRef.current!.setMatrixAt(bidIdx, tempObject.matrix);
         
         // Color Logic: Height-based luminance + Distance Fade
-        const intensity = Math.min(0.6, bid.total * 0.002); 
+        const intensity = unit * 0.6;
 
         // Emerald/Teal Gradients
         // Hue 0.45 (Teal). Saturation varies slightly. Lightness fades aggressively.
@@ -106,23 +284,23 @@ export const CanyonScene: React.FC<CanyonSceneProps> = ({ history, onSelectSlice
       });
 
       // --- Process Asks (Right side, Red) ---
-      snapshot.asks.forEach((ask, i) => {
+      snapshot.asks.forEach((entry, i) => {
         if (askIdx >= MAX_INSTANCES) return;
 
-        // Expands outwards to the right.
-        // Apply dynamic xShift
-        const xPos = (i * 2.0 * X_SCALE) + 0.2 + xShift;
+        // Expands outwards to the right; an ask bucket covers [price, price + size)
+        const xPos = (entry.price + snapshot.bucketSize / 2 - snapshot.midPrice) * xScale + MID_GAP + xShift;
 
-        const height = Math.max(0.1, ask.total * Y_SCALE);
+        const unit = heightScale.toUnit(values.asks[i]);
+        const height = Math.max(MIN_BAR_HEIGHT, unit * MAX_BAR_HEIGHT);
 
         tempObject.position.set(xPos, height / 2, -zPos);
-        tempObject.scale.set(1, height, 1);
+        tempObject.scale.set(barWidth, height, 1);
         tempObject.updateMatrix();
 
         asksMeshRef.current!.setMatrixAt(askIdx, tempObject.matrix);
 
         // Rose/Red Gradients
-        const intensity = Math.min(0.6, ask.total * 0.002);
+        const intensity = unit * 0.6;
 
         // Hue 0.96 (Red/Rose). Saturation varies. Lightness fades aggressively.
         tempColor.setHSL(0.96, 0.8 + intensity * 0.2, (0.5 + intensity * 0.2) * fade);
@@ -150,39 +328,301 @@ export const CanyonScene: React.FC<CanyonSceneProps> = ({ history, onSelectSlice
     asksMeshRef.current.instanceMatrix.needsUpdate = true;
     if (asksMeshRef.current.instanceColor) asksMeshRef.current.instanceColor.needsUpdate = true;
 
-  }, [history, centerPrice]);
+    // Raycasting culls against the bounds, which would otherwise stay those of the first layout
+    bidsMeshRef.current.computeBoundingSphere();
+    asksMeshRef.current.computeBoundingSphere();
+
+  }, [history, axisOrigin, xScale, displayValues, heightScale]);
+
+
+  // Venue segments: each bar's value under the height metric, stacked venue by venue from the floor
+  useEffect(() => {
+    const mesh = segmentsMeshRef.current;
+    if (!mesh || !showVenues) return;
+
+    let idx = 0;
+    history.slice(-DISPLAY_LIMIT).reverse().forEach((snapshot, timeIndex) => {
+      const breakdown = snapshot.breakdown;
+      if (!breakdown) return;
+      const zPos = timeIndex * Z_SPACING;
+      const fade = Math.max(0.05, Math.pow(1.0 - timeIndex / DISPLAY_LIMIT, 2.5));
+      const xShift = (snapshot.midPrice - axisOrigin) * xScale;
+      const rowStep = snapshot.bucketSize * xScale;
+      const barWidth = rowStep * BAR_OVERLAP;
+
+      (['bid', 'ask'] as BookSide[]).forEach(side => {
+        const entries = side === 'bid' ? snapshot.bids : snapshot.asks;
+        const perVenue = side === 'bid' ? breakdown.bids : breakdown.asks;
+        // Each venue's own book under the metric, so the stacked values add up to the bar's
+        const venueValues = perVenue.map(quantities => {
+          let total = 0;
+          const venueEntries: OrderEntry[] = entries.map((e, i) => {
+            total += quantities[i] ?? 0;
+            return { price: e.price, quantity: quantities[i] ?? 0, total };
+          });
+          return sideHeightValues(venueEntries, heightConfig.metric);
+        });
+
+        entries.forEach((entry, i) => {
+          // Placed over the bucket's price range, as the plain bars
+          const xPos = side === 'bid'
+            ? (entry.price - snapshot.bucketSize / 2 - snapshot.midPrice) * xScale - MID_GAP + xShift
+            : (entry.price + snapshot.bucketSize / 2 - snapshot.midPrice) * xScale + MID_GAP + xShift;
+          let below = 0;
+          venueValues.forEach((values, v) => {
+            if (idx >= MAX_SEGMENT_INSTANCES) return;
+            const bottom = heightScale.toUnit(below) * MAX_BAR_HEIGHT;
+            below += values[i];
+            const top = heightScale.toUnit(below) * MAX_BAR_HEIGHT;
+            if (top - bottom < 0.01) return;
+
+            tempObject.position.set(xPos, (bottom + top) / 2, -zPos);
+            tempObject.scale.set(barWidth, top - bottom, 1);
+            tempObject.updateMatrix();
+            mesh.setMatrixAt(idx, tempObject.matrix);
+            tempColor.set(VENUE_COLORS[breakdown.venues[v]]).multiplyScalar(fade);
+            mesh.setColorAt(idx, tempColor);
+            idx++;
+          });
+        });
+      });
+    });
+
+    mesh.count = idx;
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  }, [history, showVenues, axisOrigin, xScale, heightScale, heightConfig.metric]);
+
+  // Trade markers at the price and slice they printed in
+  useEffect(() => {
+    const mesh = tradesMeshRef.current;
+    if (!mesh) return;
+
+    const displayHistory = showTrades ? history.slice(-DISPLAY_LIMIT).reverse() : [];
+
+    const sizes: number[] = [];
+    displayHistory.forEach(snapshot => snapshot.trades?.forEach(t => sizes.push(t.quantity)));
+    sizes.sort((a, b) => a - b);
+    const medianSize = sizes[Math.floor(sizes.length / 2)] || 1;
+
+    let idx = 0;
+    displayHistory.forEach((snapshot, timeIndex) => {
+      if (!snapshot.trades) return;
+      const zPos = timeIndex * Z_SPACING;
+      const fade = Math.max(0.15, Math.pow(1.0 - timeIndex / DISPLAY_LIMIT, 1.5));
+
+      for (const trade of snapshot.trades) {
+        if (idx >= MAX_TRADE_INSTANCES) return;
+
+        // Same mapping as the walls: offset from the slice's own mid, plus the row shift
+        const diff = trade.price - snapshot.midPrice;
+        const gap = diff > 0 ? MID_GAP : diff < 0 ? -MID_GAP : 0;
+        const xPos = diff * xScale + gap + (snapshot.midPrice - axisOrigin) * xScale;
+
+        const radius = Math.min(TRADE_MAX_RADIUS, Math.max(TRADE_MIN_RADIUS,
+          TRADE_BASE_RADIUS * Math.cbrt(trade.quantity / medianSize)));
+
+        tempObject.position.set(xPos, radius + 0.05, -zPos);
+        tempObject.scale.set(radius, radius, radius);
+        tempObject.updateMatrix();
+        mesh.setMatrixAt(idx, tempObject.matrix);
+
+        tempColor.copy(trade.side === 'buy' ? BUY_TRADE_COLOR : SELL_TRADE_COLOR).multiplyScalar(fade);
+        mesh.setColorAt(idx, tempColor);
+        idx++;
+      }
+    });
+
+    mesh.count = idx;
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  }, [history, axisOrigin, xScale, showTrades]);
+
+  // Liquidity event beams, placed on the slice and bucket they were detected in
+  useEffect(() => {
+    const mesh = eventsMeshRef.current;
+    if (!mesh) return;
+
+    const displayHistory = history.slice(-DISPLAY_LIMIT).reverse();
+    const sliceByTime = new Map<number, number>();
+    displayHistory.forEach((snapshot, timeIndex) => {
+      if (!sliceByTime.has(snapshot.timestamp)) sliceByTime.set(snapshot.timestamp, timeIndex);
+    });
+
+    let idx = 0;
+    for (const event of events) {
+      const timeIndex = sliceByTime.get(event.timestamp);
+      if (timeIndex === undefined || idx >= MAX_EVENT_INSTANCES) continue;
+      const snapshot = displayHistory[timeIndex];
 
+      // Centre of the bucket, mapped like the walls
+      const center = event.side === 'bid' ? event.price - event.bucketSize / 2 : event.price + event.bucketSize / 2;
+      const gap = event.side === 'bid' ? -MID_GAP : MID_GAP;
+      const xPos = (center - snapshot.midPrice) * xScale + gap + (snapshot.midPrice - axisOrigin) * xScale;
 
-  const handleClick = (e: any) => {
-    const z = e.point.z;
-    const timeIndex = Math.abs(Math.round(z / Z_SPACING));
-    const reverseHistory = history.slice(-DISPLAY_LIMIT).reverse();
-    if (reverseHistory[timeIndex]) {
-      onSelectSlice(reverseHistory[timeIndex]);
+      tempObject.position.set(xPos, EVENT_BEAM_HEIGHT / 2, -timeIndex * Z_SPACING);
+      tempObject.scale.set(1, 1, 1);
+      tempObject.updateMatrix();
+      mesh.setMatrixAt(idx, tempObject.matrix);
+
+      tempColor.set(EVENT_COLORS[event.type]);
+      mesh.setColorAt(idx, tempColor);
+      idx++;
+    }
+
+    mesh.count = idx;
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  }, [history, events, axisOrigin, xScale]);
+
+  // Alert markers, on the first slice that includes the snapshot that tripped the rule
+  useEffect(() => {
+    const mesh = alertsMeshRef.current;
+    if (!mesh) return;
+
+    const displayHistory = history.slice(-DISPLAY_LIMIT).reverse();
+    const oldest = displayHistory[displayHistory.length - 1]?.timestamp ?? Infinity;
+
+    let idx = 0;
+    for (const alert of alerts) {
+      if (alert.timestamp < oldest || idx >= MAX_ALERT_INSTANCES) continue;
+      // Slices only get older towards the back; stop at the last one not older than the alert
+      let timeIndex = 0;
+      while (timeIndex + 1 < displayHistory.length && displayHistory[timeIndex + 1].timestamp >= alert.timestamp) timeIndex++;
+      const snapshot = displayHistory[timeIndex];
+
+      const diff = alert.price - snapshot.midPrice;
+      const gap = alert.side === 'bid' ? -MID_GAP : alert.side === 'ask' ? MID_GAP : Math.sign(diff) * MID_GAP;
+      const xPos = diff * xScale + gap + (snapshot.midPrice - axisOrigin) * xScale;
+
+      tempObject.position.set(xPos, ALERT_MARKER_HEIGHT, -timeIndex * Z_SPACING);
+      tempObject.scale.set(ALERT_MARKER_SIZE, ALERT_MARKER_SIZE * 1.6, ALERT_MARKER_SIZE);
+      tempObject.updateMatrix();
+      mesh.setMatrixAt(idx, tempObject.matrix);
+      idx++;
+    }
+
+    mesh.count = idx;
+    mesh.instanceMatrix.needsUpdate = true;
+  }, [history, alerts, axisOrigin, xScale]);
+
+  // Trail points per visible slice (front first), mapped like the trade markers so prices line up with the walls
+  const trail = useMemo(() => {
+    if (!showTrail && !showVwap) return null;
+    const visible = history.slice(-DISPLAY_LIMIT);
+    const vwaps = runningVwap(visible).reverse();
+    const priceX = (price: number, mid: number) => {
+      const diff = price - mid;
+      return diff * xScale + Math.sign(diff) * MID_GAP + (mid - axisOrigin) * xScale;
+    };
+
+    const mid: [number, number, number][] = [];
+    const bid: [number, number, number][] = [];
+    const ask: [number, number, number][] = [];
+    const vwap: [number, number, number][] = [];
+    visible.reverse().forEach((snapshot, timeIndex) => {
+      const z = -timeIndex * Z_SPACING;
+      const { bestBid, bestAsk } = touchPrices(snapshot);
+      mid.push([priceX(snapshot.midPrice, snapshot.midPrice), TRAIL_Y, z]);
+      bid.push([priceX(Math.min(bestBid, snapshot.midPrice), snapshot.midPrice), TRAIL_Y, z]);
+      ask.push([priceX(Math.max(bestAsk, snapshot.midPrice), snapshot.midPrice), TRAIL_Y, z]);
+      const v = vwaps[timeIndex];
+      if (v !== null) vwap.push([priceX(v, snapshot.midPrice), TRAIL_Y * 2, z]);
+    });
+
+    // Spread band: a strip of quads between the bid and ask edges of consecutive slices
+    const positions = new Float32Array(mid.length * 6);
+    bid.forEach((p, i) => positions.set([...p, ...ask[i]], i * 6));
+    const index: number[] = [];
+    for (let i = 0; i + 1 < mid.length; i++) {
+      const a = i * 2;
+      index.push(a, a + 1, a + 2, a + 1, a + 3, a + 2);
     }
+    const ribbon = new THREE.BufferGeometry();
+    ribbon.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    ribbon.setIndex(index);
+
+    return { mid, bid, ask, vwap, ribbon };
+  }, [history, showTrail, showVwap, axisOrigin, xScale]);
+
+  useEffect(() => () => trail?.ribbon.dispose(), [trail]);
+
+  // Highlight follows the hovered bar's current matrix, so it tracks the canyon as it scrolls
+  useEffect(() => {
+    const group = highlightRef.current;
+    const mesh = hovered?.side === 'bid' ? bidsMeshRef.current : asksMeshRef.current;
+    if (!group || !mesh || !hovered) return;
+    mesh.getMatrixAt(hovered.instanceId, group.matrix);
+    group.matrixWorldNeedsUpdate = true;
+  }, [hovered, history, displayValues, heightScale, axisOrigin, xScale]);
+
+  const handlePointerMove = (side: BookSide) => (e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    const instanceId = e.instanceId;
+    if (instanceId === undefined) return;
+    if (hovered?.side !== side || hovered.instanceId !== instanceId) setHovered({ side, instanceId });
+    document.body.style.cursor = 'pointer';
   };
 
+  const handlePointerOut = () => {
+    setHovered(null);
+    document.body.style.cursor = '';
+  };
+
+  // Picks the exact slice and bucket of the bar that was hit
+  const handleClick = (side: BookSide) => (e: ThreeEvent<MouseEvent>) => {
+    e.stopPropagation();
+    if (e.instanceId === undefined) return;
+    const picked = resolveInstance(side, e.instanceId);
+    if (picked) onSelectSlice(picked.snapshot, e.shiftKey, { side, index: picked.bucket });
+  };
+
+  // The instanced bars go away when the terrain takes over
+  const terrainShown = terrain !== null;
+  useEffect(() => setHovered(null), [terrainShown]);
+
+  // Restore the cursor if the scene goes away while a bar is hovered
+  useEffect(() => () => { document.body.style.cursor = ''; }, []);
+
+  const tooltip = hit && hovered ? (
+    <BarTooltip
+      snapshot={hit.snapshot}
+      side={hovered.side}
+      bucket={hit.bucket}
+      ageLabel={hit.timeIndex === 0 ? 'front' : formatAge(frontTimestamp - hit.snapshot.timestamp)}
+      symbolInfo={symbolInfo}
+    />
+  ) : null;
+
   // Generate Price Labels
   const PriceLabels = useMemo(() => {
     if (!centerPrice) return null;
     
-    // We are now showing a range of hundreds of dollars. 
-    const steps = [
-      { offset: -120, label: '-$120' },
-      { offset: -80, label: '-$80' },
-      { offset: -40, label: '-$40' },
-      { offset: 0, label: `$${centerPrice.toFixed(0)}` },
-      { offset: 40, label: '+$40' },
-      { offset: 80, label: '+$80' },
-      { offset: 120, label: '+$120' },
-    ];
+    // Labels sit on bucket boundaries, so their spacing follows the bucket size;
+    // on the percent axis they mark fixed offsets from the mid instead
+    const isPercent = priceAxis === 'percent';
+    const labelBps = LABEL_EVERY_BUCKETS * AUTO_BUCKET_BPS;
+    const labelStep = isPercent ? centerPrice * labelBps / 10000 : LABEL_EVERY_BUCKETS * bucketSize;
+    const decimals = stepDecimals(bucketSize);
+    const steps = [-3, -2, -1, 0, 1, 2, 3].map(k => {
+      const offset = k * labelStep;
+      return {
+        offset,
+        // Bars sit MID_GAP off their row's mid, towards their own side
+        side: Math.sign(axisOrigin + offset - centerPrice),
+        label: k === 0
+          ? formatPrice(axisOrigin, symbolInfo.quoteAsset, decimals)
+          : isPercent
+            ? `${k > 0 ? '+' : ''}${(k * labelBps / 100).toFixed(2)}%`
+            : formatPrice(axisOrigin + offset, '', decimals),
+      };
+    });
 
     return (
       <group position={[0, 0.1, 2]}>
         {steps.map((step, i) => {
           
-          const gap = step.offset === 0 ? 0 : (step.offset > 0 ? 0.2 : -0.2);
-          const xPos = (step.offset * X_SCALE) + gap;
+          const xPos = (step.offset * xScale) + step.side * MID_GAP;
 
           return (
             <group key={i} position={[xPos, 0, 0]}>
@@ -198,27 +638,76 @@ export const CanyonScene: React.FC<CanyonSceneProps> = ({ history, onSelectSlice
                 anchorX="center"
                 anchorY="top"
               >
-                {step.offset === 0 ? step.label : `${(centerPrice + step.offset).toFixed(0)}`}
+                {step.label}
               </Text>
             </group>
           )
         })}
       </group>
     );
-  }, [centerPrice]);
+  }, [centerPrice, axisOrigin, bucketSize, xScale, priceAxis, symbolInfo.quoteAsset]);
+
+  // Fixed axis: marks where the mid is now, since it no longer sits at the centre, and the band it may wander in
+  // before the axis re-centres
+  const recenterReach = FIXED_AXIS_RECENTER_BUCKETS * bucketSize * xScale;
+  const MidMarker = priceAxis === 'fixed' && centerPrice ? (
+    <group>
+      <group position={[(centerPrice - axisOrigin) * xScale, 0, 0]}>
+        <mesh position={[0, 1.5, 0]}>
+          <boxGeometry args={[0.05, 3, 0.05]} />
+          <meshBasicMaterial color="#e2e8f0" toneMapped={false} />
+        </mesh>
+        <Text
+          position={[0, 3.4, 0]}
+          fontSize={0.45}
+          color={justRecentered ? RECENTER_BOUND_COLOR : '#e2e8f0'}
+          anchorX="center"
+          anchorY="bottom"
+        >
+          {`MID ${formatPrice(centerPrice, symbolInfo.quoteAsset, stepDecimals(bucketSize))}${justRecentered ? '\nAXIS RE-CENTRED' : ''}`}
+        </Text>
+      </group>
+      {[-1, 1].map(side => (
+        <group key={side} position={[side * recenterReach, 0, 1]}>
+          <mesh position={[0, 0.6, 0]}>
+            <boxGeometry args={[0.04, 1.2, 0.04]} />
+            <meshBasicMaterial color={RECENTER_BOUND_COLOR} transparent opacity={0.6} toneMapped={false} />
+          </mesh>
+          <Text
+            position={[0, 1.3, 0]}
+            fontSize={0.3}
+            color={RECENTER_BOUND_COLOR}
+            fillOpacity={0.7}
+            anchorX="center"
+            anchorY="bottom"
+          >
+            {`re-centre ${side > 0 ? '+' : '−'}${FIXED_AXIS_RECENTER_BUCKETS} buckets`}
+          </Text>
+        </group>
+      ))}
+    </group>
+  ) : null;
 
   // Generate Time Ruler (Z-axis)
   const TimeRuler = useMemo(() => {
-    // Markers for: Now, 3s, 5s, 10s, 20s
-    const timeMarkers = [0, 3, 5, 10, 20];
-    const xPosition = -8.5; // Place to the left of the buy wall
+    const xPosition = RULER_X; // Place to the left of the buy wall
+    const displayHistory = history.slice(-DISPLAY_LIMIT).reverse();
+
+    const timeMarkers = TIME_MARKER_SLICES
+      .filter(index => index < displayHistory.length)
+      .map(index => ({
+        index,
+        label: index === 0
+          ? (isLive ? 'Now' : new Date(frontTimestamp).toLocaleTimeString())
+          : formatAge(frontTimestamp - displayHistory[index].timestamp),
+      }));
 
     return (
       <group position={[xPosition, 0, 0]}>
-        {timeMarkers.map((seconds) => {
-          const zPos = - (seconds * Z_PER_SEC);
+        {timeMarkers.map(({ index, label }) => {
+          const zPos = - (index * Z_SPACING);
           return (
-            <group key={seconds} position={[0, 0, zPos]}>
+            <group key={index} position={[0, 0, zPos]}>
               {/* Tick Mark */}
               <mesh position={[0.5, 0.1, 0]} rotation={[-Math.PI / 2, 0, 0]}>
                 <planeGeometry args={[0.8, 0.05]} />
@@ -233,7 +722,7 @@ export const CanyonScene: React.FC<CanyonSceneProps> = ({ history, onSelectSlice
                 anchorX="right"
                 anchorY="middle"
               >
-                {seconds === 0 ? 'Now' : `-${seconds}s`}
+                {label}
               </Text>
             </group>
           );
@@ -245,19 +734,21 @@ export const CanyonScene: React.FC<CanyonSceneProps> = ({ history, onSelectSlice
         </mesh>
       </group>
     );
-  }, []);
+  }, [history, isLive, frontTimestamp]);
 
-  // Generate Volume Ruler (Height/Y-axis)
+  // Generate Volume Ruler (Height/Y-axis), ticked from the same auto-scaled mapping as the bars
   const VolumeRuler = useMemo(() => {
-    const volSteps = [100, 200, 400, 600, 800, 1000];
-    const xPosition = -8.5; // Same x alignment as time ruler
+    const xPosition = RULER_X; // Same x alignment as time ruler
+    const formatValue = (value: number) => heightConfig.metric === 'notional'
+      ? formatNotional(value, symbolInfo.quoteAsset)
+      : `${formatCompact(value)} ${symbolInfo.baseAsset}`;
 
     return (
       <group position={[xPosition, 0, 2]}>
-        {volSteps.map((vol) => {
-          const yPos = vol * Y_SCALE;
+        {heightScale.ticks().map((value) => {
+          const yPos = heightScale.toUnit(value) * MAX_BAR_HEIGHT;
           return (
-            <group key={vol} position={[0, yPos, 0]}>
+            <group key={value} position={[0, yPos, 0]}>
               {/* Tick */}
               <mesh position={[0.5, 0, 0]}>
                 <boxGeometry args={[0.4, 0.05, 0.05]} />
@@ -271,46 +762,123 @@ export const CanyonScene: React.FC<CanyonSceneProps> = ({ history, onSelectSlice
                 anchorX="right"
                 anchorY="middle"
               >
-                {vol} BTC
+                {formatValue(value)}
               </Text>
             </group>
           );
         })}
         {/* Vertical Axis Line */}
-        <mesh position={[0.5, 20, 0]}>
-          <boxGeometry args={[0.05, 40, 0.05]} />
+        <mesh position={[0.5, MAX_BAR_HEIGHT / 2, 0]}>
+          <boxGeometry args={[0.05, MAX_BAR_HEIGHT, 0.05]} />
           <meshBasicMaterial color="#1e293b" />
         </mesh>
       </group>
     );
-  }, []);
+  }, [heightScale, heightConfig.metric, symbolInfo.baseAsset, symbolInfo.quoteAsset]);
 
   return (
     <group>
-      {/* Bids Instanced Mesh */}
+      {terrain ? (
+        <CanyonTerrain
+          ring={terrain.ring}
+          version={ringVersion}
+          deep={terrain.deep}
+          layout={TERRAIN_LAYOUT}
+          axisOrigin={axisOrigin}
+          xScale={xScale}
+          scaleMode={heightConfig.scale}
+          maxValue={maxValue}
+          symbolInfo={symbolInfo}
+          onSelectSlice={onSelectSlice}
+        />
+      ) : (
+        <>
+          {/* Bids Instanced Mesh */}
+          <instancedMesh
+            ref={bidsMeshRef}
+            args={[undefined, undefined, MAX_INSTANCES]}
+            onClick={handleClick('bid')}
+            onPointerMove={handlePointerMove('bid')}
+            onPointerOut={handlePointerOut}
+          >
+            <boxGeometry args={[1, 1, BAR_DEPTH]} />
+            <meshStandardMaterial
+              roughness={0.2}
+              metalness={0.1}
+              colorWrite={!showVenues}
+              depthWrite={!showVenues}
+            />
+          </instancedMesh>
+
+          {/* Asks Instanced Mesh */}
+          <instancedMesh
+            ref={asksMeshRef}
+            args={[undefined, undefined, MAX_INSTANCES]}
+            onClick={handleClick('ask')}
+            onPointerMove={handlePointerMove('ask')}
+            onPointerOut={handlePointerOut}
+          >
+            <boxGeometry args={[1, 1, BAR_DEPTH]} />
+            <meshStandardMaterial
+              roughness={0.2}
+              metalness={0.1}
+              colorWrite={!showVenues}
+              depthWrite={!showVenues}
+            />
+          </instancedMesh>
+        </>
+      )}
+
+      {/* Venue Segments of consolidated bars (drawn in place of the plain bars) */}
+      {showVenues && (
+        <instancedMesh
+          ref={segmentsMeshRef}
+          args={[undefined, undefined, MAX_SEGMENT_INSTANCES]}
+          raycast={() => null}
+        >
+          <boxGeometry args={[1, 1, BAR_DEPTH]} />
+          <meshStandardMaterial roughness={0.2} metalness={0.1} />
+        </instancedMesh>
+      )}
+
+      {/* Hovered Bar: outline plus tooltip at its top, placed with the bar's own matrix */}
+      <group ref={highlightRef} matrixAutoUpdate={false} visible={hit !== null}>
+        <mesh raycast={() => null}>
+          <boxGeometry args={[HIGHLIGHT_PADDING, HIGHLIGHT_PADDING, BAR_DEPTH * HIGHLIGHT_PADDING]} />
+          <meshBasicMaterial color="#ffffff" wireframe toneMapped={false} />
+        </mesh>
+        {tooltip && (
+          <Html position={[0, 0.5, 0]} zIndexRange={[30, 0]}>
+            {tooltip}
+          </Html>
+        )}
+      </group>
+
+      {/* Trade Tape Markers */}
       <instancedMesh
-        ref={bidsMeshRef}
-        args={[undefined, undefined, MAX_INSTANCES]}
-        onClick={handleClick}
+        ref={tradesMeshRef}
+        args={[undefined, undefined, MAX_TRADE_INSTANCES]}
       >
-        <boxGeometry args={[BAR_WIDTH, 1, BAR_DEPTH]} />
-        <meshStandardMaterial
-          roughness={0.2}
-          metalness={0.1}
-        />
+        <sphereGeometry args={[1, 12, 8]} />
+        <meshBasicMaterial toneMapped={false} />
       </instancedMesh>
 
-      {/* Asks Instanced Mesh */}
+      {/* Liquidity Event Beams */}
       <instancedMesh
-        ref={asksMeshRef}
-        args={[undefined, undefined, MAX_INSTANCES]}
-        onClick={handleClick}
+        ref={eventsMeshRef}
+        args={[undefined, undefined, MAX_EVENT_INSTANCES]}
       >
-        <boxGeometry args={[BAR_WIDTH, 1, BAR_DEPTH]} />
-        <meshStandardMaterial
-          roughness={0.2}
-          metalness={0.1}
-        />
+        <cylinderGeometry args={[0.05, 0.05, EVENT_BEAM_HEIGHT, 6]} />
+        <meshBasicMaterial transparent opacity={0.85} toneMapped={false} />
+      </instancedMesh>
+
+      {/* Alert Markers */}
+      <instancedMesh
+        ref={alertsMeshRef}
+        args={[undefined, undefined, MAX_ALERT_INSTANCES]}
+      >
+        <octahedronGeometry args={[1, 0]} />
+        <meshBasicMaterial color={ALERT_COLOR} toneMapped={false} />
       </instancedMesh>
 
       {/* Floor Grid */}
@@ -320,13 +888,29 @@ export const CanyonScene: React.FC<CanyonSceneProps> = ({ history, onSelectSlice
         scale={[1, 1, 2]} 
       />
       
+      {/* Price Trail: spread band, best bid/ask edges, mid line and VWAP */}
+      {trail && showTrail && trail.mid.length > 1 && (
+        <group>
+          <mesh geometry={trail.ribbon} raycast={() => null}>
+            <meshBasicMaterial color={MID_TRAIL_COLOR} transparent opacity={0.18} side={THREE.DoubleSide} depthWrite={false} />
+          </mesh>
+          <Line points={trail.bid} color={BID_TRAIL_COLOR} lineWidth={1} transparent opacity={0.8} raycast={() => null} />
+          <Line points={trail.ask} color={ASK_TRAIL_COLOR} lineWidth={1} transparent opacity={0.8} raycast={() => null} />
+          <Line points={trail.mid} color={MID_TRAIL_COLOR} lineWidth={2} raycast={() => null} />
+        </group>
+      )}
+      {trail && showVwap && trail.vwap.length > 1 && (
+        <Line points={trail.vwap} color={VWAP_COLOR} lineWidth={2} dashed dashSize={0.4} gapSize={0.25} raycast={() => null} />
+      )}
+
       {PriceLabels}
+      {MidMarker}
       {TimeRuler}
       {VolumeRuler}
 
       {/* Wall Labels - Moved further out */}
       <Text
-        position={[-8, 8, -5]}
+        position={[-WALL_REACH, 8, -5]}
         fontSize={2}
         color="#10b981"
         anchorX="right"
@@ -335,7 +919,7 @@ export const CanyonScene: React.FC<CanyonSceneProps> = ({ history, onSelectSlice
         BUY WALL
       </Text>
       <Text
-        position={[8, 8, -5]}
+        position={[WALL_REACH, 8, -5]}
         fontSize={2}
         color="#f43f5e"
         anchorX="left"
@@ -0,0 +1,511 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { ThreeEvent } from '@react-three/fiber';
+import { Html, Text } from '@react-three/drei';
+import { BookSide, BucketRef, HeightMetric, HeightScaleMode, OrderBookSnapshot, SymbolInfo } from '../types';
+import { HistoryBuffer } from '../services/historyBuffer';
+import { CanyonRing, RING_ROW_HEADER, RingTier, createCanyonRing, rowCenterZ } from '../services/canyonRing';
+import { LOG_DECADES, createHeightScale } from '../services/heightScale';
+import { BarTooltip, formatAge } from './BarTooltip';
+
+export interface DeepHistory {
+  buffer: HistoryBuffer;
+  // Slice drawn at the front: the newest one, or the scrub position
+  lastSeq: number;
+}
+
+// Bar proportions shared with the instanced canyon
+export interface TerrainLayout {
+  midGap: number;
+  barOverlap: number;
+  // Bar depth per world unit of slice spacing
+  depthRatio: number;
+  maxBarHeight: number;
+  minBarHeight: number;
+  // World x of the time ruler, left of the bid wall
+  rulerX: number;
+}
+
+// A rebuild uploads the whole texture; beyond this many new rows that is cheaper than row by row
+const MAX_ROW_UPLOADS = 8;
+
+// Pointer picking samples the ray at this many depths across each row
+const PICK_SAMPLES = 4;
+
+// Wireframe drawn around the hovered bar, slightly larger so it is not hidden inside it
+const HIGHLIGHT_PADDING = 1.06;
+
+const SCALE_MODES: Record<HeightScaleMode, number> = { linear: 0, sqrt: 1, log: 2 };
+
+/**
+ * Keeps a canyon ring in step with a history buffer: a step forward pushes just the new slices, anything else
+ * (scrubbing back, a cleared buffer, a change of height metric) rebuilds it. Both read the buffer's typed columns,
+ * so even a rebuild from thousands of slices builds no entries. `version` changes whenever the ring does.
+ * The ring is written in a layout effect, so rendering stays pure and the catch-up lands before the frame is painted.
+ */
+export const useCanyonRing = (deep: DeepHistory | null, metric: HeightMetric) => {
+  const bucketsPerSide = deep?.buffer.bucketsPerSide ?? 0;
+  const ring = useMemo(() => bucketsPerSide > 0 ? createCanyonRing(bucketsPerSide, metric) : null, [bucketsPerSide, metric]);
+  const syncedRef = useRef<{ ring: CanyonRing; seq: number; timestamp: number } | null>(null);
+  const [version, setVersion] = useState(0);
+
+  const buffer = deep?.buffer;
+  const lastSeq = deep?.lastSeq ?? -1;
+  useLayoutEffect(() => {
+    if (!ring || !buffer) return;
+    const synced = syncedRef.current;
+    const retained = (seq: number) => seq >= buffer.start() && seq < buffer.end();
+    // Safe to run twice (StrictMode re-runs effects): a second pass finds the ring already at `lastSeq`
+    const inStep = synced !== null && synced.ring === ring && retained(synced.seq) && buffer.timestampAt(synced.seq) === synced.timestamp;
+    if (inStep && synced.seq === lastSeq) return;
+
+    if (inStep && retained(lastSeq) && lastSeq > synced.seq && lastSeq - synced.seq < ring.maxAge) {
+      for (let seq = synced.seq + 1; seq <= lastSeq; seq++) ring.push(buffer.columns(seq));
+    } else {
+      ring.clear();
+      if (retained(lastSeq)) {
+        for (let seq = Math.max(buffer.start(), lastSeq - ring.maxAge + 1); seq <= lastSeq; seq++) ring.push(buffer.columns(seq));
+      }
+    }
+    syncedRef.current = retained(lastSeq) ? { ring, seq: lastSeq, timestamp: buffer.timestampAt(lastSeq) } : null;
+    setVersion(v => v + 1);
+  }, [ring, buffer, lastSeq]);
+
+  return { ring, version };
+};
+
+const VERTEX_SHADER = /* glsl */ `
+  uniform sampler2D uData;
+  uniform float uRows;
+  uniform float uBars;
+  uniform float uHead;
+  uniform float uHeadAge;
+  uniform float uRowOffset;
+  uniform float uWritten;
+  uniform float uSliceStride;
+  uniform float uStartAge;
+  uniform float uEndAge;
+  uniform float uZStart;
+  uniform float uZSpacing;
+  uniform float uOrigin;
+  uniform float uXScale;
+  uniform float uMidGap;
+  uniform float uOverlap;
+  uniform float uDepthRatio;
+  uniform float uMaxValue;
+  uniform float uScaleMode;
+  uniform float uLogRange;
+  uniform float uMaxHeight;
+  uniform float uMinHeight;
+  uniform float uFadeDepth;
+
+  // Row of the merged slice, bar index, side (-1 bid, 1 ask)
+  attribute vec3 aCell;
+
+  varying vec3 vColor;
+
+  #include <fog_pars_vertex>
+
+  float ringValue(int index, int row) {
+    return texelFetch(uData, ivec2(index / 4, row), 0)[index % 4];
+  }
+
+  // Mirrors createHeightScale
+  float toUnit(float value) {
+    float v = max(0.0, value) / uMaxValue;
+    if (uScaleMode > 1.5) return min(1.0, log(1.0 + v * uLogRange) / log(1.0 + uLogRange));
+    if (uScaleMode > 0.5) return min(1.0, sqrt(v));
+    return min(1.0, v);
+  }
+
+  vec3 hsl2rgb(float h, float s, float l) {
+    vec3 rgb = clamp(abs(mod(h * 6.0 + vec3(0.0, 4.0, 2.0), 6.0) - 3.0) - 1.0, 0.0, 1.0);
+    return l + s * (rgb - 0.5) * (1.0 - abs(2.0 * l - 1.0));
+  }
+
+  void main() {
+    // Rows count back from the tier's newest; the ring scrolls by moving uHead, never by rewriting rows
+    float r = aCell.x + uRowOffset;
+    float age = uHeadAge + r * uSliceStride;
+    int row = int(mod(uHead - r + uRows, uRows));
+    float side = aCell.z;
+    float edge = ringValue(side > 0.0 ? 1 : 0, row);
+    float barSize = ringValue(2, row);
+
+    if (r >= uWritten || age >= uEndAge || age + uSliceStride <= uStartAge || barSize <= 0.0) {
+      // Beyond the far plane: the whole bar is clipped
+      gl_Position = vec4(0.0, 0.0, 2.0, 1.0);
+      return;
+    }
+
+    float value = ringValue(${RING_ROW_HEADER} + int(aCell.y + (side > 0.0 ? uBars : 0.0)), row);
+    float unit = toUnit(value);
+    float height = max(uMinHeight, unit * uMaxHeight);
+
+    // Bars (merged or not) sit over the middle of the price range they cover, counted out from the first bucket's price
+    float rowStep = barSize * uXScale;
+    float x = (edge + side * (aCell.y + 0.5) * barSize - uOrigin) * uXScale + side * uMidGap;
+    float z = -(uZStart + (age + (uSliceStride - 1.0) * 0.5 - uStartAge) * uZSpacing);
+    vec3 size = vec3(rowStep * uOverlap, height, uSliceStride * uZSpacing * uDepthRatio);
+
+    vec4 mvPosition = modelViewMatrix * vec4(position * size + vec3(x, height * 0.5, z), 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+
+    // Same palette as the instanced bars, fading over the whole depth of the canyon
+    float fade = max(0.05, pow(1.0 - min(1.0, -z / uFadeDepth), 2.5));
+    float intensity = unit * 0.6;
+    vec3 color = side < 0.0
+      ? hsl2rgb(0.45, 0.8 + intensity * 0.2, (0.4 + intensity * 0.3) * fade)
+      : hsl2rgb(0.96, 0.8 + intensity * 0.2, (0.5 + intensity * 0.2) * fade);
+    // One fixed key light from above and in front stands in for the scene lights
+    vColor = color * (0.6 + 0.4 * max(dot(normal, normalize(vec3(0.3, 1.0, 0.6))), 0.0));
+
+    #include <fog_vertex>
+  }
+`;
+
+const FRAGMENT_SHADER = /* glsl */ `
+  varying vec3 vColor;
+
+  #include <fog_pars_fragment>
+
+  void main() {
+    gl_FragColor = vec4(vColor, 1.0);
+    #include <fog_fragment>
+  }
+`;
+
+type UniformValues = Record<string, THREE.IUniform<number>>;
+
+interface TierMesh {
+  tier: RingTier;
+  mesh: THREE.Mesh<THREE.InstancedBufferGeometry, THREE.ShaderMaterial>;
+  texture: THREE.DataTexture;
+  uniforms: UniformValues;
+}
+
+// One instanced box per bar the tier can show: every drawable row × bar × side, laid out once.
+// Rows count from the tier's first drawn row, so the same instances serve however far the ring has scrolled.
+const createTierMesh = (tier: RingTier, shared: UniformValues): TierMesh => {
+  const { sliceStride, startAge, endAge } = tier.tier;
+  const rowCount = Math.ceil((endAge - startAge) / sliceStride) + 1;
+  const cells = new Float32Array(rowCount * tier.bars * 2 * 3);
+  let i = 0;
+  for (let k = 0; k < rowCount; k++) {
+    for (let bar = 0; bar < tier.bars; bar++) {
+      cells.set([k, bar, -1], i);
+      cells.set([k, bar, 1], i + 3);
+      i += 6;
+    }
+  }
+
+  const box = new THREE.BoxGeometry(1, 1, 1);
+  const geometry = new THREE.InstancedBufferGeometry();
+  geometry.setIndex(box.getIndex());
+  geometry.setAttribute('position', box.getAttribute('position'));
+  geometry.setAttribute('normal', box.getAttribute('normal'));
+  geometry.setAttribute('aCell', new THREE.InstancedBufferAttribute(cells, 3));
+  geometry.instanceCount = rowCount * tier.bars * 2;
+
+  const texture = new THREE.DataTexture(tier.data, tier.width / 4, tier.rows, THREE.RGBAFormat, THREE.FloatType);
+  texture.needsUpdate = true;
+
+  const uniforms: UniformValues = {
+    uRows: { value: tier.rows },
+    uBars: { value: tier.bars },
+    uHead: { value: 0 },
+    uHeadAge: { value: 0 },
+    uRowOffset: { value: 0 },
+    uWritten: { value: 0 },
+    uSliceStride: { value: sliceStride },
+    uStartAge: { value: startAge },
+    uEndAge: { value: endAge },
+    uZStart: { value: tier.zStart },
+    uZSpacing: { value: tier.tier.zSpacing },
+  };
+  const material = new THREE.ShaderMaterial({
+    uniforms: {
+      ...THREE.UniformsUtils.clone(THREE.UniformsLib.fog),
+      ...shared,
+      ...uniforms,
+      uData: { value: texture },
+    },
+    vertexShader: VERTEX_SHADER,
+    fragmentShader: FRAGMENT_SHADER,
+    fog: true,
+  });
+
+  const mesh = new THREE.Mesh(geometry, material);
+  // Bars are placed in the shader, so the box's own bounds say nothing; picking is done against the ring
+  mesh.frustumCulled = false;
+  mesh.raycast = () => {};
+  box.dispose();
+  return { tier, mesh, texture, uniforms };
+};
+
+interface TerrainHit {
+  tierIndex: number;
+  r: number;
+  side: BookSide;
+  bar: number;
+}
+
+interface CanyonTerrainProps {
+  ring: CanyonRing;
+  version: number;
+  deep: DeepHistory;
+  layout: TerrainLayout;
+  axisOrigin: number;
+  xScale: number;
+  scaleMode: HeightScaleMode;
+  maxValue: number;
+  symbolInfo: SymbolInfo;
+  onSelectSlice: (snapshot: OrderBookSnapshot, compare: boolean, bucket?: BucketRef) => void;
+}
+
+/**
+ * Shader-driven canyon walls reaching thousands of slices back.
+ * Each level of detail keeps its merged slices in a ring-buffer texture that gains at most one row per tick;
+ * bar positions, heights and colours are all worked out in the vertex shader, so the per-frame cost
+ * stays flat however much history is drawn.
+ */
+export const CanyonTerrain: React.FC<CanyonTerrainProps> = ({
+  ring, version, deep, layout, axisOrigin, xScale, scaleMode, maxValue, symbolInfo, onSelectSlice
+}) => {
+  const [hovered, setHovered] = useState<TerrainHit | null>(null);
+
+  const shared = useMemo<UniformValues>(() => ({
+    uOrigin: { value: 0 },
+    uXScale: { value: 1 },
+    uMidGap: { value: layout.midGap },
+    uOverlap: { value: layout.barOverlap },
+    uDepthRatio: { value: layout.depthRatio },
+    uMaxValue: { value: 1 },
+    uScaleMode: { value: 0 },
+    uLogRange: { value: Math.pow(10, LOG_DECADES) },
+    uMaxHeight: { value: layout.maxBarHeight },
+    uMinHeight: { value: layout.minBarHeight },
+    uFadeDepth: { value: ring.depth },
+  }), [layout, ring]);
+
+  const tiers = useMemo(() => ring.tiers.map(tier => createTierMesh(tier, shared)), [ring, shared]);
+
+  useEffect(() => () => tiers.forEach(({ mesh, texture }) => {
+    mesh.geometry.dispose();
+    mesh.material.dispose();
+    texture.dispose();
+  }), [tiers]);
+
+  // Upload only the rows written since the last tick and move each tier's head
+  useEffect(() => {
+    for (const { tier, texture, uniforms } of tiers) {
+      if (tier.dirty.length > 0) {
+        texture.clearUpdateRanges();
+        if (tier.dirty.length <= MAX_ROW_UPLOADS) {
+          tier.dirty.forEach(row => texture.addUpdateRange(row * tier.width, tier.width));
+        }
+        texture.needsUpdate = true;
+        tier.dirty.length = 0;
+      }
+      uniforms.uHead.value = tier.head;
+      uniforms.uHeadAge.value = tier.headAge;
+      uniforms.uRowOffset.value = ring.firstRow(tier);
+      uniforms.uWritten.value = tier.written;
+    }
+  }, [tiers, ring, version]);
+
+  const heightScale = useMemo(() => createHeightScale(scaleMode, maxValue), [scaleMode, maxValue]);
+
+  useEffect(() => {
+    shared.uOrigin.value = axisOrigin;
+    shared.uXScale.value = xScale;
+    shared.uMaxValue.value = maxValue > 0 ? maxValue : 1;
+    shared.uScaleMode.value = SCALE_MODES[scaleMode];
+  }, [shared, axisOrigin, xScale, maxValue, scaleMode]);
+
+  // World box of one bar, computed like the vertex shader does
+  const barBox = (hit: TerrainHit) => {
+    const tier = ring.tiers[hit.tierIndex];
+    if (!ring.isDrawn(tier, hit.r)) return null;
+    const base = ring.physicalRow(tier, hit.r) * tier.width;
+    const barSize = tier.data[base + 2];
+    if (barSize <= 0) return null;
+    const { sliceStride, zSpacing } = tier.tier;
+    const rowStep = barSize * xScale;
+    const sign = hit.side === 'bid' ? -1 : 1;
+    const edge = tier.data[base + (hit.side === 'bid' ? 0 : 1)];
+    const value = tier.data[base + RING_ROW_HEADER + (hit.side === 'ask' ? tier.bars : 0) + hit.bar];
+    const height = Math.max(layout.minBarHeight, heightScale.toUnit(value) * layout.maxBarHeight);
+    return {
+      x: (edge + sign * (hit.bar + 0.5) * barSize - axisOrigin) * xScale + sign * layout.midGap,
+      z: rowCenterZ(tier, hit.r),
+      width: rowStep * layout.barOverlap,
+      height,
+      depth: sliceStride * zSpacing * layout.depthRatio,
+    };
+  };
+
+  // Nearest bar along the ray, sampled at a few depths through every drawn row
+  const pick = (ray: THREE.Ray): TerrainHit | null => {
+    if (Math.abs(ray.direction.z) < 1e-6) return null;
+    const point = new THREE.Vector3();
+    let best: TerrainHit | null = null;
+    let bestDistance = Infinity;
+
+    ring.tiers.forEach((tier, tierIndex) => {
+      const { sliceStride, zSpacing } = tier.tier;
+      const halfDepth = sliceStride * zSpacing * layout.depthRatio / 2;
+
+      for (let r = ring.firstRow(tier); ring.isDrawn(tier, r); r++) {
+        const base = ring.physicalRow(tier, r) * tier.width;
+        const rowStep = tier.data[base + 2] * xScale;
+        if (rowStep <= 0) continue;
+        const z = rowCenterZ(tier, r);
+        const t0 = (z + halfDepth - ray.origin.z) / ray.direction.z;
+        const t1 = (z - halfDepth - ray.origin.z) / ray.direction.z;
+
+        for (let s = 0; s < PICK_SAMPLES; s++) {
+          const distance = t0 + (t1 - t0) * s / (PICK_SAMPLES - 1);
+          if (distance < 0 || distance >= bestDistance) continue;
+          ray.at(distance, point);
+          // The first buckets of both sides can share a price range around the mid, so each side is tried
+          for (const side of ['bid', 'ask'] as BookSide[]) {
+            const sign = side === 'bid' ? -1 : 1;
+            const edgeX = (tier.data[base + (side === 'bid' ? 0 : 1)] - axisOrigin) * xScale + sign * layout.midGap;
+            // Distance out from the side's first bucket edge
+            const along = sign * (point.x - edgeX);
+            const bar = Math.floor(along / rowStep);
+            if (bar < 0 || bar >= tier.bars) continue;
+            const value = tier.data[base + RING_ROW_HEADER + (side === 'ask' ? tier.bars : 0) + bar];
+            const height = Math.max(layout.minBarHeight, heightScale.toUnit(value) * layout.maxBarHeight);
+            if (point.y < 0 || point.y > height) continue;
+            best = { tierIndex, r, side, bar };
+            bestDistance = distance;
+            break;
+          }
+        }
+      }
+    });
+    return best;
+  };
+
+  // Newest slice of the hovered row and the innermost bucket of the bar, read back from the history buffer
+  const resolve = (hit: TerrainHit) => {
+    const tier = ring.tiers[hit.tierIndex];
+    const age = tier.headAge + hit.r * tier.tier.sliceStride;
+    const seq = deep.lastSeq - age;
+    if (seq < deep.buffer.start() || seq >= deep.buffer.end()) return null;
+    return { tier, age, snapshot: deep.buffer.get(seq), bucket: hit.bar * tier.tier.bucketStride };
+  };
+
+  const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+    const hit = pick(e.ray);
+    if (!hit) {
+      if (hovered) handlePointerOut();
+      return;
+    }
+    e.stopPropagation();
+    if (hovered?.tierIndex !== hit.tierIndex || hovered.r !== hit.r || hovered.side !== hit.side || hovered.bar !== hit.bar) setHovered(hit);
+    document.body.style.cursor = 'pointer';
+  };
+
+  const handlePointerOut = () => {
+    setHovered(null);
+    document.body.style.cursor = '';
+  };
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    const hit = pick(e.ray);
+    const picked = hit && resolve(hit);
+    if (!hit || !picked) return;
+    e.stopPropagation();
+    onSelectSlice(picked.snapshot, e.shiftKey, { side: hit.side, index: picked.bucket });
+  };
+
+  useEffect(() => () => { document.body.style.cursor = ''; }, []);
+
+  const box = hovered ? barBox(hovered) : null;
+  const picked = hovered && box ? resolve(hovered) : null;
+  const frontTimestamp = deep.lastSeq >= deep.buffer.start() && deep.lastSeq < deep.buffer.end()
+    ? deep.buffer.timestampAt(deep.lastSeq)
+    : 0;
+
+  // Ruler marks where each coarser tier begins, and the far end
+  const tierMarks = ring.tiers.slice(1).map(tier => tier.tier.startAge).concat(ring.maxAge - 1)
+    .filter(age => deep.lastSeq - age >= deep.buffer.start())
+    .map(age => {
+      const tier = ring.tiers.find(t => age < t.tier.endAge) ?? ring.tiers[ring.tiers.length - 1];
+      return {
+        age,
+        z: -(tier.zStart + (age - tier.tier.startAge) * tier.tier.zSpacing),
+        label: formatAge(frontTimestamp - deep.buffer.timestampAt(deep.lastSeq - age)),
+      };
+    });
+
+  return (
+    <group>
+      {tiers.map(({ mesh }, i) => <primitive key={i} object={mesh} />)}
+
+      {/* Invisible volume over the whole terrain; the bar under the pointer is found against the ring data */}
+      <mesh
+        visible={false}
+        position={[0, layout.maxBarHeight / 2, (2 - ring.depth) / 2]}
+        onPointerMove={handlePointerMove}
+        onPointerOut={handlePointerOut}
+        onClick={handleClick}
+      >
+        <boxGeometry args={[400, layout.maxBarHeight, ring.depth + 2]} />
+        {/* Both sides, so it still catches the pointer with the camera inside it */}
+        <meshBasicMaterial side={THREE.DoubleSide} />
+      </mesh>
+
+      {box && (
+        <group position={[box.x, box.height / 2, box.z]} scale={[box.width, box.height, box.depth]}>
+          <mesh raycast={() => null}>
+            <boxGeometry args={[HIGHLIGHT_PADDING, HIGHLIGHT_PADDING, HIGHLIGHT_PADDING]} />
+            <meshBasicMaterial color="#ffffff" wireframe toneMapped={false} />
+          </mesh>
+          {picked && hovered && (
+            <Html position={[0, 0.5, 0]} zIndexRange={[30, 0]}>
+              <BarTooltip
+                snapshot={picked.snapshot}
+                side={hovered.side}
+                bucket={picked.bucket}
+                ageLabel={picked.age === 0 ? 'front' : formatAge(frontTimestamp - picked.snapshot.timestamp)}
+                symbolInfo={symbolInfo}
+              >
+                {(picked.tier.tier.sliceStride > 1 || picked.tier.tier.bucketStride > 1) && (
+                  <div className="text-slate-500">
+                    Bar averages {picked.tier.tier.sliceStride} slices × {picked.tier.tier.bucketStride} buckets
+                  </div>
+                )}
+              </BarTooltip>
+            </Html>
+          )}
+        </group>
+      )}
+
+      {/* Deep time ruler, continuing the front one past the last full-detail slice */}
+      <group position={[layout.rulerX, 0, 0]}>
+        {tierMarks.map(({ age, z, label }) => (
+          <group key={age} position={[0, 0, z]}>
+            <mesh position={[0.5, 0.1, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+              <planeGeometry args={[0.8, 0.05]} />
+              <meshBasicMaterial color="#475569" />
+            </mesh>
+            <Text
+              position={[-0.2, 0.1, 0]}
+              rotation={[-Math.PI / 2, 0, 0]}
+              fontSize={0.6}
+              color="#64748b"
+              anchorX="right"
+              anchorY="middle"
+            >
+              {label}
+            </Text>
+          </group>
+        ))}
+      </group>
+    </group>
+  );
+};
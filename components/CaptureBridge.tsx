@@ -0,0 +1,27 @@
+import React, { useEffect } from 'react';
+import { useThree } from '@react-three/fiber';
+import { Camera, Scene, WebGLRenderer } from 'three';
+
+export interface SceneHandle {
+  gl: WebGLRenderer;
+  scene: Scene;
+  camera: Camera;
+}
+
+interface CaptureBridgeProps {
+  handleRef: React.MutableRefObject<SceneHandle | null>;
+}
+
+/**
+ * Exposes the renderer, scene and camera of the surrounding Canvas to the HUD for capture.
+ */
+export const CaptureBridge: React.FC<CaptureBridgeProps> = ({ handleRef }) => {
+  const { gl, scene, camera } = useThree();
+
+  useEffect(() => {
+    handleRef.current = { gl, scene, camera };
+    return () => { handleRef.current = null; };
+  }, [gl, scene, camera, handleRef]);
+
+  return null;
+};
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { Camera, LoaderCircle, Square, Video } from 'lucide-react';
+import { CaptureSize } from '../types';
+
+interface CaptureControlProps {
+  // Wall-clock end of the clip being recorded, if any
+  clipEndsAt: number | null;
+  onScreenshot: (size: CaptureSize | null, overlay: boolean) => Promise<void>;
+  onStartClip: (seconds: number) => void;
+  onStopClip: () => void;
+}
+
+const SIZE_PRESETS: { label: string; size: CaptureSize | null }[] = [
+  { label: 'Screen', size: null },
+  { label: '1080p', size: { width: 1920, height: 1080 } },
+  { label: '1440p', size: { width: 2560, height: 1440 } },
+  { label: '4K', size: { width: 3840, height: 2160 } },
+];
+
+const CLIP_SECONDS = [5, 10, 30, 60];
+
+export const CaptureControl: React.FC<CaptureControlProps> = ({ clipEndsAt, onScreenshot, onStartClip, onStopClip }) => {
+  const [preset, setPreset] = useState(0);
+  const [overlay, setOverlay] = useState(true);
+  const [seconds, setSeconds] = useState(CLIP_SECONDS[1]);
+  const [busy, setBusy] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick the countdown while a clip is recording
+  useEffect(() => {
+    if (clipEndsAt === null) return;
+    const id = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(id);
+  }, [clipEndsAt]);
+
+  const screenshot = async () => {
+    setBusy(true);
+    try {
+      await onScreenshot(SIZE_PRESETS[preset].size, overlay);
+    } catch (err) {
+      console.error('Screenshot failed:', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-600 bg-slate-800 text-sm">
+      <button
+        onClick={screenshot}
+        disabled={busy}
+        className="text-slate-400 hover:text-white disabled:opacity-50 transition-colors"
+        title="Save the canyon as PNG"
+        aria-label="Screenshot"
+      >
+        {busy ? <LoaderCircle size={16} className="animate-spin" /> : <Camera size={16} />}
+      </button>
+      <select
+        value={preset}
+        onChange={(e) => setPreset(Number(e.target.value))}
+        className="bg-transparent text-white outline-none"
+        aria-label="Screenshot resolution"
+      >
+        {SIZE_PRESETS.map((p, i) => (
+          <option key={p.label} value={i} className="bg-slate-800">{p.label}</option>
+        ))}
+      </select>
+      <label className="flex items-center gap-1 text-slate-300 cursor-pointer" title="Caption with symbol, time range and price">
+        <input type="checkbox" checked={overlay} onChange={(e) => setOverlay(e.target.checked)} className="accent-blue-500" />
+        Caption
+      </label>
+
+      <span className="w-px h-4 bg-slate-600" />
+
+      {clipEndsAt === null ? (
+        <>
+          <button
+            onClick={() => onStartClip(seconds)}
+            className="text-slate-400 hover:text-white transition-colors"
+            title="Record the canyon to WebM"
+            aria-label="Record video"
+          >
+            <Video size={16} />
+          </button>
+          <select
+            value={seconds}
+            onChange={(e) => setSeconds(Number(e.target.value))}
+            className="bg-transparent text-slate-300 outline-none"
+            aria-label="Video length"
+          >
+            {CLIP_SECONDS.map(s => (
+              <option key={s} value={s} className="bg-slate-800">{s}s</option>
+            ))}
+          </select>
+        </>
+      ) : (
+        <button
+          onClick={onStopClip}
+          className="flex items-center gap-1 text-rose-400 hover:text-rose-300 font-mono transition-colors"
+          aria-label="Stop video"
+        >
+          <Square size={14} />
+          {Math.max(0, Math.ceil((clipEndsAt - now) / 1000))}s
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Download, LoaderCircle } from 'lucide-react';
+import { ExportFormat, ExportScope } from '../types';
+
+interface ExportMenuProps {
+  // Whole-session export is only offered while a replay is loaded
+  canExportSession: boolean;
+  onExport: (scope: ExportScope, format: ExportFormat) => Promise<void>;
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  columnar: 'Columnar',
+};
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ canExportSession, onExport }) => {
+  const [scope, setScope] = useState<Exclude<ExportScope, 'slice'>>('window');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [busy, setBusy] = useState(false);
+  const effectiveScope = canExportSession ? scope : 'window';
+
+  const run = async () => {
+    setBusy(true);
+    try {
+      await onExport(effectiveScope, format);
+    } catch (err) {
+      console.error('Export failed:', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-600 bg-slate-800 text-sm">
+      <button
+        onClick={run}
+        disabled={busy}
+        className="text-slate-400 hover:text-white disabled:opacity-50 transition-colors"
+        title="Export aggregated slices"
+        aria-label="Export"
+      >
+        {busy ? <LoaderCircle size={16} className="animate-spin" /> : <Download size={16} />}
+      </button>
+      <select
+        value={effectiveScope}
+        onChange={(e) => setScope(e.target.value as Exclude<ExportScope, 'slice'>)}
+        className="bg-transparent text-white outline-none"
+        aria-label="Export scope"
+      >
+        <option value="window" className="bg-slate-800">Window</option>
+        {canExportSession && <option value="session" className="bg-slate-800">Session</option>}
+      </select>
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        className="bg-transparent text-slate-300 outline-none"
+        aria-label="Export format"
+      >
+        {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(f => (
+          <option key={f} value={f} className="bg-slate-800">{EXPORT_FORMAT_LABELS[f]}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
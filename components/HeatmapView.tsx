@@ -0,0 +1,280 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BookSide, BucketRef, HeightConfig, OrderBookSnapshot, OrderEntry, SymbolInfo } from '../types';
+import { VISUAL_BUCKETS, niceStep } from '../services/marketService';
+import { createHeightScale, sideHeightValues } from '../services/heightScale';
+import { formatPrice, stepDecimals } from '../services/symbolService';
+
+interface HeatmapViewProps {
+  history: OrderBookSnapshot[];
+  symbolInfo: SymbolInfo;
+  showTrades: boolean;
+  // Same metric and scale as the canyon's bar heights drive the colour ramp
+  heightConfig: HeightConfig;
+  // `compare` is set for shift-clicks, which pick slices to diff; `bucket` is the cell that was hit
+  onSelectSlice: (snapshot: OrderBookSnapshot, compare: boolean, bucket?: BucketRef) => void;
+}
+
+// Same window as the canyon, newest slice at the right edge
+const DISPLAY_LIMIT = 100;
+
+// Plot insets, leaving room for the HUD above, the dock below and the price axis on the left
+const PAD_TOP = 200;
+const PAD_BOTTOM = 150;
+const PAD_LEFT = 100;
+const PAD_RIGHT = 24;
+
+const PRICE_LABELS = 8;
+const TIME_LABELS = 5;
+
+const BUY_TRADE_COLOR = '#a3e635';
+const SELL_TRADE_COLOR = '#fb923c';
+
+// Dark blue -> cyan -> yellow -> white, like a thermal camera
+const HEAT_STOPS: [number, [number, number, number]][] = [
+  [0, [11, 16, 38]],
+  [0.25, [30, 58, 138]],
+  [0.5, [8, 145, 178]],
+  [0.75, [250, 204, 21]],
+  [1, [255, 255, 255]],
+];
+
+const HEAT_LUT: string[] = Array.from({ length: 256 }, (_, i) => {
+  const t = i / 255;
+  const upper = HEAT_STOPS.findIndex(([stop]) => stop >= t);
+  const [t1, c1] = HEAT_STOPS[Math.max(0, upper)];
+  const [t0, c0] = HEAT_STOPS[Math.max(0, upper - 1)];
+  const f = t1 === t0 ? 0 : (t - t0) / (t1 - t0);
+  const [r, g, b] = c0.map((c, k) => Math.round(c + (c1[k] - c) * f));
+  return `rgb(${r},${g},${b})`;
+});
+
+interface HoverInfo {
+  x: number;
+  y: number;
+  snapshot: OrderBookSnapshot;
+  price: number;
+  side: BookSide | null;
+  entry: OrderEntry | null;
+}
+
+/**
+ * Bucket under `price` in a slice: bid buckets cover (price - size, price], ask buckets [price, price + size).
+ */
+const bucketAt = (snapshot: OrderBookSnapshot, price: number): { side: BookSide; index: number; entry: OrderEntry } | null => {
+  const size = snapshot.bucketSize;
+  const bestBid = snapshot.bids[0];
+  const bestAsk = snapshot.asks[0];
+  if (bestBid && price <= bestBid.price) {
+    const index = Math.floor((bestBid.price - price) / size);
+    const entry = snapshot.bids[index];
+    return entry ? { side: 'bid', index, entry } : null;
+  }
+  if (bestAsk && price >= bestAsk.price) {
+    const index = Math.floor((price - bestAsk.price) / size);
+    const entry = snapshot.asks[index];
+    return entry ? { side: 'ask', index, entry } : null;
+  }
+  return null;
+};
+
+/**
+ * Bookmap-style time x price liquidity heatmap of the visible history, drawn on a 2D canvas.
+ */
+export const HeatmapView: React.FC<HeatmapViewProps> = ({ history, symbolInfo, showTrades, heightConfig, onSelectSlice }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [hover, setHover] = useState<HoverInfo | null>(null);
+
+  const slices = useMemo(() => history.slice(-DISPLAY_LIMIT), [history]);
+  const latest = slices[slices.length - 1];
+  const bucketSize = latest?.bucketSize || 1;
+  const centerPrice = latest?.midPrice || 0;
+  // Vertical span matches the canyon's width: all buckets of the latest slice on each side
+  const halfSpan = VISUAL_BUCKETS * bucketSize;
+
+  const plot = {
+    left: PAD_LEFT,
+    top: PAD_TOP,
+    width: Math.max(1, size.width - PAD_LEFT - PAD_RIGHT),
+    height: Math.max(1, size.height - PAD_TOP - PAD_BOTTOM),
+  };
+  const columnWidth = plot.width / DISPLAY_LIMIT;
+  const priceToY = (price: number) => plot.top + (centerPrice + halfSpan - price) / (2 * halfSpan) * plot.height;
+  const yToPrice = (y: number) => centerPrice + halfSpan - (y - plot.top) / plot.height * 2 * halfSpan;
+  // Column of slices[i]; the newest slice sits in the rightmost column
+  const columnX = (i: number) => plot.left + (DISPLAY_LIMIT - slices.length + i) * columnWidth;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || size.width === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(size.width * dpr);
+    canvas.height = Math.round(size.height * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+
+    ctx.fillStyle = HEAT_LUT[0];
+    ctx.fillRect(plot.left, plot.top, plot.width, plot.height);
+    if (!latest) return;
+
+    // Colour follows the same metric and scale as the canyon's heights
+    const values = slices.map(s => ({
+      bids: sideHeightValues(s.bids, heightConfig.metric),
+      asks: sideHeightValues(s.asks, heightConfig.metric),
+    }));
+    let maxValue = 0;
+    values.forEach(v => {
+      for (const x of v.bids) if (x > maxValue) maxValue = x;
+      for (const x of v.asks) if (x > maxValue) maxValue = x;
+    });
+    const scale = createHeightScale(heightConfig.scale, maxValue);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(plot.left, plot.top, plot.width, plot.height);
+    ctx.clip();
+
+    slices.forEach((snapshot, i) => {
+      const x = columnX(i);
+      const step = snapshot.bucketSize;
+      // Slightly oversized cells avoid hairline gaps between neighbours
+      const drawCell = (low: number, high: number, value: number) => {
+        const unit = scale.toUnit(value);
+        if (unit <= 0) return;
+        const yTop = priceToY(high);
+        ctx.fillStyle = HEAT_LUT[Math.round(unit * 255)];
+        ctx.fillRect(x, yTop, columnWidth + 0.5, priceToY(low) - yTop + 0.5);
+      };
+      snapshot.bids.forEach((b, k) => drawCell(b.price - step, b.price, values[i].bids[k]));
+      snapshot.asks.forEach((a, k) => drawCell(a.price, a.price + step, values[i].asks[k]));
+    });
+
+    if (showTrades) {
+      const sizes = slices.flatMap(s => s.trades?.map(t => t.quantity) ?? []).sort((a, b) => a - b);
+      const medianSize = sizes[Math.floor(sizes.length / 2)] || 1;
+      slices.forEach((snapshot, i) => {
+        for (const trade of snapshot.trades ?? []) {
+          const radius = Math.min(8, Math.max(1.5, 2.5 * Math.cbrt(trade.quantity / medianSize)));
+          ctx.beginPath();
+          ctx.arc(columnX(i) + columnWidth / 2, priceToY(trade.price), radius, 0, Math.PI * 2);
+          ctx.fillStyle = trade.side === 'buy' ? BUY_TRADE_COLOR : SELL_TRADE_COLOR;
+          ctx.fill();
+        }
+      });
+    }
+
+    // Mid-price line
+    ctx.beginPath();
+    slices.forEach((snapshot, i) => {
+      const x = columnX(i) + columnWidth / 2;
+      const y = priceToY(snapshot.midPrice);
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    });
+    ctx.strokeStyle = '#f8fafc';
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+    ctx.restore();
+
+    // Price axis on round steps
+    const decimals = stepDecimals(bucketSize);
+    const priceStep = niceStep(2 * halfSpan / PRICE_LABELS);
+    ctx.font = '11px ui-monospace, monospace';
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#94a3b8';
+    for (let p = Math.ceil((centerPrice - halfSpan) / priceStep) * priceStep; p <= centerPrice + halfSpan; p += priceStep) {
+      const y = priceToY(p);
+      ctx.fillText(formatPrice(p, symbolInfo.quoteAsset, decimals), plot.left - 8, y);
+      ctx.fillRect(plot.left - 4, y, 4, 1);
+    }
+
+    // Time axis from the slices' own timestamps
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    for (let k = 0; k < TIME_LABELS; k++) {
+      const i = Math.round((slices.length - 1) * k / (TIME_LABELS - 1));
+      const snapshot = slices[i];
+      if (!snapshot) continue;
+      const x = columnX(i) + columnWidth / 2;
+      ctx.fillText(new Date(snapshot.timestamp).toLocaleTimeString(), x, plot.top + plot.height + 8);
+    }
+  }, [slices, size, heightConfig, showTrades, symbolInfo.quoteAsset]);
+
+  const sliceAt = (x: number): OrderBookSnapshot | null => {
+    const i = Math.floor((x - plot.left) / columnWidth) - (DISPLAY_LIMIT - slices.length);
+    return slices[i] ?? null;
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+    const inPlot = x >= plot.left && x < plot.left + plot.width && y >= plot.top && y < plot.top + plot.height;
+    const snapshot = inPlot ? sliceAt(x) : null;
+    if (!snapshot) {
+      setHover(null);
+      return;
+    }
+    const price = yToPrice(y);
+    const bucket = bucketAt(snapshot, price);
+    setHover({ x, y, snapshot, price, side: bucket?.side ?? null, entry: bucket?.entry ?? null });
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const snapshot = sliceAt(e.clientX - rect.left);
+    if (!snapshot) return;
+    const bucket = bucketAt(snapshot, yToPrice(e.clientY - rect.top));
+    onSelectSlice(snapshot, e.shiftKey, bucket ? { side: bucket.side, index: bucket.index } : undefined);
+  };
+
+  return (
+    <div ref={containerRef} className="absolute inset-0">
+      <canvas
+        ref={canvasRef}
+        className="w-full h-full cursor-crosshair"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHover(null)}
+        onClick={handleClick}
+      />
+
+      {hover && (
+        <div
+          className="absolute pointer-events-none z-30 bg-slate-900/90 border border-slate-700 rounded-lg px-3 py-2 text-xs font-mono text-slate-300 shadow-xl"
+          style={{ left: hover.x + 14, top: hover.y + 14 }}
+        >
+          <div className="text-slate-500">{new Date(hover.snapshot.timestamp).toLocaleTimeString()}</div>
+          <div className="text-white">{formatPrice(hover.price, symbolInfo.quoteAsset, stepDecimals(hover.snapshot.bucketSize))}</div>
+          {hover.entry && hover.side ? (
+            <>
+              <div className={hover.side === 'bid' ? 'text-emerald-400' : 'text-rose-400'}>
+                {hover.side === 'bid' ? 'Bid' : 'Ask'} {hover.entry.quantity.toFixed(4)} {symbolInfo.baseAsset}
+              </div>
+              <div className="text-slate-500">Cumulative {hover.entry.total.toFixed(4)} {symbolInfo.baseAsset}</div>
+            </>
+          ) : (
+            <div className="text-slate-500">
+              {hover.price > (hover.snapshot.bids[0]?.price ?? Infinity) && hover.price < (hover.snapshot.asks[0]?.price ?? -Infinity)
+                ? 'Inside spread'
+                : 'Beyond aggregated depth'}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { BarChart3 } from 'lucide-react';
+import { HeightConfig, HeightMetric, HeightScaleMode } from '../types';
+
+interface HeightControlProps {
+  config: HeightConfig;
+  onChange: (config: HeightConfig) => void;
+}
+
+export const HEIGHT_METRIC_LABELS: Record<HeightMetric, string> = {
+  cumulative: 'Cumulative',
+  level: 'Per level',
+  notional: 'Notional',
+};
+
+const SCALE_LABELS: Record<HeightScaleMode, string> = {
+  linear: 'Linear',
+  sqrt: 'Sqrt',
+  log: 'Log',
+};
+
+export const HeightControl: React.FC<HeightControlProps> = ({ config, onChange }) => (
+  <div className="flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-600 bg-slate-800 text-sm">
+    <BarChart3 size={16} className="text-slate-400" />
+    <select
+      value={config.metric}
+      onChange={(e) => onChange({ ...config, metric: e.target.value as HeightMetric })}
+      className="bg-transparent text-white outline-none"
+      aria-label="Bar height metric"
+    >
+      {(Object.keys(HEIGHT_METRIC_LABELS) as HeightMetric[]).map(metric => (
+        <option key={metric} value={metric} className="bg-slate-800">{HEIGHT_METRIC_LABELS[metric]}</option>
+      ))}
+    </select>
+    <select
+      value={config.scale}
+      onChange={(e) => onChange({ ...config, scale: e.target.value as HeightScaleMode })}
+      className="bg-transparent text-slate-300 outline-none"
+      aria-label="Height axis scale"
+    >
+      {(Object.keys(SCALE_LABELS) as HeightScaleMode[]).map(scale => (
+        <option key={scale} value={scale} className="bg-slate-800">{SCALE_LABELS[scale]}</option>
+      ))}
+    </select>
+  </div>
+);
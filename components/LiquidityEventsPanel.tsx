@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Radar } from 'lucide-react';
+import { LiquidityDetectorConfig, LiquidityEvent, LiquidityEventType, SymbolInfo } from '../types';
+import { formatPrice, stepDecimals } from '../services/symbolService';
+
+interface LiquidityEventsPanelProps {
+  events: LiquidityEvent[]; // Newest last
+  config: LiquidityDetectorConfig;
+  symbolInfo: SymbolInfo;
+  onConfigChange: (config: LiquidityDetectorConfig) => void;
+}
+
+// Shared with CanyonScene's event markers
+export const EVENT_COLORS: Record<LiquidityEventType, string> = {
+  'wall-added': '#38bdf8',
+  'wall-pulled': '#facc15',
+  'wall-consumed': '#e879f9',
+  'flicker': '#f87171',
+};
+
+const EVENT_LABELS: Record<LiquidityEventType, string> = {
+  'wall-added': 'Wall added',
+  'wall-pulled': 'Wall pulled',
+  'wall-consumed': 'Wall consumed',
+  'flicker': 'Flicker',
+};
+
+const VISIBLE_EVENTS = 50;
+
+const ThresholdInput: React.FC<{
+  label: string;
+  value: number;
+  step: number;
+  onChange: (value: number) => void;
+}> = ({ label, value, step, onChange }) => (
+  <label className="flex flex-col gap-1">
+    <span className="text-[10px] uppercase tracking-wide text-slate-500">{label}</span>
+    <input
+      type="number"
+      min={step}
+      step={step}
+      value={value}
+      onChange={(e) => {
+        const next = Number(e.target.value);
+        if (next > 0) onChange(next);
+      }}
+      className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono text-xs text-white outline-none focus:border-blue-500"
+    />
+  </label>
+);
+
+export const LiquidityEventsPanel: React.FC<LiquidityEventsPanelProps> = ({
+  events, config, symbolInfo, onConfigChange
+}) => {
+  const [collapsed, setCollapsed] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const visible = events.slice(-VISIBLE_EVENTS).reverse();
+
+  return (
+    <div className="w-80 text-xs text-slate-400 bg-slate-900/50 backdrop-blur-md rounded-xl border border-slate-800 pointer-events-auto">
+      <button
+        onClick={() => setCollapsed(!collapsed)}
+        className="w-full flex items-center justify-between p-4 font-bold text-slate-200"
+      >
+        <span className="flex items-center gap-2"><Radar size={14} /> Liquidity Events ({events.length})</span>
+        {collapsed ? <ChevronDown size={14} /> : <ChevronUp size={14} />}
+      </button>
+
+      {!collapsed && (
+        <div className="px-4 pb-4">
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            className="mb-2 text-[10px] uppercase tracking-wide text-slate-500 hover:text-slate-300"
+          >
+            {showSettings ? 'Hide thresholds' : 'Thresholds'}
+          </button>
+
+          {showSettings && (
+            <div className="grid grid-cols-2 gap-2 mb-3">
+              <ThresholdInput label="Wall (× median)" value={config.wallFactor} step={0.5}
+                onChange={(wallFactor) => onConfigChange({ ...config, wallFactor })} />
+              <ThresholdInput label="Min change (× median)" value={config.minChangeFactor} step={0.5}
+                onChange={(minChangeFactor) => onConfigChange({ ...config, minChangeFactor })} />
+              <ThresholdInput label="Traded share" value={config.consumedFraction} step={0.05}
+                onChange={(consumedFraction) => onConfigChange({ ...config, consumedFraction: Math.min(1, consumedFraction) })} />
+              <ThresholdInput label="Flicker window (s)" value={config.flickerWindowMs / 1000} step={0.5}
+                onChange={(seconds) => onConfigChange({ ...config, flickerWindowMs: seconds * 1000 })} />
+            </div>
+          )}
+
+          <ul className="space-y-1 max-h-[40vh] overflow-y-auto pr-1">
+            {visible.length === 0 && <li className="text-slate-500">No events yet</li>}
+            {visible.map((event, i) => (
+              <li key={`${event.timestamp}-${event.side}-${event.price}-${i}`} className="flex items-center gap-2 font-mono">
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: EVENT_COLORS[event.type] }} />
+                <span className="text-slate-500">{new Date(event.timestamp).toLocaleTimeString()}</span>
+                <span className="text-slate-200">{EVENT_LABELS[event.type]}</span>
+                <span className={event.side === 'bid' ? 'text-emerald-400' : 'text-rose-400'}>
+                  {formatPrice(event.price, '', stepDecimals(event.bucketSize))}
+                </span>
+                <span className="ml-auto text-slate-400">
+                  {event.quantity.toFixed(2)} {symbolInfo.baseAsset}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { Wifi, WifiOff } from 'lucide-react';
+import { BucketConfig, FeedStatus, HeightConfig, OrderBookSnapshot, PaneConfig, PriceAxisMode, SourceId, Trade } from '../types';
+import { SOURCE_IDS, SOURCE_LABELS, createMarketDataSource } from '../services/sources';
+import { DEFAULT_SYMBOL, formatPrice, parseSymbol } from '../services/symbolService';
+import { createHistoryBuffer } from '../services/historyBuffer';
+import { DEFAULT_LOD_TIERS } from '../services/canyonRing';
+import { VISUAL_BUCKETS } from '../services/marketService';
+import { CanyonScene } from './CanyonScene';
+import { CanyonEnvironment, CameraSync } from './CanyonEnvironment';
+import { SymbolPicker } from './SymbolPicker';
+
+// Panes never scrub, so they only keep the slices the terrain draws
+const PANE_BUFFER_CAPACITY = DEFAULT_LOD_TIERS[DEFAULT_LOD_TIERS.length - 1].endAge;
+
+interface MarketPaneProps {
+  config: PaneConfig;
+  // Shared clock: every change appends one slice, so all panes scroll in step and stop together
+  tick: number;
+  maxHistory: number;
+  getBucketConfig: () => BucketConfig;
+  heightConfig: HeightConfig;
+  showTrades: boolean;
+  priceAxis: PriceAxisMode;
+  byVenue: boolean;
+  showTrail: boolean;
+  showVwap: boolean;
+  cameraSync: CameraSync;
+  onChange: (config: PaneConfig) => void;
+}
+
+/**
+ * A secondary canyon of the split view, with its own source and pair.
+ * Slices and trades are collected like the main canyon's, into a buffer of its own that the terrain draws from,
+ * without scrubbing, events or alerts.
+ */
+export const MarketPane: React.FC<MarketPaneProps> = ({
+  config, tick, maxHistory, getBucketConfig, heightConfig, showTrades, priceAxis, byVenue, showTrail, showVwap, cameraSync, onChange
+}) => {
+  const [history, setHistory] = useState<OrderBookSnapshot[]>([]);
+  const [buffer] = useState(() => createHistoryBuffer(PANE_BUFFER_CAPACITY, VISUAL_BUCKETS));
+  const [lastSeq, setLastSeq] = useState(-1);
+  const [feedStatus, setFeedStatus] = useState<FeedStatus>('connecting');
+  const [lastPrice, setLastPrice] = useState(0);
+  const latestDataRef = useRef<OrderBookSnapshot | null>(null);
+  const pendingTradesRef = useRef<Trade[]>([]);
+  const isLiveSource = config.sourceId !== 'mock';
+
+  const symbolInfo = useMemo(
+    () => parseSymbol(isLiveSource ? config.symbol : DEFAULT_SYMBOL),
+    [isLiveSource, config.symbol]
+  );
+
+  const getBucketConfigRef = useRef(getBucketConfig);
+  getBucketConfigRef.current = getBucketConfig;
+
+  useEffect(() => {
+    latestDataRef.current = null;
+    pendingTradesRef.current = [];
+    buffer.clear();
+    setHistory([]);
+    setLastSeq(-1);
+    setLastPrice(0);
+
+    const source = createMarketDataSource(config.sourceId, symbolInfo, { getBucketConfig: () => getBucketConfigRef.current() });
+    source.subscribe((snapshot) => {
+      latestDataRef.current = snapshot;
+      setLastPrice(snapshot.midPrice);
+    }, setFeedStatus, (trades) => {
+      pendingTradesRef.current.push(...trades);
+    });
+    return () => source.unsubscribe();
+  }, [config.sourceId, symbolInfo, buffer]);
+
+  useEffect(() => {
+    const latest = latestDataRef.current;
+    if (!latest) return;
+    const trades = pendingTradesRef.current;
+    pendingTradesRef.current = [];
+    const snapshot: OrderBookSnapshot = trades.length > 0 ? { ...latest, trades } : latest;
+    buffer.push(snapshot);
+    setHistory(prev => [...prev, snapshot].slice(-maxHistory));
+    setLastSeq(buffer.end() - 1);
+  }, [tick, maxHistory, buffer]);
+
+  return (
+    <div className="relative w-full h-full border-l border-t border-slate-800">
+      <Canvas>
+        <CanyonEnvironment autoRotate={false} sync={cameraSync} />
+        <CanyonScene
+          history={history}
+          symbolInfo={symbolInfo}
+          isLive={true}
+          showTrades={showTrades}
+          heightConfig={heightConfig}
+          priceAxis={priceAxis}
+          byVenue={byVenue}
+          showTrail={showTrail}
+          showVwap={showVwap}
+          deepHistory={{ buffer, lastSeq }}
+          events={[]}
+          alerts={[]}
+          onSelectSlice={() => {}}
+        />
+      </Canvas>
+
+      {/* Pane header: market picker and price */}
+      <div className="absolute bottom-3 left-3 flex items-center gap-2 text-sm">
+        <select
+          value={config.sourceId}
+          onChange={(e) => onChange({ ...config, sourceId: e.target.value as Exclude<SourceId, 'replay'> })}
+          className="px-3 py-2 rounded-lg border border-slate-600 bg-slate-800 text-white outline-none cursor-pointer"
+          aria-label="Pane data source"
+        >
+          {SOURCE_IDS.map(id => (
+            <option key={id} value={id}>{SOURCE_LABELS[id]}</option>
+          ))}
+        </select>
+        {isLiveSource && (
+          <SymbolPicker symbol={config.symbol} onChange={(symbol) => onChange({ ...config, symbol })} />
+        )}
+        <span className="flex items-center gap-2 px-3 py-1 rounded-full bg-slate-900/80 border border-slate-700 font-mono text-xs">
+          {feedStatus === 'live' ? <Wifi size={12} className="text-yellow-400" /> : <WifiOff size={12} className="text-rose-400" />}
+          {formatPrice(lastPrice, symbolInfo.quoteAsset)}
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { LineChart, Line, YAxis, ResponsiveContainer } from 'recharts';
+import { ChevronDown, ChevronUp, Gauge } from 'lucide-react';
+import { BookMetrics, OrderBookSnapshot, SymbolInfo } from '../types';
+import { DEPTH_BANDS_PCT, IMBALANCE_LEVELS } from '../services/bookMetrics';
+import { formatCompact, formatNotional, formatPrice } from '../services/symbolService';
+
+interface MetricsPanelProps {
+  history: OrderBookSnapshot[]; // Oldest first; the same window the canyon shows
+  symbolInfo: SymbolInfo;
+}
+
+const BID_COLOR = '#34d399';
+const ASK_COLOR = '#fb7185';
+const NEUTRAL_COLOR = '#60a5fa';
+
+interface SeriesDef {
+  pick: (m: BookMetrics) => number;
+  color: string;
+}
+
+const Sparkline: React.FC<{ data: Record<string, number | null>[]; series: SeriesDef[] }> = ({ data, series }) => (
+  <div className="w-24 h-6 shrink-0">
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={data} margin={{ top: 2, right: 0, bottom: 2, left: 0 }}>
+        <YAxis hide domain={['dataMin', 'dataMax']} />
+        {series.map((s, i) => (
+          <Line
+            key={i}
+            type="monotone"
+            dataKey={`s${i}`}
+            stroke={s.color}
+            strokeWidth={1.25}
+            dot={false}
+            isAnimationActive={false}
+            connectNulls
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+const MetricRow: React.FC<{
+  label: string;
+  value: React.ReactNode;
+  history: OrderBookSnapshot[];
+  series: SeriesDef[];
+}> = ({ label, value, history, series }) => {
+  const data = history.map(s => {
+    const point: Record<string, number | null> = {};
+    series.forEach((def, i) => {
+      point[`s${i}`] = s.metrics ? def.pick(s.metrics) : null;
+    });
+    return point;
+  });
+
+  return (
+    <li className="flex items-center gap-3">
+      <div className="flex-1 min-w-0">
+        <div className="text-[10px] uppercase tracking-wide text-slate-500">{label}</div>
+        <div className="font-mono text-slate-200 truncate">{value}</div>
+      </div>
+      <Sparkline data={data} series={series} />
+    </li>
+  );
+};
+
+export const MetricsPanel: React.FC<MetricsPanelProps> = ({ history, symbolInfo }) => {
+  const [collapsed, setCollapsed] = useState(false);
+  const latest = history[history.length - 1]?.metrics;
+  const price = (value: number) => formatPrice(value, symbolInfo.quoteAsset);
+
+  return (
+    <div className="w-80 text-xs text-slate-400 bg-slate-900/50 backdrop-blur-md rounded-xl border border-slate-800 pointer-events-auto">
+      <button
+        onClick={() => setCollapsed(!collapsed)}
+        className="w-full flex items-center justify-between p-4 font-bold text-slate-200"
+      >
+        <span className="flex items-center gap-2"><Gauge size={14} /> Microstructure</span>
+        {collapsed ? <ChevronDown size={14} /> : <ChevronUp size={14} />}
+      </button>
+
+      {!collapsed && (
+        <div className="px-4 pb-4">
+          {!latest ? (
+            <div className="text-slate-500">Waiting for book…</div>
+          ) : (
+            <ul className="space-y-2 max-h-[40vh] overflow-y-auto pr-1">
+              <MetricRow
+                label="Spread"
+                value={`${latest.spreadTicks !== null ? `${latest.spreadTicks} ticks · ` : ''}${latest.spreadBps.toFixed(2)} bps`}
+                history={history}
+                series={[{ pick: m => m.spreadBps, color: NEUTRAL_COLOR }]}
+              />
+              <MetricRow
+                label={`Imbalance (top ${IMBALANCE_LEVELS})`}
+                value={
+                  <span className={latest.imbalance >= 0 ? 'text-emerald-400' : 'text-rose-400'}>
+                    {latest.imbalance >= 0 ? '+' : ''}{(latest.imbalance * 100).toFixed(1)}%
+                  </span>
+                }
+                history={history}
+                series={[{ pick: m => m.imbalance, color: NEUTRAL_COLOR }]}
+              />
+              <MetricRow
+                label="Microprice"
+                value={price(latest.microprice)}
+                history={history}
+                series={[{ pick: m => m.microprice, color: NEUTRAL_COLOR }]}
+              />
+              <MetricRow
+                label={`Weighted mid (top ${IMBALANCE_LEVELS})`}
+                value={price(latest.weightedMid)}
+                history={history}
+                series={[{ pick: m => m.weightedMid, color: NEUTRAL_COLOR }]}
+              />
+
+              {DEPTH_BANDS_PCT.map((band, i) => (
+                <MetricRow
+                  key={`depth-${band}`}
+                  label={`Depth ±${band}% (${symbolInfo.baseAsset})`}
+                  value={
+                    <>
+                      <span className="text-emerald-400">{formatCompact(latest.bidDepth[i])}</span>
+                      {' / '}
+                      <span className="text-rose-400">{formatCompact(latest.askDepth[i])}</span>
+                    </>
+                  }
+                  history={history}
+                  series={[
+                    { pick: m => m.bidDepth[i], color: BID_COLOR },
+                    { pick: m => m.askDepth[i], color: ASK_COLOR },
+                  ]}
+                />
+              ))}
+
+              {DEPTH_BANDS_PCT.map((band, i) => (
+                <MetricRow
+                  key={`move-${band}`}
+                  label={`Cost to move ${band}% (down / up)`}
+                  value={
+                    <>
+                      <span className="text-emerald-400">{formatNotional(latest.bidNotional[i], symbolInfo.quoteAsset)}</span>
+                      {' / '}
+                      <span className="text-rose-400">{formatNotional(latest.askNotional[i], symbolInfo.quoteAsset)}</span>
+                    </>
+                  }
+                  history={history}
+                  series={[
+                    { pick: m => m.bidNotional[i], color: BID_COLOR },
+                    { pick: m => m.askNotional[i], color: ASK_COLOR },
+                  ]}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
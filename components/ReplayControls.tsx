@@ -0,0 +1,70 @@
+import React from 'react';
+import { Pause, Play, X } from 'lucide-react';
+import { REPLAY_SPEEDS, ReplayState } from '../services/sources';
+
+interface ReplayControlsProps {
+  state: ReplayState;
+  startedAt: number; // Wall-clock start of the recording
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (positionMs: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onClose: () => void;
+}
+
+const formatOffset = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({
+  state, startedAt, onPlay, onPause, onSeek, onSpeedChange, onClose
+}) => {
+  return (
+    <div className="flex items-center gap-3 bg-slate-900/80 backdrop-blur-md border border-slate-700 rounded-xl px-4 py-3 text-sm">
+      <button
+        onClick={state.playing ? onPause : onPlay}
+        className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 border border-slate-600 transition-colors"
+        aria-label={state.playing ? 'Pause replay' : 'Play replay'}
+      >
+        {state.playing ? <Pause size={16} /> : <Play size={16} />}
+      </button>
+
+      <span className="font-mono text-xs text-slate-400 w-12 text-right">{formatOffset(state.positionMs)}</span>
+      <input
+        type="range"
+        min={0}
+        max={state.durationMs}
+        step={100}
+        value={state.positionMs}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="flex-1 accent-blue-500"
+        aria-label="Replay position"
+      />
+      <span className="font-mono text-xs text-slate-400 w-12">{formatOffset(state.durationMs)}</span>
+
+      <select
+        value={state.speed}
+        onChange={(e) => onSpeedChange(Number(e.target.value))}
+        className="bg-slate-800 border border-slate-600 rounded-lg px-2 py-1 font-mono text-xs outline-none"
+        aria-label="Replay speed"
+      >
+        {REPLAY_SPEEDS.map(s => <option key={s} value={s}>{s}x</option>)}
+      </select>
+
+      <span className="font-mono text-xs text-slate-500 hidden sm:inline">
+        {new Date(startedAt + state.positionMs).toLocaleTimeString()}
+      </span>
+
+      <button
+        onClick={onClose}
+        className="p-2 rounded-lg text-slate-400 hover:text-white transition-colors"
+        aria-label="Close replay"
+      >
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
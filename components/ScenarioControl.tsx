@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react';
+import { FlaskConical } from 'lucide-react';
+import { SimScenario } from '../types';
+import { SIM_SCENARIO_LABELS } from '../services/simulator';
+
+interface ScenarioControlProps {
+  scenario: SimScenario;
+  seed: number;
+  onChange: (scenario: SimScenario, seed: number) => void;
+}
+
+export const ScenarioControl: React.FC<ScenarioControlProps> = ({ scenario, seed, onChange }) => {
+  const [draft, setDraft] = useState(String(seed));
+
+  useEffect(() => {
+    setDraft(String(seed));
+  }, [seed]);
+
+  const commitSeed = () => {
+    const value = Number(draft);
+    if (Number.isInteger(value) && value >= 0) onChange(scenario, value);
+    else setDraft(String(seed));
+  };
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-600 bg-slate-800 text-sm">
+      <FlaskConical size={16} className="text-slate-400" />
+      <select
+        value={scenario}
+        onChange={(e) => onChange(e.target.value as SimScenario, seed)}
+        className="bg-transparent text-white outline-none"
+        aria-label="Simulation scenario"
+      >
+        {(Object.keys(SIM_SCENARIO_LABELS) as SimScenario[]).map(s => (
+          <option key={s} value={s} className="bg-slate-800">{SIM_SCENARIO_LABELS[s]}</option>
+        ))}
+      </select>
+      <span className="text-slate-500">seed</span>
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commitSeed}
+        onKeyDown={(e) => { if (e.key === 'Enter') commitSeed(); }}
+        inputMode="numeric"
+        className="w-12 bg-transparent font-mono text-white outline-none"
+        aria-label="Simulation seed"
+      />
+    </div>
+  );
+};
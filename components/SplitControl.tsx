@@ -0,0 +1,25 @@
+import React from 'react';
+import { LayoutGrid } from 'lucide-react';
+
+export const MAX_PANES = 4;
+
+interface SplitControlProps {
+  paneCount: number;
+  onPaneCountChange: (count: number) => void;
+}
+
+export const SplitControl: React.FC<SplitControlProps> = ({ paneCount, onPaneCountChange }) => (
+  <div className="flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-600 bg-slate-800 text-sm">
+    <LayoutGrid size={16} className="text-slate-400" />
+    {Array.from({ length: MAX_PANES }, (_, i) => i + 1).map(count => (
+      <button
+        key={count}
+        onClick={() => onPaneCountChange(count)}
+        className={`w-6 rounded font-mono transition-colors ${count === paneCount ? 'bg-blue-600/30 text-blue-300' : 'text-slate-400 hover:text-white'}`}
+        title={count === 1 ? 'Single canyon' : `${count} canyons side by side`}
+      >
+        {count}
+      </button>
+    ))}
+  </div>
+);
@@ -0,0 +1,53 @@
+import React, { useState, useEffect } from 'react';
+import { Search } from 'lucide-react';
+import { POPULAR_SYMBOLS, isValidSymbol } from '../services/symbolService';
+
+interface SymbolPickerProps {
+  symbol: string;
+  onChange: (symbol: string) => void;
+}
+
+export const SymbolPicker: React.FC<SymbolPickerProps> = ({ symbol, onChange }) => {
+  const [draft, setDraft] = useState(symbol);
+
+  // Keep the input in sync if the symbol changes from outside
+  useEffect(() => {
+    setDraft(symbol);
+  }, [symbol]);
+
+  const commit = () => {
+    const next = draft.trim().toUpperCase();
+    if (!isValidSymbol(next)) {
+      setDraft(symbol);
+      return;
+    }
+    if (next !== symbol) onChange(next);
+  };
+
+  const invalid = draft.length > 0 && !isValidSymbol(draft);
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        commit();
+      }}
+      className={`flex items-center gap-2 px-3 py-2 rounded-lg border bg-slate-800 text-sm transition-colors ${invalid ? 'border-rose-500' : 'border-slate-600 focus-within:border-blue-500'}`}
+    >
+      <Search size={16} className="text-slate-400" />
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value.toUpperCase())}
+        onBlur={commit}
+        list="symbol-picker-options"
+        spellCheck={false}
+        className="w-28 bg-transparent font-mono font-medium text-white uppercase outline-none placeholder:text-slate-500"
+        placeholder="BTCUSDT"
+        aria-label="Trading pair"
+      />
+      <datalist id="symbol-picker-options">
+        {POPULAR_SYMBOLS.map(s => <option key={s} value={s} />)}
+      </datalist>
+    </form>
+  );
+};
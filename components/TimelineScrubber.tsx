@@ -0,0 +1,61 @@
+import React from 'react';
+import { History, SkipForward } from 'lucide-react';
+
+interface TimelineScrubberProps {
+  start: number;      // Oldest retained slice (sequence number)
+  end: number;        // One past the newest slice
+  position: number;   // Newest visible slice
+  isLive: boolean;
+  timestampAt: (seq: number) => number;
+  onScrub: (seq: number) => void;
+  onJumpToLive: () => void;
+}
+
+const formatSpan = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
+
+export const TimelineScrubber: React.FC<TimelineScrubberProps> = ({
+  start, end, position, isLive, timestampAt, onScrub, onJumpToLive
+}) => {
+  if (end <= start) return null;
+
+  const newest = end - 1;
+  const clamped = Math.min(newest, Math.max(start, position));
+  const behindMs = timestampAt(newest) - timestampAt(clamped);
+  const bufferedMs = timestampAt(newest) - timestampAt(start);
+
+  return (
+    <div className="flex items-center gap-3 bg-slate-900/80 backdrop-blur-md border border-slate-700 rounded-xl px-4 py-3 text-sm">
+      <History size={16} className="text-slate-400 shrink-0" />
+      <span className="font-mono text-xs text-slate-500 w-16 text-right" title="Buffered history">
+        {formatSpan(bufferedMs)}
+      </span>
+      <input
+        type="range"
+        min={start}
+        max={newest}
+        step={1}
+        value={clamped}
+        onChange={(e) => onScrub(Number(e.target.value))}
+        className="flex-1 accent-emerald-500"
+        aria-label="History position"
+      />
+      <span className="font-mono text-xs text-slate-400 w-20">
+        {new Date(timestampAt(clamped)).toLocaleTimeString()}
+      </span>
+      <button
+        onClick={onJumpToLive}
+        disabled={isLive}
+        className={`flex items-center gap-1 px-3 py-1 rounded-lg border text-xs font-medium transition-colors ${isLive ? 'border-emerald-700/50 text-emerald-400 bg-emerald-900/30 cursor-default' : 'border-slate-600 text-slate-300 bg-slate-800 hover:bg-slate-700'}`}
+        title={isLive ? 'Following live data' : `${formatSpan(behindMs)} behind live`}
+      >
+        <SkipForward size={12} />
+        {isLive ? 'Live' : `-${formatSpan(behindMs)}`}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Spline } from 'lucide-react';
+
+interface TrailControlProps {
+  showTrail: boolean;
+  showVwap: boolean;
+  onShowTrailChange: (show: boolean) => void;
+  onShowVwapChange: (show: boolean) => void;
+}
+
+/**
+ * Toggles for the lines drawn along the canyon floor: mid with the bid/ask spread band, and VWAP.
+ */
+export const TrailControl: React.FC<TrailControlProps> = ({ showTrail, showVwap, onShowTrailChange, onShowVwapChange }) => (
+  <div className="flex items-center gap-3 px-3 py-2 rounded-lg border border-slate-600 bg-slate-800 text-sm">
+    <Spline size={16} className="text-slate-400" />
+    <button
+      onClick={() => onShowTrailChange(!showTrail)}
+      className={`transition-colors ${showTrail ? 'text-white' : 'text-slate-500 hover:text-white'}`}
+      title="Mid price and best bid/ask spread band over time"
+    >
+      Mid &amp; spread
+    </button>
+    <button
+      onClick={() => onShowVwapChange(!showVwap)}
+      className={`pl-3 border-l border-slate-600 transition-colors ${showVwap ? 'text-purple-300' : 'text-slate-500 hover:text-white'}`}
+      title="Volume-weighted average trade price over the visible slices"
+    >
+      VWAP
+    </button>
+  </div>
+);
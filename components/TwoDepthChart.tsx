@@ -1,55 +1,185 @@
 import React from 'react';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { OrderBookSnapshot } from '../types';
+import { ComposedChart, Area, Line, BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea, ReferenceLine } from 'recharts';
+import { Download } from 'lucide-react';
+import { BookSide, BucketRef, ExportFormat, OrderBookSnapshot, OrderEntry, SymbolInfo } from '../types';
+import { formatCompact, formatPrice, stepDecimals } from '../services/symbolService';
+import { SOURCE_LABELS } from '../services/sources';
+import { VENUE_COLORS } from './VenueControl';
 
 interface TwoDepthChartProps {
   snapshot: OrderBookSnapshot;
+  // Second slice to compare against; the earlier of the two is drawn as the dashed baseline
+  compareSnapshot?: OrderBookSnapshot | null;
+  // Bucket of `snapshot` to mark, e.g. the canyon bar that was clicked
+  highlight?: BucketRef | null;
+  symbolInfo: SymbolInfo;
+  // Downloads the shown slice(s)
+  onExport?: (format: ExportFormat) => void;
   onClose: () => void;
 }
 
-export const TwoDepthChart: React.FC<TwoDepthChartProps> = ({ snapshot, onClose }) => {
+interface DepthRow {
+  price: number;
+  bidTotal?: number | null;
+  askTotal?: number | null;
+  prevBidTotal?: number | null;
+  prevAskTotal?: number | null;
+}
+
+// Consolidated depth: `bid:<venue>` is that venue's cumulative depth stacked on the venues before it,
+// `raw:bid:<venue>` the venue's own cumulative depth (for the tooltip)
+type VenueDepthRow = { price: number } & Record<string, number>;
+
+interface DeltaRow {
+  price: number;
+  side: BookSide;
+  delta: number; // Base quantity added (positive) or removed (negative) in this bucket
+}
+
+const depthRows = (snapshot: OrderBookSnapshot, prefix: 'bid' | 'prevBid', askPrefix: 'ask' | 'prevAsk'): DepthRow[] => [
+  // Bids need to be reversed to meet at the middle
+  ...[...snapshot.bids].reverse().map(b => ({ price: b.price, [`${prefix}Total`]: b.total })),
+  ...snapshot.asks.map(a => ({ price: a.price, [`${askPrefix}Total`]: a.total })),
+];
+
+const venueDepthRows = (snapshot: OrderBookSnapshot): VenueDepthRow[] => {
+  const breakdown = snapshot.breakdown;
+  if (!breakdown) return [];
+
+  const sideRows = (side: BookSide, entries: OrderEntry[], perVenue: number[][]) => {
+    const totals = perVenue.map(() => 0);
+    return entries.map((e, i) => {
+      const row: VenueDepthRow = { price: e.price };
+      let stacked = 0;
+      breakdown.venues.forEach((venue, v) => {
+        totals[v] += perVenue[v][i] ?? 0;
+        stacked += totals[v];
+        row[`${side}:${venue}`] = stacked;
+        row[`raw:${side}:${venue}`] = totals[v];
+      });
+      return row;
+    });
+  };
+
+  return [
+    ...sideRows('bid', snapshot.bids, breakdown.bids).reverse(),
+    ...sideRows('ask', snapshot.asks, breakdown.asks),
+  ];
+};
+
+/**
+ * Per-bucket change in resting size from `before` to `after`, matched by price.
+ * Both grids are tick-aligned at the same bucket size, so equal buckets share a grid index.
+ */
+const depthDelta = (before: OrderBookSnapshot, after: OrderBookSnapshot): DeltaRow[] => {
+  const size = after.bucketSize;
+  const key = (price: number) => Math.round(price / size);
+
+  const diffSide = (side: BookSide, prev: OrderEntry[], next: OrderEntry[]): DeltaRow[] => {
+    const rows = new Map<number, DeltaRow>();
+    for (const e of next) rows.set(key(e.price), { price: e.price, side, delta: e.quantity });
+    for (const e of prev) {
+      const row = rows.get(key(e.price));
+      // Buckets that scrolled out of the window are unknown, not removed
+      if (row) row.delta -= e.quantity;
+    }
+    return [...rows.values()];
+  };
+
+  return [
+    ...diffSide('bid', before.bids, after.bids),
+    ...diffSide('ask', before.asks, after.asks),
+  ].sort((a, b) => a.price - b.price);
+};
+
+const formatGap = (ms: number) => ms < 60000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.floor(ms / 60000)}m${Math.round(ms % 60000 / 1000)}s`;
+
+export const TwoDepthChart: React.FC<TwoDepthChartProps> = ({ snapshot: selected, compareSnapshot, highlight, symbolInfo, onExport, onClose }) => {
+  // Order the pair in time: the later slice is the filled curve, the earlier one the dashed baseline
+  const comparing = compareSnapshot && compareSnapshot !== selected ? compareSnapshot : null;
+  const [before, snapshot] = comparing && comparing.timestamp > selected.timestamp
+    ? [selected, comparing]
+    : [comparing, selected];
+
   // Transform data for Recharts
-  // We need a single array. Bids need to be reversed to meet at the middle.
-  
-  const bidData = [...snapshot.bids].sort((a,b) => a.price - b.price).map(b => ({
-    price: b.price,
-    bidTotal: b.total,
-    askTotal: null,
-  }));
+  // We need a single array sorted by price; each curve leaves the other curves' fields empty.
+  // A consolidated slice on its own is drawn as per-venue stacked areas
+  const venues = !before && snapshot.breakdown ? snapshot.breakdown.venues : null;
+  const data: (DepthRow | VenueDepthRow)[] = venues
+    ? venueDepthRows(snapshot)
+    : [
+      ...depthRows(snapshot, 'bid', 'ask'),
+      ...(before ? depthRows(before, 'prevBid', 'prevAsk') : []),
+    ].sort((a, b) => a.price - b.price);
 
-  const askData = snapshot.asks.map(a => ({
-    price: a.price,
-    bidTotal: null,
-    askTotal: a.total,
-  }));
+  const sameGrid = before !== null && before.bucketSize === snapshot.bucketSize;
+  const delta = before && sameGrid ? depthDelta(before, snapshot) : [];
+  const midMove = before ? snapshot.midPrice - before.midPrice : 0;
 
-  const data = [...bidData, ...askData];
+  const highlighted = highlight ? (highlight.side === 'bid' ? selected.bids : selected.asks)[highlight.index] : undefined;
+  // Bid buckets cover (price - size, price], ask buckets [price, price + size)
+  const highlightLow = highlighted && highlight
+    ? (highlight.side === 'bid' ? highlighted.price - selected.bucketSize : highlighted.price)
+    : 0;
+  const highlightDecimals = stepDecimals(selected.bucketSize);
 
-  const minPrice = bidData[0]?.price || 0;
-  const maxPrice = askData[askData.length - 1]?.price || 0;
+  const minPrice = data[0]?.price || 0;
+  const maxPrice = data[data.length - 1]?.price || 0;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4 animate-in fade-in duration-200">
-      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-4xl h-[500px] p-6 shadow-2xl relative flex flex-col">
+      <div className={`bg-slate-900 border border-slate-700 rounded-xl w-full max-w-4xl ${before ? 'h-[720px]' : 'h-[500px]'} p-6 shadow-2xl relative flex flex-col`}>
         
         <div className="flex justify-between items-center mb-4">
           <div>
-            <h2 className="text-2xl font-bold text-white">Depth Snapshot</h2>
-            <p className="text-slate-400 text-sm">
-              Time: {new Date(snapshot.timestamp).toLocaleTimeString()} • Mid: ${snapshot.midPrice.toFixed(2)}
-            </p>
+            <h2 className="text-2xl font-bold text-white">
+              {before ? 'Depth Comparison' : 'Depth Snapshot'} · {symbolInfo.symbol}
+            </h2>
+            {before ? (
+              <p className="text-slate-400 text-sm">
+                {new Date(before.timestamp).toLocaleTimeString()} → {new Date(snapshot.timestamp).toLocaleTimeString()}
+                {' '}(Δt {formatGap(snapshot.timestamp - before.timestamp)}) • Mid{' '}
+                <span className={midMove >= 0 ? 'text-emerald-400' : 'text-rose-400'}>
+                  {midMove >= 0 ? '+' : '-'}{formatPrice(Math.abs(midMove), symbolInfo.quoteAsset)}
+                  {' '}({midMove >= 0 ? '+' : ''}{(midMove / before.midPrice * 10000).toFixed(1)} bps)
+                </span>
+              </p>
+            ) : (
+              <p className="text-slate-400 text-sm">
+                Time: {new Date(snapshot.timestamp).toLocaleTimeString()} • Mid: {formatPrice(snapshot.midPrice, symbolInfo.quoteAsset)}
+              </p>
+            )}
+            {highlighted && highlight && (
+              <p className="text-yellow-300 text-sm font-mono">
+                {highlight.side === 'bid' ? 'Bid' : 'Ask'} bucket {highlight.index + 1}:{' '}
+                {formatPrice(highlightLow, symbolInfo.quoteAsset, highlightDecimals)} – {formatPrice(highlightLow + selected.bucketSize, '', highlightDecimals)}
+                {' '}• {highlighted.quantity.toFixed(4)} {symbolInfo.baseAsset} (cum {highlighted.total.toFixed(4)})
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {onExport && (['csv', 'json'] as ExportFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => onExport(format)}
+                className="flex items-center gap-2 bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 py-2 rounded-lg text-sm transition-colors"
+              >
+                <Download size={14} />
+                {format.toUpperCase()}
+              </button>
+            ))}
+            <button 
+              onClick={onClose}
+              className="bg-slate-800 hover:bg-slate-700 text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              Close View
+            </button>
           </div>
-          <button 
-            onClick={onClose}
-            className="bg-slate-800 hover:bg-slate-700 text-white px-4 py-2 rounded-lg transition-colors"
-          >
-            Close View
-          </button>
         </div>
 
         <div className="flex-1 w-full min-h-0">
           <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={data} margin={{ top: 10, right: 0, left: 0, bottom: 0 }}>
+            <ComposedChart data={data} margin={{ top: 10, right: 0, left: 0, bottom: 0 }}>
               <defs>
                 <linearGradient id="colorBid" x1="0" y1="0" x2="0" y2="1">
                   <stop offset="5%" stopColor="#10b981" stopOpacity={0.8}/>
@@ -64,7 +194,7 @@ export const TwoDepthChart: React.FC<TwoDepthChartProps> = ({ snapshot, onClose
               <XAxis 
                 dataKey="price" 
                 stroke="#94a3b8" 
-                tickFormatter={(val) => val.toFixed(0)} 
+                tickFormatter={(val) => formatPrice(val, '')} 
                 domain={[minPrice, maxPrice]}
                 type="number"
               />
@@ -72,29 +202,131 @@ export const TwoDepthChart: React.FC<TwoDepthChartProps> = ({ snapshot, onClose
               <Tooltip 
                 contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#fff' }}
                 itemStyle={{ color: '#fff' }}
-                labelFormatter={(label) => `Price: $${Number(label).toFixed(2)}`}
-              />
-              <Area 
-                type="stepAfter" 
-                dataKey="bidTotal" 
-                stroke="#10b981" 
-                fillOpacity={1} 
-                fill="url(#colorBid)" 
-                name="Bid Volume"
-                isAnimationActive={false}
-              />
-              <Area 
-                type="step" 
-                dataKey="askTotal" 
-                stroke="#f43f5e" 
-                fillOpacity={1} 
-                fill="url(#colorAsk)" 
-                name="Ask Volume"
-                isAnimationActive={false}
+                labelFormatter={(label) => `Price: ${formatPrice(Number(label), symbolInfo.quoteAsset)}`}
+                formatter={venues ? (value, name, item) => [
+                  `${formatCompact(Number(item.payload[`raw:${String(item.dataKey)}`] ?? value))} ${symbolInfo.baseAsset}`,
+                  name,
+                ] : undefined}
               />
-            </AreaChart>
+              {/* Top of the stack first, so each venue's band is drawn over the ones stacked on it */}
+              {venues && (['bid', 'ask'] as BookSide[]).flatMap(side => [...venues].reverse().map(venue => (
+                <Area
+                  key={`${side}:${venue}`}
+                  type={side === 'bid' ? 'stepAfter' : 'step'}
+                  dataKey={`${side}:${venue}`}
+                  stroke={VENUE_COLORS[venue]}
+                  fill={VENUE_COLORS[venue]}
+                  fillOpacity={side === 'bid' ? 0.55 : 0.4}
+                  name={`${SOURCE_LABELS[venue]} ${side === 'bid' ? 'Bid' : 'Ask'}`}
+                  isAnimationActive={false}
+                  connectNulls
+                />
+              )))}
+              {!venues && (
+                <Area 
+                  type="stepAfter" 
+                  dataKey="bidTotal" 
+                  stroke="#10b981" 
+                  fillOpacity={1} 
+                  fill="url(#colorBid)" 
+                  name={`Bid Volume (${symbolInfo.baseAsset})`}
+                  isAnimationActive={false}
+                  connectNulls
+                />
+              )}
+              {!venues && (
+                <Area 
+                  type="step" 
+                  dataKey="askTotal" 
+                  stroke="#f43f5e" 
+                  fillOpacity={1} 
+                  fill="url(#colorAsk)" 
+                  name={`Ask Volume (${symbolInfo.baseAsset})`}
+                  isAnimationActive={false}
+                  connectNulls
+                />
+              )}
+              {before && (
+                <Line
+                  type="stepAfter"
+                  dataKey="prevBidTotal"
+                  stroke="#6ee7b7"
+                  strokeDasharray="4 3"
+                  dot={false}
+                  name={`Earlier Bid Volume (${symbolInfo.baseAsset})`}
+                  isAnimationActive={false}
+                  connectNulls
+                />
+              )}
+              {before && (
+                <Line
+                  type="step"
+                  dataKey="prevAskTotal"
+                  stroke="#fda4af"
+                  strokeDasharray="4 3"
+                  dot={false}
+                  name={`Earlier Ask Volume (${symbolInfo.baseAsset})`}
+                  isAnimationActive={false}
+                  connectNulls
+                />
+              )}
+              {highlighted && (
+                <ReferenceArea
+                  x1={highlightLow}
+                  x2={highlightLow + selected.bucketSize}
+                  fill="#facc15"
+                  fillOpacity={0.2}
+                  stroke="#facc15"
+                  strokeOpacity={0.7}
+                />
+              )}
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
+
+        {before && (
+          <div className="h-48 w-full mt-4 flex flex-col">
+            <h3 className="text-sm font-bold text-slate-300 mb-1">
+              Liquidity added / removed per bucket ({symbolInfo.baseAsset})
+            </h3>
+            {sameGrid ? (
+              <div className="flex-1 min-h-0">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={delta} margin={{ top: 5, right: 0, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                    <XAxis
+                      dataKey="price"
+                      stroke="#94a3b8"
+                      tickFormatter={(val) => formatPrice(Number(val), '', stepDecimals(snapshot.bucketSize))}
+                      interval="preserveStartEnd"
+                      minTickGap={40}
+                    />
+                    <YAxis stroke="#94a3b8" />
+                    <ReferenceLine y={0} stroke="#64748b" />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#fff' }}
+                      itemStyle={{ color: '#fff' }}
+                      labelFormatter={(label) => `Price: ${formatPrice(Number(label), symbolInfo.quoteAsset)}`}
+                      formatter={(value: number, _name, item) => [
+                        `${value > 0 ? '+' : ''}${value.toFixed(4)} ${symbolInfo.baseAsset}`,
+                        item.payload.side === 'bid' ? 'Bid change' : 'Ask change',
+                      ]}
+                    />
+                    <Bar dataKey="delta" isAnimationActive={false}>
+                      {delta.map((row, i) => (
+                        <Cell key={i} fill={row.delta >= 0 ? '#10b981' : '#f43f5e'} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <p className="text-slate-500 text-sm">
+                The two slices were aggregated with different bucket sizes, so their buckets can't be matched.
+              </p>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { VenueId } from '../types';
+import { CONSOLIDATED_VENUES, SOURCE_LABELS } from '../services/sources';
+
+// Segment colours of the consolidated book, per venue
+export const VENUE_COLORS: Record<VenueId, string> = {
+  binance: '#facc15',
+  coinbase: '#3b82f6',
+  kraken: '#a78bfa',
+  bybit: '#f97316',
+};
+
+interface VenueControlProps {
+  venues: VenueId[];
+  byVenue: boolean;
+  onVenuesChange: (venues: VenueId[]) => void;
+  onByVenueChange: (byVenue: boolean) => void;
+}
+
+/**
+ * Venues merged into the consolidated book, doubling as the colour legend of the per-venue segments.
+ */
+export const VenueControl: React.FC<VenueControlProps> = ({ venues, byVenue, onVenuesChange, onByVenueChange }) => {
+  const toggle = (id: VenueId) => {
+    const next = venues.includes(id)
+      ? venues.filter(v => v !== id)
+      : CONSOLIDATED_VENUES.filter(v => v === id || venues.includes(v));
+    if (next.length > 0) onVenuesChange(next);
+  };
+
+  return (
+    <div className="flex items-center gap-3 px-3 py-2 rounded-lg border border-slate-600 bg-slate-800 text-sm">
+      {CONSOLIDATED_VENUES.map(id => (
+        <button
+          key={id}
+          onClick={() => toggle(id)}
+          className={`flex items-center gap-1.5 transition-opacity ${venues.includes(id) ? 'text-white' : 'text-slate-500 opacity-60 hover:opacity-100'}`}
+          title={venues.includes(id) ? `Leave ${SOURCE_LABELS[id]} out of the book` : `Merge ${SOURCE_LABELS[id]} into the book`}
+        >
+          <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: VENUE_COLORS[id] }} />
+          {SOURCE_LABELS[id]}
+        </button>
+      ))}
+      <button
+        onClick={() => onByVenueChange(!byVenue)}
+        className={`flex items-center gap-1 pl-3 border-l border-slate-600 transition-colors ${byVenue ? 'text-blue-300' : 'text-slate-400 hover:text-white'}`}
+        title="Split every bar by the venues its liquidity rests on"
+      >
+        <Layers size={14} />
+        By venue
+      </button>
+    </div>
+  );
+};
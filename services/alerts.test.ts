@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { AlertRule, BookMetrics, OrderBookSnapshot } from '../types';
+import { createAlertEngine, depthWithin } from './alerts';
+import { parseSymbol } from './symbolService';
+
+const symbolInfo = parseSymbol('BTCUSDT');
+
+// Five $1 buckets a side around a $1000 mid: the buckets reach 0.5% of mid
+const snapshot = (metrics?: Partial<BookMetrics>): OrderBookSnapshot => ({
+  timestamp: 0,
+  midPrice: 1000,
+  bucketSize: 1,
+  bids: [1000, 999, 998, 997, 996].map((price, i) => ({ price, quantity: 1, total: i + 1 })),
+  asks: [1000, 1001, 1002, 1003, 1004].map((price, i) => ({ price, quantity: 1, total: i + 1 })),
+  metrics: metrics && {
+    bestBid: 999.5, bestAsk: 1000.5, spread: 1, spreadBps: 10, spreadTicks: 1, imbalance: 0,
+    microprice: 1000, weightedMid: 1000,
+    bidDepth: [2, 5, 40], askDepth: [2, 5, 40], bidNotional: [0, 0, 0], askNotional: [0, 0, 0],
+    ...metrics,
+  },
+});
+
+const rule = (bandPct: number, level: number): AlertRule => ({
+  id: 'r', kind: 'depth-thin', symbol: 'BTCUSDT', level, bandPct, side: 'both', enabled: true, sound: false, notify: false,
+});
+
+describe('depthWithin', () => {
+  it('reads the standard bands from the full-book metrics', () => {
+    // The 1% band reaches past the last bucket, but the metrics saw the whole book
+    expect(depthWithin(snapshot({}), 'bid', 1)).toBe(40);
+  });
+
+  it('sums other bands from the buckets only when they reach that far', () => {
+    expect(depthWithin(snapshot({}), 'ask', 0.3)).toBe(4);
+    expect(depthWithin(snapshot({}), 'ask', 2)).toBeNull();
+    expect(depthWithin(snapshot(), 'bid', 1)).toBeNull();
+  });
+});
+
+describe('depth-thin alerts', () => {
+  it('measures the full-book depth, not the visible buckets', () => {
+    // The buckets alone hold 10 within 1%, the whole book 80
+    const engine = createAlertEngine(() => [rule(1, 50)]);
+    expect(engine.process(snapshot({}), symbolInfo)).toEqual([]);
+
+    const thin = engine.process(snapshot({ bidDepth: [2, 5, 20], askDepth: [2, 5, 20] }), symbolInfo);
+    expect(thin).toHaveLength(1);
+    expect(thin[0].message).toContain('fell to 40');
+  });
+
+  it('stays quiet when the band runs past what the slice shows', () => {
+    const engine = createAlertEngine(() => [rule(2, 1000)]);
+    expect(engine.process(snapshot({}), symbolInfo)).toEqual([]);
+  });
+});
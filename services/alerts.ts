@@ -0,0 +1,220 @@
+import { AlertKind, AlertRule, AlertTrigger, BookSide, OrderBookSnapshot, OrderEntry, SymbolInfo } from '../types';
+import { formatCompact, formatPrice } from './symbolService';
+import { DEPTH_BANDS_PCT } from './bookMetrics';
+
+const STORAGE_KEY = 'orderbook-canyon.alerts';
+
+export const ALERT_KIND_LABELS: Record<AlertKind, string> = {
+  'mid-cross': 'Mid crosses',
+  'spread-wide': 'Spread above (bps)',
+  'depth-thin': 'Depth below',
+  'bucket-size': 'Bucket above',
+};
+
+/**
+ * A new rule for the pair, with a starting level that makes sense for the current book.
+ */
+export const createAlertRule = (kind: AlertKind, symbol: string, snapshot: OrderBookSnapshot | null): AlertRule => {
+  const mid = snapshot?.midPrice ?? 0;
+  const largestBucket = snapshot ? Math.max(...snapshot.bids.map(b => b.quantity), 0) : 0;
+  const level = kind === 'mid-cross' ? mid
+    : kind === 'spread-wide' ? 5
+    : kind === 'depth-thin' ? (snapshot ? (depthWithin(snapshot, 'bid', DEPTH_BANDS_PCT[0]) ?? 0) + (depthWithin(snapshot, 'ask', DEPTH_BANDS_PCT[0]) ?? 0) : 0) || 1
+    : largestBucket * 2 || 1;
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    kind,
+    symbol,
+    level: parseFloat(level.toPrecision(6)),
+    bandPct: DEPTH_BANDS_PCT[0],
+    side: 'both',
+    enabled: true,
+    sound: true,
+    notify: false,
+  };
+};
+
+/**
+ * Base quantity resting within `bandPct` of mid on one side.
+ * The standard bands come from the slice's metrics, which cover the whole raw book. Any other band is
+ * summed from the buckets, and only if they reach that far from mid: null when the band runs past them.
+ */
+export const depthWithin = (snapshot: OrderBookSnapshot, side: BookSide, bandPct: number): number | null => {
+  const band = DEPTH_BANDS_PCT.indexOf(bandPct);
+  if (snapshot.metrics && band >= 0) {
+    return (side === 'bid' ? snapshot.metrics.bidDepth : snapshot.metrics.askDepth)[band];
+  }
+
+  const entries = side === 'bid' ? snapshot.bids : snapshot.asks;
+  const last = entries[entries.length - 1];
+  if (!last) return null;
+  const mid = snapshot.midPrice;
+  const edge = mid * bandPct / 100;
+  const size = snapshot.bucketSize;
+  const reached = side === 'bid' ? last.price - size <= mid - edge : last.price + size >= mid + edge;
+  if (!reached) return null;
+
+  let total = 0;
+  for (const e of entries) {
+    if (side === 'bid' ? e.price < mid - edge : e.price > mid + edge) break; // Buckets run outwards from the touch
+    total += e.quantity;
+  }
+  return total;
+};
+
+const spreadBpsOf = (snapshot: OrderBookSnapshot): number | null => {
+  if (snapshot.metrics) return snapshot.metrics.spreadBps;
+  const bid = snapshot.bids[0]?.price;
+  const ask = snapshot.asks[0]?.price;
+  return bid && ask && snapshot.midPrice > 0 ? (ask - bid) / snapshot.midPrice * 10000 : null;
+};
+
+/**
+ * Evaluates alert rules snapshot by snapshot.
+ * Threshold rules fire when their condition starts to hold and re-arm once it clears,
+ * so a spread that stays wide alerts once rather than on every update.
+ */
+export const createAlertEngine = (getRules: () => AlertRule[]) => {
+  let prevMid: number | null = null;
+  const holding = new Set<string>(); // Rules whose condition held on the previous snapshot
+
+  const process = (snapshot: OrderBookSnapshot, symbolInfo: SymbolInfo): AlertTrigger[] => {
+    const triggers: AlertTrigger[] = [];
+    const mid = snapshot.midPrice;
+    const { baseAsset, quoteAsset } = symbolInfo;
+
+    // Fires on the rising edge of `condition` only
+    const edge = (rule: AlertRule, condition: boolean, trigger: () => Omit<AlertTrigger, 'ruleId' | 'kind' | 'timestamp'>) => {
+      if (!condition) {
+        holding.delete(rule.id);
+        return;
+      }
+      if (holding.has(rule.id)) return;
+      holding.add(rule.id);
+      triggers.push({ ruleId: rule.id, kind: rule.kind, timestamp: snapshot.timestamp, ...trigger() });
+    };
+
+    const sides = (rule: AlertRule): BookSide[] => rule.side === 'both' ? ['bid', 'ask'] : [rule.side];
+
+    for (const rule of getRules()) {
+      if (!rule.enabled || rule.symbol !== symbolInfo.symbol) continue;
+
+      if (rule.kind === 'mid-cross') {
+        if (prevMid === null || mid <= 0) continue;
+        const up = prevMid < rule.level && mid >= rule.level;
+        const down = prevMid > rule.level && mid <= rule.level;
+        if (up || down) {
+          triggers.push({
+            ruleId: rule.id,
+            kind: rule.kind,
+            timestamp: snapshot.timestamp,
+            message: `Mid crossed ${up ? 'above' : 'below'} ${formatPrice(rule.level, quoteAsset)}`,
+            price: rule.level,
+            side: null,
+          });
+        }
+      } else if (rule.kind === 'spread-wide') {
+        const bps = spreadBpsOf(snapshot);
+        if (bps === null) continue;
+        edge(rule, bps > rule.level, () => ({
+          message: `Spread widened to ${bps.toFixed(1)} bps (> ${rule.level})`,
+          price: mid,
+          side: null,
+        }));
+      } else if (rule.kind === 'depth-thin') {
+        // A side with no buckets is a resync, not thin liquidity
+        if (snapshot.bids.length === 0 || snapshot.asks.length === 0) continue;
+        const band = mid * rule.bandPct / 100;
+        const depths = sides(rule).map(side => depthWithin(snapshot, side, rule.bandPct));
+        // Depth the slice cannot see is unknown, not thin
+        if (depths.some(d => d === null)) continue;
+        const depth = depths.reduce((sum: number, d) => sum + d!, 0);
+        const side = rule.side === 'both' ? null : rule.side;
+        edge(rule, depth < rule.level, () => ({
+          message: `${side === 'bid' ? 'Bid depth' : side === 'ask' ? 'Ask depth' : 'Depth'} within ${rule.bandPct}% fell to ${formatCompact(depth)} ${baseAsset} (< ${formatCompact(rule.level)})`,
+          price: side === 'bid' ? mid - band : side === 'ask' ? mid + band : mid,
+          side,
+        }));
+      } else {
+        let largest: { side: BookSide; entry: OrderEntry } | null = null;
+        for (const side of sides(rule)) {
+          for (const entry of side === 'bid' ? snapshot.bids : snapshot.asks) {
+            if (!largest || entry.quantity > largest.entry.quantity) largest = { side, entry };
+          }
+        }
+        const found = largest;
+        edge(rule, found !== null && found.entry.quantity > rule.level, () => ({
+          message: `${found!.side === 'bid' ? 'Bid' : 'Ask'} bucket at ${formatPrice(found!.entry.price, quoteAsset)} holds ${formatCompact(found!.entry.quantity)} ${baseAsset}`,
+          price: found!.entry.price,
+          side: found!.side,
+        }));
+      }
+    }
+
+    if (mid > 0) prevMid = mid;
+    return triggers;
+  };
+
+  return {
+    process,
+    reset: () => {
+      prevMid = null;
+      holding.clear();
+    },
+  };
+};
+
+export const loadAlertRules = (): AlertRule[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    // localStorage can be unavailable, or hold something unreadable
+    return [];
+  }
+};
+
+export const saveAlertRules = (rules: AlertRule[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  } catch {
+    // Persisting is best effort
+  }
+};
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Short two-tone chime; needs no audio asset.
+ */
+export const playAlertSound = () => {
+  try {
+    audioContext ??= new AudioContext();
+    const ctx = audioContext;
+    const now = ctx.currentTime;
+    [880, 1320].forEach((frequency, i) => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.15, now + i * 0.15);
+      gain.gain.exponentialRampToValueAtTime(0.001, now + i * 0.15 + 0.3);
+      osc.connect(gain).connect(ctx.destination);
+      osc.start(now + i * 0.15);
+      osc.stop(now + i * 0.15 + 0.3);
+    });
+  } catch {
+    // Audio may be blocked until the page has had a user gesture
+  }
+};
+
+export const requestNotificationPermission = () => {
+  if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => {});
+  }
+};
+
+export const showAlertNotification = (trigger: AlertTrigger, symbolInfo: SymbolInfo) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  new Notification(`${symbolInfo.baseAsset}/${symbolInfo.quoteAsset} alert`, { body: trigger.message, tag: trigger.ruleId });
+};
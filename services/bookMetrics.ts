@@ -0,0 +1,155 @@
+import { BookMetrics, OrderBookSnapshot } from '../types';
+
+// Depth and move-cost bands, in percent from mid
+export const DEPTH_BANDS_PCT = [0.1, 0.5, 1];
+// Levels per side used for imbalance and weighted mid
+export const IMBALANCE_LEVELS = 10;
+
+type Level = [price: number, qty: number];
+
+/**
+ * Best `n` levels of one side, nearest to mid first. Single pass with insertion, so O(size * n).
+ */
+const topLevels = (levels: Iterable<Level>, n: number, isBid: boolean): Level[] => {
+  const top: Level[] = [];
+  const better = (a: number, b: number) => isBid ? a > b : a < b;
+
+  for (const level of levels) {
+    if (level[1] <= 0) continue;
+    if (top.length === n && !better(level[0], top[n - 1][0])) continue;
+
+    let i = top.length < n ? top.length : n - 1;
+    while (i > 0 && better(level[0], top[i - 1][0])) {
+      top[i] = top[i - 1];
+      i--;
+    }
+    top[i] = level;
+  }
+  return top;
+};
+
+const sumQty = (levels: Level[]) => levels.reduce((acc, l) => acc + l[1], 0);
+
+/**
+ * Microstructure metrics from one side-by-side view of the book, as [price, size] levels of the raw book
+ * (every live venue, and the simulation, which feeds a raw book too; see sources/mock.ts).
+ * Returns null while either side is empty.
+ */
+export const computeBookMetrics = (
+  bids: Iterable<Level>,
+  asks: Iterable<Level>,
+  tickSize: number | null
+): BookMetrics | null => {
+  const topBids = topLevels(bids, IMBALANCE_LEVELS, true);
+  const topAsks = topLevels(asks, IMBALANCE_LEVELS, false);
+  if (topBids.length === 0 || topAsks.length === 0) return null;
+
+  const [bestBid, bestBidQty] = topBids[0];
+  const [bestAsk, bestAskQty] = topAsks[0];
+  const mid = (bestBid + bestAsk) / 2;
+  const spread = bestAsk - bestBid;
+
+  const bidTopQty = sumQty(topBids);
+  const askTopQty = sumQty(topAsks);
+
+  // Depth and notional within each band; walking the book that far moves the price by the band
+  const bidDepth = DEPTH_BANDS_PCT.map(() => 0);
+  const askDepth = DEPTH_BANDS_PCT.map(() => 0);
+  const bidNotional = DEPTH_BANDS_PCT.map(() => 0);
+  const askNotional = DEPTH_BANDS_PCT.map(() => 0);
+
+  const accumulate = (levels: Iterable<Level>, depth: number[], notional: number[]) => {
+    for (const [price, qty] of levels) {
+      const distancePct = Math.abs(price - mid) / mid * 100;
+      DEPTH_BANDS_PCT.forEach((band, i) => {
+        if (distancePct <= band) {
+          depth[i] += qty;
+          notional[i] += qty * price;
+        }
+      });
+    }
+  };
+  accumulate(bids, bidDepth, bidNotional);
+  accumulate(asks, askDepth, askNotional);
+
+  return {
+    bestBid,
+    bestAsk,
+    spread,
+    spreadBps: spread / mid * 10000,
+    spreadTicks: tickSize ? Math.round(spread / tickSize) : null,
+    imbalance: (bidTopQty - askTopQty) / (bidTopQty + askTopQty),
+    // Level-1 sizes pull the fair price toward the thinner side
+    microprice: (bestBid * bestAskQty + bestAsk * bestBidQty) / (bestBidQty + bestAskQty),
+    weightedMid: (bestBid * askTopQty + bestAsk * bidTopQty) / (bidTopQty + askTopQty),
+    bidDepth,
+    askDepth,
+    bidNotional,
+    askNotional,
+  };
+};
+
+/**
+ * Best bid and ask of a slice. Taken from its metrics when present; otherwise from bucket 0's edge
+ * nearest the mid, which is within one bucket of the touch (see aggregateOrders in marketService.ts).
+ */
+export const touchPrices = (snapshot: OrderBookSnapshot): { bestBid: number; bestAsk: number } => ({
+  bestBid: snapshot.metrics?.bestBid ?? snapshot.bids[0]?.price ?? snapshot.midPrice,
+  bestAsk: snapshot.metrics?.bestAsk ?? snapshot.asks[0]?.price ?? snapshot.midPrice,
+});
+
+/**
+ * Volume-weighted average trade price up to and including each slice (oldest first),
+ * or null until the first trade.
+ */
+export const runningVwap = (snapshots: OrderBookSnapshot[]): (number | null)[] => {
+  let notional = 0;
+  let volume = 0;
+  return snapshots.map(snapshot => {
+    for (const trade of snapshot.trades ?? []) {
+      notional += trade.price * trade.quantity;
+      volume += trade.quantity;
+    }
+    return volume > 0 ? notional / volume : null;
+  });
+};
+
+// Flat numeric layout of BookMetrics, for typed-array storage in the history buffer
+const BANDS = DEPTH_BANDS_PCT.length;
+export const METRICS_WIDTH = 8 + BANDS * 4;
+
+export const encodeMetrics = (m: BookMetrics, out: Float64Array, offset: number) => {
+  out[offset] = m.bestBid;
+  out[offset + 1] = m.bestAsk;
+  out[offset + 2] = m.spread;
+  out[offset + 3] = m.spreadBps;
+  out[offset + 4] = m.spreadTicks ?? NaN;
+  out[offset + 5] = m.imbalance;
+  out[offset + 6] = m.microprice;
+  out[offset + 7] = m.weightedMid;
+  for (let i = 0; i < BANDS; i++) {
+    out[offset + 8 + i] = m.bidDepth[i];
+    out[offset + 8 + BANDS + i] = m.askDepth[i];
+    out[offset + 8 + BANDS * 2 + i] = m.bidNotional[i];
+    out[offset + 8 + BANDS * 3 + i] = m.askNotional[i];
+  }
+};
+
+export const decodeMetrics = (data: Float64Array, offset: number): BookMetrics => {
+  const band = (start: number) => Array.from(data.subarray(offset + start, offset + start + BANDS));
+  const ticks = data[offset + 4];
+  return {
+    bestBid: data[offset],
+    bestAsk: data[offset + 1],
+    spread: data[offset + 2],
+    spreadBps: data[offset + 3],
+    spreadTicks: Number.isNaN(ticks) ? null : ticks,
+    imbalance: data[offset + 5],
+    microprice: data[offset + 6],
+    weightedMid: data[offset + 7],
+    bidDepth: band(8),
+    askDepth: band(8 + BANDS),
+    bidNotional: band(8 + BANDS * 2),
+    askNotional: band(8 + BANDS * 3),
+  };
+};
@@ -0,0 +1,138 @@
+import { Camera, PerspectiveCamera, Scene, Vector2, WebGLRenderer } from 'three';
+import { CaptureOverlay, CaptureSize } from '../types';
+
+// Preferred first; browsers differ in which WebM codecs MediaRecorder supports
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const CAPTURE_FPS = 30;
+
+const drawOverlay = (ctx: CanvasRenderingContext2D, size: CaptureSize, overlay: CaptureOverlay) => {
+  // Sized relative to 1080p so the caption looks the same at every resolution
+  const scale = size.height / 1080;
+  const pad = 32 * scale;
+  const titleSize = 36 * scale;
+  const lineSize = 22 * scale;
+  const lineGap = 8 * scale;
+
+  ctx.save();
+  ctx.textBaseline = 'top';
+  ctx.font = `bold ${titleSize}px sans-serif`;
+  const widths = [ctx.measureText(overlay.title).width];
+  ctx.font = `${lineSize}px monospace`;
+  overlay.lines.forEach(line => widths.push(ctx.measureText(line).width));
+
+  const boxWidth = Math.max(...widths) + pad * 2;
+  const boxHeight = titleSize + overlay.lines.length * (lineSize + lineGap) + pad * 1.5;
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.7)';
+  ctx.fillRect(pad, size.height - boxHeight - pad, boxWidth, boxHeight);
+
+  let y = size.height - boxHeight - pad + pad * 0.75;
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `bold ${titleSize}px sans-serif`;
+  ctx.fillText(overlay.title, pad * 2, y);
+  y += titleSize + lineGap;
+
+  ctx.fillStyle = '#94a3b8';
+  ctx.font = `${lineSize}px monospace`;
+  for (const line of overlay.lines) {
+    ctx.fillText(line, pad * 2, y);
+    y += lineSize + lineGap;
+  }
+  ctx.restore();
+};
+
+/**
+ * Renders one frame of the scene at `size` (the on-screen size when null) and returns it as a PNG.
+ * The renderer is resized for that single frame only; the next animation frame draws at the
+ * normal size again.
+ */
+export const captureScenePng = (
+  gl: WebGLRenderer,
+  scene: Scene,
+  camera: Camera,
+  size: CaptureSize | null,
+  overlay?: CaptureOverlay
+): Promise<Blob> => {
+  const previousSize = gl.getSize(new Vector2());
+  const previousRatio = gl.getPixelRatio();
+  const limit = gl.capabilities.maxTextureSize;
+  const target: CaptureSize = size
+    ? { width: Math.min(size.width, limit), height: Math.min(size.height, limit) }
+    : { width: gl.domElement.width, height: gl.domElement.height };
+
+  const perspective = camera instanceof PerspectiveCamera ? camera : null;
+  const previousAspect = perspective?.aspect ?? 1;
+
+  const out = document.createElement('canvas');
+  out.width = target.width;
+  out.height = target.height;
+  const ctx = out.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('2D canvas is not available'));
+
+  try {
+    gl.setPixelRatio(1);
+    gl.setSize(target.width, target.height, false);
+    if (perspective) {
+      perspective.aspect = target.width / target.height;
+      perspective.updateProjectionMatrix();
+    }
+    gl.render(scene, camera);
+    // Copied in the same task as the render, so no preserveDrawingBuffer is needed
+    ctx.drawImage(gl.domElement, 0, 0);
+  } finally {
+    gl.setPixelRatio(previousRatio);
+    gl.setSize(previousSize.x, previousSize.y, false);
+    if (perspective) {
+      perspective.aspect = previousAspect;
+      perspective.updateProjectionMatrix();
+    }
+  }
+
+  if (overlay) drawOverlay(ctx, target, overlay);
+
+  return new Promise((resolve, reject) => {
+    out.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+  });
+};
+
+export interface CanvasRecording {
+  // Ends the clip; resolves with the WebM file
+  stop: () => Promise<Blob>;
+}
+
+/**
+ * Records what a canvas draws (the canyon, whether live or replaying) to WebM.
+ * Returns null where MediaRecorder cannot produce WebM.
+ */
+export const startCanvasRecording = (canvas: HTMLCanvasElement, fps = CAPTURE_FPS): CanvasRecording | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  const mimeType = WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) return null;
+
+  const stream = canvas.captureStream(fps);
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const done = new Promise<Blob>(resolve => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      resolve(new Blob(chunks, { type: 'video/webm' }));
+    };
+  });
+  // Flush a chunk every second so a long clip is not held in one buffer
+  recorder.start(1000);
+
+  return {
+    stop: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+      return done;
+    },
+  };
+};
+
+export const captureFileName = (symbol: string, extension: string, timestamp = Date.now()): string => {
+  const stamp = new Date(timestamp).toISOString().replace(/[:.]/g, '-');
+  return `${symbol}-canyon-${stamp}${extension}`;
+};
@@ -0,0 +1,211 @@
+import { HeightMetric } from '../types';
+import { columnHeightValues } from './heightScale';
+import { SliceColumns } from './historyBuffer';
+
+/**
+ * One level of detail of the deep canyon. Slices aged [startAge, endAge) (0 = front slice) are drawn
+ * `sliceStride` slices and `bucketStride` buckets to a bar, `zSpacing` world units per slice.
+ */
+export interface LodTier {
+  startAge: number;
+  endAge: number;
+  sliceStride: number;
+  bucketStride: number;
+  zSpacing: number;
+}
+
+// Full detail for the newest 100 slices (as the instanced canyon), then coarser and more compressed further back.
+// At the 5 Hz tick the tiers reach back 20s, 2 min, 10 min and 40 min.
+export const DEFAULT_LOD_TIERS: LodTier[] = [
+  { startAge: 0, endAge: 100, sliceStride: 1, bucketStride: 1, zSpacing: 0.8 },
+  { startAge: 100, endAge: 600, sliceStride: 2, bucketStride: 2, zSpacing: 0.12 },
+  { startAge: 600, endAge: 3000, sliceStride: 8, bucketStride: 4, zSpacing: 0.025 },
+  { startAge: 3000, endAge: 12000, sliceStride: 32, bucketStride: 6, zSpacing: 0.005 },
+];
+
+// Floats before the bar values in each ring row: the price of the first bid and ask bucket, and the bar width
+// in price (0 marks an empty row). Bars are placed from the first bucket's price, like the instanced canyon's.
+export const RING_ROW_HEADER = 3;
+
+/**
+ * Merged slices of one tier in a ring, laid out as a float texture:
+ * one row per merged slice, [bidPrice, askPrice, barSize, bid bars..., ask bars..., padding].
+ */
+export interface RingTier {
+  readonly tier: LodTier;
+  readonly bars: number;   // Bars per side
+  readonly width: number;  // Floats per row
+  readonly rows: number;   // Ring capacity in merged slices
+  readonly zStart: number; // World depth of the tier's front edge; tiers are laid out back to back
+  readonly data: Float32Array;
+  readonly rowMax: Float32Array; // Largest bar value per row, for the height auto-scale
+  head: number;    // Physical row of the newest merged slice
+  headAge: number; // Slices pushed since the newest merged slice was completed
+  written: number; // Merged slices written, capped at `rows`
+  readonly dirty: number[]; // Physical rows written since the last upload
+}
+
+export interface CanyonRing {
+  readonly tiers: RingTier[];
+  readonly bucketsPerSide: number;
+  readonly metric: HeightMetric;
+  readonly maxAge: number; // Slices drawn, the last tier's endAge
+  // Takes the buffer's columns directly, so refilling thousands of slices builds no entries
+  push: (slice: SliceColumns) => void;
+  clear: () => void;
+  // Physical row of the merged slice `r` rows behind a tier's newest
+  physicalRow: (ring: RingTier, r: number) => number;
+  // First row (behind the newest) a tier draws; slices nearer the front belong to the previous tier
+  firstRow: (ring: RingTier) => number;
+  // Whether row `r` of a tier holds data and falls inside the tier's age range
+  isDrawn: (ring: RingTier, r: number) => boolean;
+  // Largest bar value among the rows currently drawn
+  visibleMax: () => number;
+  // World depth behind the front that the last tier ends at
+  readonly depth: number;
+}
+
+// Adds `stride` adjacent buckets per bar into `out`: level quantities are averaged so merged bars keep the
+// front's scale, running totals keep their outer edge
+const mergeBars = (values: ArrayLike<number>, buckets: number, stride: number, metric: HeightMetric, out: Float64Array, offset: number) => {
+  const bars = Math.ceil(buckets / stride);
+  for (let b = 0; b < bars; b++) {
+    const first = b * stride;
+    const last = Math.min(buckets, first + stride) - 1;
+    if (metric === 'level') {
+      let sum = 0;
+      for (let i = first; i <= last; i++) sum += values[i] ?? 0;
+      out[offset + b] += sum / (last - first + 1);
+    } else {
+      out[offset + b] += values[last] ?? 0;
+    }
+  }
+};
+
+/**
+ * CPU side of the deep canyon: pushes each slice into every tier, averaging `sliceStride` slices per row.
+ * Rows are only ever appended, so each tick uploads one texture row per tier at most.
+ */
+export const createCanyonRing = (
+  bucketsPerSide: number,
+  metric: HeightMetric,
+  tiers: LodTier[] = DEFAULT_LOD_TIERS
+): CanyonRing => {
+  let zStart = 0;
+  const rings: RingTier[] = tiers.map(tier => {
+    const bars = Math.ceil(bucketsPerSide / tier.bucketStride);
+    // Padded to whole RGBA texels: partial texture uploads work in four-channel texels
+    const width = Math.ceil((RING_ROW_HEADER + bars * 2) / 4) * 4;
+    const rows = Math.ceil(tier.endAge / tier.sliceStride) + 2;
+    const ring: RingTier = {
+      tier,
+      bars,
+      width,
+      rows,
+      zStart,
+      data: new Float32Array(width * rows),
+      rowMax: new Float32Array(rows),
+      head: rows - 1,
+      headAge: 0,
+      written: 0,
+      dirty: [],
+    };
+    zStart += (tier.endAge - tier.startAge) * tier.zSpacing;
+    return ring;
+  });
+
+  // Sums of the slices of the row each tier is currently merging
+  const pending = rings.map(ring => ({ sums: new Float64Array(ring.width), count: 0 }));
+  // Bar values of the slice being pushed, reused across pushes
+  const bids = new Float64Array(bucketsPerSide);
+  const asks = new Float64Array(bucketsPerSide);
+
+  const physicalRow = (ring: RingTier, r: number) => ((ring.head - r) % ring.rows + ring.rows) % ring.rows;
+
+  const firstRow = (ring: RingTier) => Math.max(0, Math.floor((ring.tier.startAge - ring.headAge) / ring.tier.sliceStride));
+
+  // Rows straddling a tier boundary are drawn by both tiers, so there is no gap between them
+  const isDrawn = (ring: RingTier, r: number) => {
+    if (r >= ring.written) return false;
+    const age = ring.headAge + r * ring.tier.sliceStride;
+    return age < ring.tier.endAge && age + ring.tier.sliceStride > ring.tier.startAge;
+  };
+
+  const push = (slice: SliceColumns) => {
+    columnHeightValues(slice.bids, slice.bidPrice, -slice.bucketSize, metric, bids);
+    columnHeightValues(slice.asks, slice.askPrice, slice.bucketSize, metric, asks);
+
+    rings.forEach((ring, t) => {
+      const { sliceStride, bucketStride } = ring.tier;
+      const acc = pending[t];
+      acc.sums[0] += slice.bidPrice;
+      acc.sums[1] += slice.askPrice;
+      acc.sums[2] += slice.bucketSize * bucketStride;
+      mergeBars(bids, bucketsPerSide, bucketStride, metric, acc.sums, RING_ROW_HEADER);
+      mergeBars(asks, bucketsPerSide, bucketStride, metric, acc.sums, RING_ROW_HEADER + ring.bars);
+      acc.count++;
+      ring.headAge++;
+      if (acc.count < sliceStride) return;
+
+      ring.head = (ring.head + 1) % ring.rows;
+      ring.headAge = 0;
+      ring.written = Math.min(ring.rows, ring.written + 1);
+      const base = ring.head * ring.width;
+      let max = 0;
+      for (let i = 0; i < ring.width; i++) {
+        const value = acc.sums[i] / acc.count;
+        ring.data[base + i] = value;
+        if (i >= RING_ROW_HEADER && value > max) max = value;
+      }
+      ring.rowMax[ring.head] = max;
+      ring.dirty.push(ring.head);
+      acc.sums.fill(0);
+      acc.count = 0;
+    });
+  };
+
+  const clear = () => {
+    rings.forEach((ring, t) => {
+      ring.data.fill(0);
+      ring.rowMax.fill(0);
+      ring.head = ring.rows - 1;
+      ring.headAge = 0;
+      ring.written = 0;
+      ring.dirty.length = 0;
+      pending[t].sums.fill(0);
+      pending[t].count = 0;
+    });
+  };
+
+  const visibleMax = () => {
+    let max = 0;
+    for (const ring of rings) {
+      for (let r = firstRow(ring); isDrawn(ring, r); r++) {
+        const value = ring.rowMax[physicalRow(ring, r)];
+        if (value > max) max = value;
+      }
+    }
+    return max;
+  };
+
+  return {
+    tiers: rings,
+    bucketsPerSide,
+    metric,
+    maxAge: tiers[tiers.length - 1].endAge,
+    push,
+    clear,
+    physicalRow,
+    firstRow,
+    isDrawn,
+    visibleMax,
+    depth: zStart,
+  };
+};
+
+// World z of the centre of row `r` of a tier: merged slices sit at the middle of the ages they cover
+export const rowCenterZ = (ring: RingTier, r: number) => {
+  const { sliceStride, startAge, zSpacing } = ring.tier;
+  const age = ring.headAge + r * sliceStride + (sliceStride - 1) / 2;
+  return -(ring.zStart + (age - startAge) * zSpacing);
+};
@@ -0,0 +1,88 @@
+import { HeightConfig, HeightMetric, HeightScaleMode, OrderEntry } from '../types';
+import { niceStep } from './marketService';
+
+export const DEFAULT_HEIGHT_CONFIG: HeightConfig = { metric: 'cumulative', scale: 'linear' };
+
+// Log scale shows this many decades below the largest visible value
+export const LOG_DECADES = 3;
+const LINEAR_TICKS = 5;
+
+/**
+ * Bar values for one side of a snapshot, index-aligned with `entries` (nearest mid first).
+ */
+export const sideHeightValues = (entries: OrderEntry[], metric: HeightMetric): number[] => {
+  if (metric === 'cumulative') return entries.map(e => e.total);
+  if (metric === 'level') return entries.map(e => e.quantity);
+
+  let notional = 0;
+  return entries.map(e => {
+    notional += e.price * e.quantity;
+    return notional;
+  });
+};
+
+/**
+ * sideHeightValues over a side's bare quantities (bucket i priced at `firstPrice + i * priceStep`), written into `out`.
+ * Allocates nothing, for readers that go through thousands of stored slices at once.
+ */
+export const columnHeightValues = (
+  quantities: ArrayLike<number>,
+  firstPrice: number,
+  priceStep: number,
+  metric: HeightMetric,
+  out: Float64Array
+): void => {
+  let running = 0;
+  for (let i = 0; i < quantities.length; i++) {
+    const quantity = quantities[i];
+    if (metric === 'level') {
+      out[i] = quantity;
+      continue;
+    }
+    running += metric === 'cumulative' ? quantity : (firstPrice + i * priceStep) * quantity;
+    out[i] = running;
+  }
+};
+
+export interface HeightScale {
+  // Maps a value to [0, 1] of the axis; values above the maximum clamp to 1
+  toUnit: (value: number) => number;
+  // Round values to label the axis with, ascending and within (0, max]
+  ticks: () => number[];
+}
+
+/**
+ * Y mapping auto-scaled to the largest visible value.
+ */
+export const createHeightScale = (mode: HeightScaleMode, maxValue: number): HeightScale => {
+  const max = maxValue > 0 ? maxValue : 1;
+
+  if (mode === 'log') {
+    const floor = max / Math.pow(10, LOG_DECADES);
+    const span = Math.log10(1 + max / floor);
+    return {
+      toUnit: (value) => Math.min(1, Math.log10(1 + Math.max(0, value) / floor) / span),
+      ticks: () => {
+        const ticks: number[] = [];
+        for (let decade = Math.pow(10, Math.ceil(Math.log10(floor))); decade <= max; decade *= 10) {
+          ticks.push(decade);
+        }
+        return ticks;
+      },
+    };
+  }
+
+  const toUnit = mode === 'sqrt'
+    ? (value: number) => Math.min(1, Math.sqrt(Math.max(0, value) / max))
+    : (value: number) => Math.min(1, Math.max(0, value) / max);
+
+  return {
+    toUnit,
+    ticks: () => {
+      const step = niceStep(max / LINEAR_TICKS);
+      const ticks: number[] = [];
+      for (let i = 1; i * step <= max; i++) ticks.push(i * step);
+      return ticks;
+    },
+  };
+};
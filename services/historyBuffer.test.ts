@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { HeightMetric, OrderBookSnapshot, OrderEntry } from '../types';
+import { createHistoryBuffer } from './historyBuffer';
+import { columnHeightValues, sideHeightValues } from './heightScale';
+
+const side = (quantities: number[], first: number, step: number): OrderEntry[] => {
+  let total = 0;
+  return quantities.map((quantity, i) => {
+    total += quantity;
+    return { price: first + i * step, quantity, total };
+  });
+};
+
+describe('createHistoryBuffer', () => {
+  it('round-trips venue breakdowns, keeping only the used depth of each venue', () => {
+    const buffer = createHistoryBuffer(4, 4);
+    const snapshot: OrderBookSnapshot = {
+      timestamp: 1000,
+      midPrice: 100,
+      bucketSize: 1,
+      bids: side([3, 1, 0, 2], 100, -1),
+      asks: side([1, 0, 0, 0], 100, 1),
+      breakdown: {
+        venues: ['binance', 'kraken'],
+        bids: [[1, 1, 0, 2], [2, 0, 0, 0]],
+        asks: [[0, 0, 0, 0], [1, 0, 0, 0]],
+      },
+    };
+    buffer.push(snapshot);
+    buffer.push({ ...snapshot, timestamp: 1200, breakdown: undefined });
+
+    expect(buffer.get(0).breakdown).toEqual(snapshot.breakdown);
+    expect(buffer.get(1).breakdown).toBeUndefined();
+  });
+
+  it('drops a slot\'s breakdown once the slot is overwritten', () => {
+    const buffer = createHistoryBuffer(1, 2);
+    const base: OrderBookSnapshot = { timestamp: 0, midPrice: 10, bucketSize: 1, bids: side([1, 1], 10, -1), asks: side([1, 1], 10, 1) };
+    buffer.push({ ...base, breakdown: { venues: ['bybit'], bids: [[1, 1]], asks: [[1, 1]] } });
+    buffer.push({ ...base, timestamp: 200 });
+    expect(buffer.get(1).breakdown).toBeUndefined();
+  });
+
+  it.each<HeightMetric>(['level', 'cumulative', 'notional'])('gives the same %s bar values from its columns as from built entries', (metric) => {
+    const buffer = createHistoryBuffer(2, 3);
+    buffer.push({ timestamp: 0, midPrice: 100.5, bucketSize: 0.5, bids: side([1.5, 0, 2.25], 100.5, -0.5), asks: side([0.75, 3, 1], 100.5, 0.5) });
+
+    const slice = buffer.columns(0);
+    const snapshot = buffer.get(0);
+    const bids = new Float64Array(3);
+    const asks = new Float64Array(3);
+    columnHeightValues(slice.bids, slice.bidPrice, -slice.bucketSize, metric, bids);
+    columnHeightValues(slice.asks, slice.askPrice, slice.bucketSize, metric, asks);
+    expect(Array.from(bids)).toEqual(sideHeightValues(snapshot.bids, metric));
+    expect(Array.from(asks)).toEqual(sideHeightValues(snapshot.asks, metric));
+  });
+});
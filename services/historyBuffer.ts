@@ -0,0 +1,208 @@
+import { OrderBookSnapshot, OrderEntry, Trade, VenueBreakdown, VenueId } from '../types';
+import { METRICS_WIDTH, decodeMetrics, encodeMetrics } from './bookMetrics';
+
+/**
+ * Fixed-capacity ring buffer of snapshots, stored column-wise in typed arrays.
+ * Only per-bucket quantities are kept; bucket prices are rebuilt from each side's first bucket and the bucket size,
+ * and cumulative totals from the quantities. An hour of 5 Hz slices at 200 buckets per side is ~30 MB.
+ * Trades are sparse, so each slot just keeps its slice's trade array.
+ * Metrics are flattened into a typed array as well (NaN bestBid marks a slice without metrics).
+ * Per-venue quantities of consolidated slices are kept per slot, for the venues present and only out to each
+ * venue's deepest non-empty bucket: at most 1.6 KB per venue and slice (~29 MB per venue for a full hour),
+ * usually far less since a venue's loaded depth rarely spans every bucket. Single-venue slices add nothing.
+ *
+ * Slices are addressed by a monotonically increasing sequence number (the n-th push),
+ * so positions stay stable while older slices are overwritten.
+ */
+/**
+ * One slice's stored columns, without building its entries: for bulk readers such as the canyon ring.
+ * `bids` and `asks` are views into the buffer, valid until the slot is overwritten.
+ */
+export interface SliceColumns {
+  midPrice: number;
+  bucketSize: number;
+  // Price of each side's first bucket
+  bidPrice: number;
+  askPrice: number;
+  bids: Float32Array;
+  asks: Float32Array;
+}
+
+export interface HistoryBuffer {
+  readonly capacity: number;
+  readonly bucketsPerSide: number;
+  push: (snapshot: OrderBookSnapshot) => void;
+  clear: () => void;
+  // Sequence number of the oldest retained slice (equal to `end` when empty)
+  start: () => number;
+  // One past the newest slice's sequence number
+  end: () => number;
+  timestampAt: (seq: number) => number;
+  get: (seq: number) => OrderBookSnapshot;
+  columns: (seq: number) => SliceColumns;
+  // Up to `count` consecutive slices ending at `lastSeq` (inclusive), oldest first
+  window: (lastSeq: number, count: number) => OrderBookSnapshot[];
+}
+
+// Per-venue quantities of one slot: venue v's bids, then its asks, each cut after its last non-empty bucket
+interface StoredBreakdown {
+  venues: VenueId[];
+  lengths: Uint16Array; // [side][venue] buckets kept
+  quantities: Float32Array;
+}
+
+// Number of buckets up to and including the last non-empty one
+const usedLength = (quantities: number[]) => {
+  let length = quantities.length;
+  while (length > 0 && !quantities[length - 1]) length--;
+  return length;
+};
+
+export const createHistoryBuffer = (capacity: number, bucketsPerSide: number): HistoryBuffer => {
+  const timestamps = new Float64Array(capacity);
+  const midPrices = new Float64Array(capacity);
+  const bucketSizes = new Float64Array(capacity);
+  const bidAnchors = new Float64Array(capacity); // Price of bucket 0 per side
+  const askAnchors = new Float64Array(capacity);
+  const bidQty = new Float32Array(capacity * bucketsPerSide);
+  const askQty = new Float32Array(capacity * bucketsPerSide);
+  const trades: (Trade[] | undefined)[] = new Array(capacity);
+  const metrics = new Float64Array(capacity * METRICS_WIDTH);
+  const breakdowns: (StoredBreakdown | undefined)[] = new Array(capacity);
+
+  let next = 0; // Sequence number of the next push
+
+  const start = () => Math.max(0, next - capacity);
+
+  const push = (snapshot: OrderBookSnapshot) => {
+    const slot = next % capacity;
+    timestamps[slot] = snapshot.timestamp;
+    midPrices[slot] = snapshot.midPrice;
+    bucketSizes[slot] = snapshot.bucketSize;
+    bidAnchors[slot] = snapshot.bids[0]?.price ?? snapshot.midPrice;
+    askAnchors[slot] = snapshot.asks[0]?.price ?? snapshot.midPrice;
+    trades[slot] = snapshot.trades;
+    if (snapshot.metrics) encodeMetrics(snapshot.metrics, metrics, slot * METRICS_WIDTH);
+    else metrics[slot * METRICS_WIDTH] = NaN;
+
+    const offset = slot * bucketsPerSide;
+    for (let i = 0; i < bucketsPerSide; i++) {
+      bidQty[offset + i] = snapshot.bids[i]?.quantity ?? 0;
+      askQty[offset + i] = snapshot.asks[i]?.quantity ?? 0;
+    }
+
+    const breakdown = snapshot.breakdown;
+    breakdowns[slot] = undefined;
+    if (breakdown) {
+      const columns = [...breakdown.bids, ...breakdown.asks].map(q => q.slice(0, bucketsPerSide));
+      const lengths = Uint16Array.from(columns, usedLength);
+      const quantities = new Float32Array(lengths.reduce((sum, length) => sum + length, 0));
+      let at = 0;
+      columns.forEach((column, c) => {
+        quantities.set(column.slice(0, lengths[c]), at);
+        at += lengths[c];
+      });
+      breakdowns[slot] = { venues: breakdown.venues.slice(), lengths, quantities };
+    }
+    next++;
+  };
+
+  const assertRetained = (seq: number) => {
+    if (seq < start() || seq >= next) throw new RangeError(`Slice ${seq} is not in the history buffer`);
+  };
+
+  const readSide = (quantities: Float32Array, offset: number, anchor: number, bucketSize: number, isBid: boolean) => {
+    const entries: OrderEntry[] = [];
+    let total = 0;
+    for (let i = 0; i < bucketsPerSide; i++) {
+      const quantity = quantities[offset + i];
+      total += quantity;
+      entries.push({
+        price: isBid ? anchor - i * bucketSize : anchor + i * bucketSize,
+        quantity,
+        total,
+      });
+    }
+    return entries;
+  };
+
+  const readBreakdown = (slot: number): VenueBreakdown | undefined => {
+    const stored = breakdowns[slot];
+    if (!stored) return undefined;
+    const { venues, lengths, quantities } = stored;
+    // Columns are unpacked in order, each padded back out to the full depth
+    let at = 0;
+    const columns = Array.from(lengths, length => {
+      const column = new Array<number>(bucketsPerSide).fill(0);
+      for (let i = 0; i < length; i++) column[i] = quantities[at + i];
+      at += length;
+      return column;
+    });
+    return {
+      venues: venues.slice(),
+      bids: columns.slice(0, venues.length),
+      asks: columns.slice(venues.length),
+    };
+  };
+
+  const get = (seq: number): OrderBookSnapshot => {
+    assertRetained(seq);
+    const slot = seq % capacity;
+    const midPrice = midPrices[slot];
+    const bucketSize = bucketSizes[slot];
+    const offset = slot * bucketsPerSide;
+
+    return {
+      timestamp: timestamps[slot],
+      midPrice,
+      bucketSize,
+      bids: readSide(bidQty, offset, bidAnchors[slot], bucketSize, true),
+      asks: readSide(askQty, offset, askAnchors[slot], bucketSize, false),
+      trades: trades[slot],
+      metrics: Number.isNaN(metrics[slot * METRICS_WIDTH]) ? undefined : decodeMetrics(metrics, slot * METRICS_WIDTH),
+      breakdown: readBreakdown(slot),
+    };
+  };
+
+  const columns = (seq: number): SliceColumns => {
+    assertRetained(seq);
+    const slot = seq % capacity;
+    const offset = slot * bucketsPerSide;
+    return {
+      midPrice: midPrices[slot],
+      bucketSize: bucketSizes[slot],
+      bidPrice: bidAnchors[slot],
+      askPrice: askAnchors[slot],
+      bids: bidQty.subarray(offset, offset + bucketsPerSide),
+      asks: askQty.subarray(offset, offset + bucketsPerSide),
+    };
+  };
+
+  const window = (lastSeq: number, count: number): OrderBookSnapshot[] => {
+    const last = Math.min(lastSeq, next - 1);
+    const first = Math.max(start(), last - count + 1);
+    const result: OrderBookSnapshot[] = [];
+    for (let seq = first; seq <= last; seq++) result.push(get(seq));
+    return result;
+  };
+
+  return {
+    capacity,
+    bucketsPerSide,
+    push,
+    clear: () => {
+      next = 0;
+      trades.fill(undefined);
+      breakdowns.fill(undefined);
+    },
+    start,
+    end: () => next,
+    timestampAt: (seq) => {
+      assertRetained(seq);
+      return timestamps[seq % capacity];
+    },
+    get,
+    columns,
+    window,
+  };
+};
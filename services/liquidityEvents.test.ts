@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { OrderBookSnapshot, OrderEntry, Trade } from '../types';
+import { createLiquidityDetector, diffSnapshots } from './liquidityEvents';
+
+const SIZE = 10;
+
+// Buckets of one side from its first bucket price outwards, with running totals
+const side = (first: number, step: number, quantities: number[]): OrderEntry[] => {
+  let total = 0;
+  return quantities.map((quantity, i) => {
+    total += quantity;
+    return { price: first + i * step, quantity, total };
+  });
+};
+
+const slice = (timestamp: number, bids: number[], asks: number[], { bidTop = 1000, askTop = 1000, trades }: {
+  bidTop?: number;
+  askTop?: number;
+  trades?: Trade[];
+} = {}): OrderBookSnapshot => ({
+  timestamp,
+  midPrice: (bidTop + askTop) / 2,
+  bucketSize: SIZE,
+  bids: side(bidTop, -SIZE, bids),
+  asks: side(askTop, SIZE, asks),
+  trades,
+});
+
+const flat = (n = 10) => Array<number>(n).fill(1);
+const withWall = (index: number, quantity = 10, n = 10) => flat(n).map((q, i) => i === index ? quantity : q);
+
+describe('diffSnapshots', () => {
+  it('reports a wall appearing', () => {
+    const events = diffSnapshots(slice(0, flat(), flat()), slice(200, flat(), withWall(3)));
+    expect(events).toEqual([{ type: 'wall-added', side: 'ask', price: 1030, bucketSize: SIZE, quantity: 9, timestamp: 200 }]);
+  });
+
+  it('reports a wall removed without trades as pulled', () => {
+    const events = diffSnapshots(slice(0, withWall(2), flat()), slice(200, flat(), flat()));
+    expect(events).toEqual([{ type: 'wall-pulled', side: 'bid', price: 980, bucketSize: SIZE, quantity: 9, timestamp: 200 }]);
+  });
+
+  it('reports a wall traded through as consumed when the touch sweeps past it', () => {
+    // The ask wall at 1010 is bought through and the best ask moves up two buckets
+    const prev = slice(0, flat(), withWall(1));
+    const trades: Trade[] = [{ time: 150, price: 1012, quantity: 9.5, side: 'buy' }];
+    const next = slice(200, flat(), flat(), { askTop: 1020, trades });
+    expect(diffSnapshots(prev, next)).toEqual([
+      { type: 'wall-consumed', side: 'ask', price: 1010, bucketSize: SIZE, quantity: 10, timestamp: 200 },
+    ]);
+  });
+
+  it('matches buckets by price when the touch moves', () => {
+    // The wall stays at 970 while the best bid drops a bucket: nothing changed there
+    const prev = slice(0, withWall(3), flat());
+    const next = slice(200, withWall(2), flat(), { bidTop: 990 });
+    expect(diffSnapshots(prev, next)).toEqual([]);
+  });
+
+  it('ignores changes below the thresholds', () => {
+    // Grows by less than minChangeFactor medians
+    expect(diffSnapshots(slice(0, flat(), flat()), slice(200, withWall(4, 3.5), flat()))).toEqual([]);
+    // Grows enough, but stays below wallFactor medians
+    expect(diffSnapshots(slice(0, flat(), flat()), slice(200, withWall(4, 4.5), flat()))).toEqual([]);
+    // A smaller bucket size is another grid and is not compared
+    expect(diffSnapshots(slice(0, flat(), flat()), { ...slice(200, flat(), withWall(3)), bucketSize: 5 })).toEqual([]);
+  });
+
+  it('ignores buckets beyond either slice\'s depth', () => {
+    // After a one-bucket move, 900 is only in the new slice's range
+    const prev = slice(0, flat(), flat());
+    const next = slice(200, withWall(9), flat(), { bidTop: 1000 - SIZE });
+    expect(diffSnapshots(prev, next)).toEqual([]);
+  });
+});
+
+describe('createLiquidityDetector', () => {
+  it('flags a wall pulled soon after it appeared as flicker', () => {
+    const detector = createLiquidityDetector();
+    detector.process(slice(0, flat(), flat()));
+    expect(detector.process(slice(200, withWall(1), flat()))[0].type).toBe('wall-added');
+    expect(detector.process(slice(400, flat(), flat()))).toEqual([
+      { type: 'flicker', side: 'bid', price: 990, bucketSize: SIZE, quantity: 9, timestamp: 400 },
+    ]);
+  });
+});
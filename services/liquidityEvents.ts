@@ -0,0 +1,163 @@
+import { BookSide, LiquidityDetectorConfig, LiquidityEvent, OrderBookSnapshot, OrderEntry } from '../types';
+
+export const DEFAULT_DETECTOR_CONFIG: LiquidityDetectorConfig = {
+  wallFactor: 5,
+  minChangeFactor: 3,
+  consumedFraction: 0.5,
+  flickerWindowMs: 2000,
+};
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Volume traded inside a bucket's price range during the slice.
+ * Only trades that consume this side count: sells hit bids, buys lift asks.
+ * A bucket includes its own price edge, so bid ranges are (low, high] and ask ranges [low, high).
+ */
+const tradedInBucket = (next: OrderBookSnapshot, side: BookSide, low: number, high: number): number => {
+  let volume = 0;
+  for (const t of next.trades ?? []) {
+    if ((side === 'bid') !== (t.side === 'sell')) continue;
+    const inside = side === 'bid' ? t.price > low && t.price <= high : t.price >= low && t.price < high;
+    if (inside) volume += t.quantity;
+  }
+  return volume;
+};
+
+/**
+ * Quantity per bucket of one side, keyed by the bucket's place on the price grid.
+ * `at` is 0 for buckets past the touch (nothing rests there) and undefined beyond the deepest bucket (not seen).
+ * Buckets counted from the mid (percent axis) are off the grid and key to the grid edge nearest theirs.
+ */
+const indexSide = (side: BookSide, levels: OrderEntry[], size: number) => {
+  const byKey = new Map<number, OrderEntry>();
+  for (const level of levels) byKey.set(Math.round(level.price / size), level);
+  const first = levels.length > 0 ? Math.round(levels[0].price / size) : NaN;
+  const better = (key: number) => side === 'bid' ? key > first : key < first;
+  return {
+    byKey,
+    at: (key: number): number | undefined => byKey.get(key)?.quantity ?? (better(key) ? 0 : undefined),
+  };
+};
+
+/**
+ * Compares two consecutive snapshots bucket by bucket and classifies large changes.
+ * Buckets are matched by their price on the absolute bucket grid, not by index, since bucket 0 follows the touch.
+ * A bucket the touch has moved past counts as empty, so a swept wall shows up as removed.
+ * Pure: the same inputs always yield the same events. Flicker detection needs memory, see createLiquidityDetector.
+ */
+export const diffSnapshots = (
+  prev: OrderBookSnapshot,
+  next: OrderBookSnapshot,
+  config: LiquidityDetectorConfig = DEFAULT_DETECTOR_CONFIG
+): LiquidityEvent[] => {
+  // Bucket grids are only comparable at the same resolution
+  if (prev.bucketSize !== next.bucketSize || next.bucketSize <= 0) return [];
+
+  const size = next.bucketSize;
+  const events: LiquidityEvent[] = [];
+
+  const diffSide = (side: BookSide, prevLevels: OrderEntry[], nextLevels: OrderEntry[]) => {
+    // "Large" is relative to this side's typical bucket, so thresholds work on any instrument
+    const typical = median(nextLevels.map(l => l.quantity));
+    if (typical <= 0) return;
+    const wallSize = typical * config.wallFactor;
+    const minChange = typical * config.minChangeFactor;
+
+    if (prevLevels.length === 0 || nextLevels.length === 0) return;
+    const before = indexSide(side, prevLevels, size);
+    const after = indexSide(side, nextLevels, size);
+
+    // Buckets of the new slice first, then those the touch has moved past
+    const keys = new Set([...after.byKey.keys(), ...before.byKey.keys()]);
+    for (const key of keys) {
+      const prevQuantity = before.at(key);
+      const nextQuantity = after.at(key);
+      if (prevQuantity === undefined || nextQuantity === undefined) continue;
+
+      const change = nextQuantity - prevQuantity;
+      if (Math.abs(change) < minChange) continue;
+
+      // Price range this bucket covers
+      const price = (after.byKey.get(key) ?? before.byKey.get(key))!.price;
+      const low = side === 'bid' ? price - size : price;
+      const high = low + size;
+      const base = { side, price, bucketSize: size, timestamp: next.timestamp };
+
+      if (change > 0) {
+        if (nextQuantity >= wallSize) {
+          events.push({ ...base, type: 'wall-added', quantity: change });
+        }
+      } else if (prevQuantity >= wallSize) {
+        const removed = -change;
+        const traded = tradedInBucket(next, side, low, high);
+        events.push({
+          ...base,
+          type: traded >= removed * config.consumedFraction ? 'wall-consumed' : 'wall-pulled',
+          quantity: removed,
+        });
+      }
+    }
+  };
+
+  diffSide('bid', prev.bids, next.bids);
+  diffSide('ask', prev.asks, next.asks);
+  return events;
+};
+
+export interface LiquidityDetector {
+  // Feeds the next slice; returns the events it triggered
+  process: (snapshot: OrderBookSnapshot) => LiquidityEvent[];
+  reset: () => void;
+}
+
+/**
+ * Stateful wrapper over diffSnapshots that also flags flicker:
+ * a wall that is pulled (not traded) within `flickerWindowMs` of appearing at the same price.
+ */
+export const createLiquidityDetector = (
+  getConfig: () => LiquidityDetectorConfig = () => DEFAULT_DETECTOR_CONFIG
+): LiquidityDetector => {
+  let prev: OrderBookSnapshot | null = null;
+  // Recently added walls by side+price, for flicker matching
+  let recentWalls: LiquidityEvent[] = [];
+
+  const process = (snapshot: OrderBookSnapshot): LiquidityEvent[] => {
+    // The app re-pushes the latest snapshot when nothing new arrived; nothing changed then
+    if (prev === snapshot) return [];
+    const config = getConfig();
+    const events = prev ? diffSnapshots(prev, snapshot, config) : [];
+    prev = snapshot;
+
+    recentWalls = recentWalls.filter(e => snapshot.timestamp - e.timestamp <= config.flickerWindowMs);
+
+    const result: LiquidityEvent[] = [];
+    for (const event of events) {
+      if (event.type === 'wall-added') {
+        recentWalls.push(event);
+      } else if (event.type === 'wall-pulled') {
+        const match = recentWalls.findIndex(w =>
+          w.side === event.side && Math.abs(w.price - event.price) < event.bucketSize / 2);
+        if (match >= 0) {
+          recentWalls.splice(match, 1);
+          result.push({ ...event, type: 'flicker' });
+          continue;
+        }
+      }
+      result.push(event);
+    }
+    return result;
+  };
+
+  return {
+    process,
+    reset: () => {
+      prev = null;
+      recentWalls = [];
+    },
+  };
+};
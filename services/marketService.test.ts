@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { BucketConfig, OrderEntry } from '../types';
+import { createRawBook } from './orderBook';
+import { AUTO_BUCKET_BPS, buildConsolidatedSnapshot, buildSnapshot, percentAxisBuckets, resolveBucketSize } from './marketService';
+
+const TEN: BucketConfig = { mode: 'absolute', size: 10 };
+
+const quantityAt = (entries: OrderEntry[], price: number) => entries.find(e => e.price === price)?.quantity;
+
+describe('resolveBucketSize', () => {
+  it('snaps to whole ticks', () => {
+    expect(resolveBucketSize({ mode: 'absolute', size: 0.25 }, 100, 0.1)).toBe(0.3);
+    expect(resolveBucketSize({ mode: 'bps', bps: 1 }, 64000, 0.01)).toBe(6.4);
+    expect(resolveBucketSize({ mode: 'absolute', size: 0.001 }, 100, 0.01)).toBe(0.01);
+  });
+});
+
+describe('buildSnapshot', () => {
+  it('puts bucket edges on whole multiples of the bucket size', () => {
+    const book = createRawBook({ tickSize: 1, stepSize: 1 });
+    book.set('bid', 103, 1);
+    book.set('bid', 100, 2);
+    book.set('bid', 99, 4);
+    book.set('ask', 105, 1);
+    book.set('ask', 110, 2);
+    book.set('ask', 121, 4);
+
+    const snapshot = buildSnapshot(book, TEN, 1)!;
+    expect(snapshot.bucketSize).toBe(10);
+    // Bids cover (price - 10, price], asks [price, price + 10)
+    expect(snapshot.bids.slice(0, 3).map(e => [e.price, e.quantity])).toEqual([[110, 1], [100, 6], [90, 0]]);
+    expect(snapshot.asks.slice(0, 3).map(e => [e.price, e.quantity])).toEqual([[100, 1], [110, 2], [120, 4]]);
+    expect(snapshot.bids[2].total).toBe(7);
+  });
+
+  it('keeps a level in the same bucket as the touch moves', () => {
+    const book = createRawBook({ tickSize: 1, stepSize: 1 });
+    book.set('bid', 97, 1);
+    book.set('bid', 84, 5);
+    book.set('ask', 101, 1);
+    book.set('ask', 126, 7);
+
+    const before = buildSnapshot(book, TEN, 1)!;
+    expect(quantityAt(before.bids, 90)).toBe(5);
+    expect(quantityAt(before.asks, 120)).toBe(7);
+
+    // The touch moves by less than a bucket on both sides
+    book.set('bid', 97, 0);
+    book.set('bid', 93, 1);
+    book.set('ask', 101, 0);
+    book.set('ask', 104, 1);
+    const after = buildSnapshot(book, TEN, 1)!;
+    expect(quantityAt(after.bids, 90)).toBe(5);
+    expect(quantityAt(after.asks, 120)).toBe(7);
+    expect(after.bids[0].price).toBe(100);
+    expect(after.asks[0].price).toBe(100);
+
+    // And by more than one: the resting levels keep their prices, only their distance from the front changes
+    book.set('bid', 93, 0);
+    book.set('ask', 104, 0);
+    const moved = buildSnapshot(book, TEN, 1)!;
+    expect(moved.bids[0]).toMatchObject({ price: 90, quantity: 5 });
+    expect(moved.asks[0]).toMatchObject({ price: 120, quantity: 7 });
+  });
+
+  it('buckets fractional ticks without float drift', () => {
+    const book = createRawBook({ tickSize: 0.01, stepSize: 0.001 });
+    book.set('bid', '64000.07', '0.5');
+    book.set('bid', '63999.99', '0.25');
+    book.set('ask', '64000.13', '1');
+    const snapshot = buildSnapshot(book, { mode: 'absolute', size: 0.1 }, 0.01)!;
+    expect(snapshot.bids.slice(0, 2).map(e => e.price)).toEqual([64000.1, 64000]);
+    expect(snapshot.asks[0].price).toBe(64000.1);
+  });
+
+  it('counts buckets out from the mid for the percent axis', () => {
+    expect(percentAxisBuckets({ mode: 'absolute', size: 10 })).toEqual({ mode: 'bps', bps: AUTO_BUCKET_BPS, fromMid: true });
+
+    const book = createRawBook({ tickSize: 1, stepSize: 1 });
+    book.set('bid', 99, 1);
+    book.set('bid', 95, 2);
+    book.set('ask', 102, 1);
+    book.set('ask', 108, 3);
+
+    // 500 bps of the 100.5 mid snaps to 5 ticks; edges sit at the mid and every 5 away from it
+    const snapshot = buildSnapshot(book, percentAxisBuckets({ mode: 'bps', bps: 500 }), 1)!;
+    expect(snapshot.bucketSize).toBe(5);
+    expect(snapshot.bids.slice(0, 2).map(e => [e.price, e.quantity])).toEqual([[100.5, 1], [95.5, 2]]);
+    expect(snapshot.asks.slice(0, 2).map(e => [e.price, e.quantity])).toEqual([[100.5, 1], [105.5, 3]]);
+  });
+});
+
+describe('buildConsolidatedSnapshot', () => {
+  it('places every venue on the same absolute grid', () => {
+    const coarse = createRawBook({ tickSize: 1, stepSize: 1 });
+    coarse.set('bid', 98, 1);
+    coarse.set('ask', 104, 1);
+    const fine = createRawBook({ tickSize: 0.5, stepSize: 1 });
+    fine.set('bid', 99.5, 2);
+    fine.set('bid', 90, 3);
+    fine.set('ask', 110.5, 4);
+
+    const snapshot = buildConsolidatedSnapshot([{ venue: 'binance', book: coarse }, { venue: 'kraken', book: fine }], TEN)!;
+    expect(snapshot.bucketSize).toBe(10);
+    expect(snapshot.bids.slice(0, 2).map(e => [e.price, e.quantity])).toEqual([[100, 3], [90, 3]]);
+    expect(snapshot.asks.slice(0, 2).map(e => [e.price, e.quantity])).toEqual([[100, 1], [110, 4]]);
+    expect(snapshot.breakdown!.bids.map(venue => venue.slice(0, 2))).toEqual([[1, 0], [2, 3]]);
+  });
+  it('buckets venues whose ticks are not multiples of each other', () => {
+    const halves = createRawBook({ tickSize: 0.5, stepSize: 1 });
+    halves.set('bid', 100.5, 1);
+    halves.set('ask', 101.5, 1);
+    const fifths = createRawBook({ tickSize: 0.2, stepSize: 1 });
+    fifths.set('bid', 100.4, 2);
+    fifths.set('bid', 100.2, 3);
+    fifths.set('bid', 100, 4);
+    fifths.set('ask', 101.2, 2);
+    fifths.set('ask', 101.6, 5);
+
+    const snapshot = buildConsolidatedSnapshot([{ venue: 'binance', book: halves }, { venue: 'coinbase', book: fifths }], { mode: 'absolute', size: 0.5 })!;
+    expect(snapshot.bucketSize).toBe(0.5);
+    expect(snapshot.bids.slice(0, 2).map(e => [e.price, e.quantity])).toEqual([[100.5, 6], [100, 4]]);
+    expect(snapshot.asks.slice(0, 2).map(e => [e.price, e.quantity])).toEqual([[101, 2], [101.5, 6]]);
+    expect(snapshot.breakdown!.asks.map(venue => venue.slice(0, 2))).toEqual([[0, 1], [2, 5]]);
+  });
+});
@@ -1,60 +1,139 @@
-import { OrderBookSnapshot, OrderEntry } from '../types';
+import { BookSide, BucketConfig, OrderBookSnapshot, OrderEntry, VenueId } from '../types';
+import { RawBook, fromUnits, toUnits } from './orderBook';
+import { computeBookMetrics } from './bookMetrics';
 
 // Configuration
 // Binance limit=1000 gives us a decent range.
 // We aggregate into buckets to create the visual "wall".
-const AGGREGATION_BUCKET_SIZE = 2.0; // Group orders into $2 chunks
-const VISUAL_BUCKETS = 60; // How many buckets to return to the UI per side
+export const VISUAL_BUCKETS = 200; // How many buckets to return to the UI per side
 
-// For Mock Data
-const INITIAL_PRICE = 96000; 
+// Auto bucket sizing: each bucket spans ~0.2 bps of mid (≈$2 at $96k),
+// so 200 buckets cover roughly ±0.4% of price on any instrument.
+export const AUTO_BUCKET_BPS = 0.2;
+export const MOCK_TICK_SIZE = 0.01;
+
+export const DEFAULT_BUCKET_CONFIG: BucketConfig = { mode: 'auto' };
+
+/**
+ * Rounds a step up to the next 1-2-5 value of its decade (0.37 -> 0.5, 1.6 -> 2, 7 -> 10).
+ * Keeps auto-sized buckets on round prices so labels stay readable.
+ */
+export const niceStep = (step: number): number => {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(step)));
+  const normalized = step / magnitude;
+  const nice = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+  return nice * magnitude;
+};
+
+/**
+ * Resolves a bucket config to an absolute price step for the current mid.
+ * When the tick size is known the result is a whole multiple of it (and at least one tick),
+ * so no bucket can fall between two tradable prices.
+ */
+export const resolveBucketSize = (config: BucketConfig, midPrice: number, tickSize: number | null): number => {
+  let size: number;
+
+  if (config.mode === 'absolute') {
+    size = config.size;
+  } else if (config.mode === 'bps') {
+    size = midPrice * config.bps / 10000;
+  } else {
+    size = niceStep(midPrice * AUTO_BUCKET_BPS / 10000);
+  }
+
+  if (tickSize === null || !(tickSize > 0)) {
+    return size > 0 ? size : 1;
+  }
+  if (!(size > 0)) return tickSize;
+
+  const ticks = Math.max(1, Math.round(size / tickSize));
+  // Round away float noise from the multiplication (e.g. 3 * 0.1 = 0.30000000000000004)
+  return parseFloat((ticks * tickSize).toPrecision(12));
+};
 
 /**
- * Aggregates a raw map of price->size into sorted, continuous cumulative buckets.
- * Uses a dense array approach to ensure no gaps in the X-axis.
+ * Bucket config the percent axis aggregates with: bps of mid (the chosen step in bps mode, the auto step otherwise),
+ * counted out from the mid so every bucket sits a fixed distance in bps from it.
  */
-const aggregateOrders = (
-  rawOrders: Map<number, number>, 
-  isBid: boolean, 
-  midPrice: number
-): OrderEntry[] => {
-  
-  // 1. Initialize dense buckets (0 to VISUAL_BUCKETS-1)
+export const percentAxisBuckets = (config: BucketConfig): BucketConfig => ({
+  mode: 'bps',
+  bps: config.mode === 'bps' ? config.bps : AUTO_BUCKET_BPS,
+  fromMid: true,
+});
+
+/**
+ * Grid cell of a price `units` on a grid of `bucketUnits`, counted from price 0.
+ * Ask buckets cover [k, k + 1) cells and bid buckets (k - 1, k], so each bucket's key is its edge nearest the mid.
+ */
+const gridKey = (units: number, bucketUnits: number, isBid: boolean): number =>
+  isBid ? Math.ceil(units / bucketUnits) : Math.floor(units / bucketUnits);
+
+interface BucketLayout {
+  // Bucket index of a level (in grid units); only grows moving away from the touch
+  index: (units: number) => number;
+  // Price edge (in grid units) of bucket i nearest the mid
+  edge: (i: number) => number;
+}
+
+/**
+ * Places one side's buckets. On the absolute grid bucket 0 is the cell holding the side's best price.
+ * Counted from the mid, bucket i covers i to i + 1 buckets away from it; levels across the mid
+ * (venues crossing each other) fall in bucket 0.
+ */
+const layoutBuckets = (bestUnits: number, midUnits: number, bucketUnits: number, isBid: boolean, fromMid: boolean): BucketLayout => {
+  const sign = isBid ? -1 : 1;
+  if (fromMid) {
+    return {
+      index: (units) => Math.max(0, Math.floor(sign * (units - midUnits) / bucketUnits)),
+      edge: (i) => midUnits + sign * i * bucketUnits,
+    };
+  }
+  const firstKey = gridKey(bestUnits, bucketUnits, isBid);
+  return {
+    index: (units) => Math.abs(gridKey(units, bucketUnits, isBid) - firstKey),
+    edge: (i) => (firstKey + sign * i) * bucketUnits,
+  };
+};
+
+const countsFromMid = (config: BucketConfig): boolean => config.mode === 'bps' && config.fromMid === true;
+
+/**
+ * Aggregates one side of a raw book into sorted, continuous cumulative buckets on the tick grid.
+ * Buckets sit on an absolute grid of bucketTicks (edges at whole multiples of the bucket size), starting
+ * with the bucket holding the side's best price, so a level keeps its bucket as the touch moves.
+ * With `fromMid` they are counted out from the mid instead (percent axis).
+ * A bucket's price is its edge nearest the mid: the upper edge for bids, the lower edge for asks.
+ */
+const aggregateOrders = (book: RawBook, side: BookSide, bucketTicks: number, fromMid: boolean): OrderEntry[] => {
+  const isBid = side === 'bid';
+  const ladder = book.levels(side);
+  const sizes = isBid ? book.bids : book.asks;
+  const midTicks = (book.levels('bid')[0] + book.levels('ask')[0]) / 2;
+  const layout = layoutBuckets(ladder[0], midTicks, bucketTicks, isBid, fromMid);
+
+  // 1. Initialize dense buckets (0 to VISUAL_BUCKETS-1), counted in whole lots
   // This ensures we have a continuous wall even if there is no liquidity at a specific price step.
-  const bucketVolumes = new Float64Array(VISUAL_BUCKETS).fill(0);
+  const bucketLots = new Float64Array(VISUAL_BUCKETS).fill(0);
 
   // 2. Distribute Raw Volume into Buckets
-  for (const [price, qty] of rawOrders) {
-    // Calculate distance from midPrice
-    const diff = Math.abs(price - midPrice);
-    
-    // Determine index
-    const index = Math.floor(diff / AGGREGATION_BUCKET_SIZE);
-
-    // Add to bucket if within range
-    if (index >= 0 && index < VISUAL_BUCKETS) {
-      bucketVolumes[index] += qty;
-    }
+  // Levels are walked best-first, so the walk stops at the first level past the last bucket.
+  for (const ticks of ladder) {
+    const index = layout.index(ticks);
+    if (index >= VISUAL_BUCKETS) break;
+    bucketLots[index] += sizes.get(ticks) ?? 0;
   }
 
   // 3. Build Cumulative Result
   const result: OrderEntry[] = [];
-  let cumulativeTotal = 0;
+  let cumulativeLots = 0;
 
   for (let i = 0; i < VISUAL_BUCKETS; i++) {
-    const qty = bucketVolumes[i];
-    cumulativeTotal += qty;
-
-    // Calculate the visual price for this bucket
-    // For Bids: moving down from mid. For Asks: moving up.
-    const bucketPrice = isBid 
-      ? midPrice - (i * AGGREGATION_BUCKET_SIZE) 
-      : midPrice + (i * AGGREGATION_BUCKET_SIZE);
-
+    cumulativeLots += bucketLots[i];
+    // For Bids: moving down from the first bucket. For Asks: moving up from it.
     result.push({
-      price: bucketPrice,
-      quantity: qty,
-      total: cumulativeTotal
+      price: book.priceOf(layout.edge(i)),
+      quantity: book.qtyOf(bucketLots[i]),
+      total: book.qtyOf(cumulativeLots),
     });
   }
 
@@ -62,195 +141,142 @@ const aggregateOrders = (
 };
 
 /**
- * Simulates an orderbook snapshot
+ * Aggregates a raw book into a visual snapshot around its current mid.
+ * Returns null while either side is empty.
  */
-export const generateMockSnapshot = (prevSnapshot?: OrderBookSnapshot): OrderBookSnapshot => {
-  const now = Date.now();
-  
-  let midPrice = INITIAL_PRICE;
-  
-  if (prevSnapshot) {
-    const volatility = prevSnapshot.midPrice * 0.0005; 
-    const change = (Math.random() - 0.5) * volatility;
-    midPrice = prevSnapshot.midPrice + change;
-  }
-
-  const bids: OrderEntry[] = [];
-  const asks: OrderEntry[] = [];
-
-  // Generate Bids (Price decreasing)
-  let currentBidVol = 0;
-  for (let i = 0; i < VISUAL_BUCKETS; i++) {
-    const price = midPrice - (i * AGGREGATION_BUCKET_SIZE); 
-    const qty = Math.random() * 5 + (Math.random() * 10); 
-    currentBidVol += qty;
-    bids.push({ price, quantity: qty, total: currentBidVol });
-  }
-
-  // Generate Asks (Price increasing)
-  let currentAskVol = 0;
-  for (let i = 0; i < VISUAL_BUCKETS; i++) {
-    const price = midPrice + (i * AGGREGATION_BUCKET_SIZE);
-    const qty = Math.random() * 5 + (Math.random() * 10);
-    currentAskVol += qty;
-    asks.push({ price, quantity: qty, total: currentAskVol });
-  }
+export const buildSnapshot = (
+  book: RawBook,
+  bucketConfig: BucketConfig,
+  tickSize: number | null,
+  timestamp: number = Date.now()
+): OrderBookSnapshot | null => {
+  if (book.isEmpty()) return null;
+
+  // Calculate Mid Price (Best Bid + Best Ask / 2)
+  const bestBid = book.bestBid();
+  const bestAsk = book.bestAsk();
+
+  // Safety check for empty book
+  if (bestBid === null || bestAsk === null) return null;
+
+  const midPrice = (bestBid + bestAsk) / 2;
+
+  // The resolved size is a whole number of ticks once the tick size is known; otherwise round onto the book's finer grid
+  const bucketTicks = Math.max(1, toUnits(resolveBucketSize(bucketConfig, midPrice, tickSize), book.scale.tickSize));
+  const bucketSize = fromUnits(bucketTicks, book.scale.tickSize);
+  const bids = aggregateOrders(book, 'bid', bucketTicks, countsFromMid(bucketConfig));
+  const asks = aggregateOrders(book, 'ask', bucketTicks, countsFromMid(bucketConfig));
+
+  // Metrics work on plain prices and sizes
+  const levelsOf = (side: BookSide): [number, number][] => {
+    const sizes = side === 'bid' ? book.bids : book.asks;
+    return book.levels(side).map(ticks => [book.priceOf(ticks), book.qtyOf(sizes.get(ticks) ?? 0)]);
+  };
 
   return {
-    timestamp: now,
+    timestamp,
     midPrice,
+    bucketSize,
     bids,
     asks,
+    metrics: computeBookMetrics(levelsOf('bid'), levelsOf('ask'), tickSize) ?? undefined,
   };
 };
 
 /**
- * BINANCE DIFF-DEPTH STREAM IMPLEMENTATION
- * Connects to wss://stream.binance.com:9443/ws/<symbol>@depth@100ms
- * Fetches initial snapshot from REST API to build the base book.
+ * Largest step every tick is a whole multiple of (0.5 and 0.2 -> 0.1), found as the integer GCD
+ * once the ticks are scaled to whole numbers.
  */
-export const subscribeToBinanceStream = (
-  symbol: string, // e.g. 'BTCUSDT'
-  onUpdate: (snapshot: OrderBookSnapshot) => void
-) => {
-  const lowerSymbol = symbol.toLowerCase();
-  const wsUrl = `wss://stream.binance.com:9443/ws/${lowerSymbol}@depth@100ms`;
-  const snapshotUrl = `https://api.binance.com/api/v3/depth?symbol=${symbol.toUpperCase()}&limit=1000`;
-
-  const ws = new WebSocket(wsUrl);
-
-  // Local Orderbook State (Raw)
-  const bidMap = new Map<number, number>();
-  const askMap = new Map<number, number>();
-
-  // Buffer for events that arrive before the snapshot
-  let eventBuffer: any[] = [];
-  let hasSnapshot = false;
-  let lastUpdateId = 0;
-  let processing = false;
-
-  // 1. Connect WS and start buffering events
-  ws.onopen = () => {
-    console.log('Connected to Binance WS');
-    // Once WS is open, fetch the snapshot
-    fetchSnapshot();
-  };
-
-  const fetchSnapshot = async () => {
-    try {
-      const res = await fetch(snapshotUrl);
-      const data = await res.json();
-      
-      // Initialize Map from Snapshot
-      // Binance Snapshot format: { lastUpdateId: number, bids: [price, qty][], asks: [price, qty][] }
-      
-      lastUpdateId = data.lastUpdateId;
-
-      data.bids.forEach((item: string[]) => {
-        bidMap.set(parseFloat(item[0]), parseFloat(item[1]));
-      });
-      data.asks.forEach((item: string[]) => {
-        askMap.set(parseFloat(item[0]), parseFloat(item[1]));
-      });
+const commonTick = (ticks: number[]): number => {
+  let scale = 1;
+  while (scale < 1e12 && ticks.some(t => Math.abs(t * scale - Math.round(t * scale)) > 1e-6)) scale *= 10;
+  const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
+  return fromUnits(ticks.map(t => Math.round(t * scale)).reduce(gcd), 1 / scale);
+};
 
-      hasSnapshot = true;
-      
-      // Process Buffered Events
-      // Drop any event where u <= lastUpdateId
-      // The first processed event should have U <= lastUpdateId+1 AND u >= lastUpdateId+1
-      const validEvents = eventBuffer.filter(e => e.u > lastUpdateId);
-      
-      validEvents.forEach(processEvent);
-      eventBuffer = []; // Clear buffer
-
-    } catch (err) {
-      console.error("Failed to fetch Binance snapshot:", err);
-    }
-  };
+export interface VenueBook {
+  venue: VenueId;
+  book: RawBook;
+}
 
-  const processEvent = (e: any) => {
-    // e.b = bids updates, e.a = asks updates
-    // Update format: [ [ "price", "qty" ], ... ]
-    
-    if (e.b) {
-      for (const [pStr, qStr] of e.b) {
-        const price = parseFloat(pStr);
-        const qty = parseFloat(qStr);
-        if (qty === 0) bidMap.delete(price);
-        else bidMap.set(price, qty);
-      }
-    }
-
-    if (e.a) {
-      for (const [pStr, qStr] of e.a) {
-        const price = parseFloat(pStr);
-        const qty = parseFloat(qStr);
-        if (qty === 0) askMap.delete(price);
-        else askMap.set(price, qty);
+/**
+ * Merges several venues' raw books into one snapshot, keeping each venue's part of every bucket.
+ * Buckets are sized on the coarsest venue tick and laid out like single-venue books (absolute grid or from the mid),
+ * starting from the market-wide best bid and ask. Levels are placed in units of the venues' common tick,
+ * on which every venue's prices are whole numbers even when the ticks are not multiples of each other
+ * (0.5 and 0.2 share 0.1, not the finer 0.2).
+ * Venues can briefly cross each other, so the merged best bid may sit above the best ask.
+ * Returns null until at least one venue has both sides.
+ */
+export const buildConsolidatedSnapshot = (
+  venueBooks: VenueBook[],
+  bucketConfig: BucketConfig,
+  timestamp: number = Date.now()
+): OrderBookSnapshot | null => {
+  const books = venueBooks.filter(v => !v.book.isEmpty());
+  if (books.length === 0) return null;
+
+  const bestBid = Math.max(...books.map(v => v.book.bestBid() ?? -Infinity));
+  const bestAsk = Math.min(...books.map(v => v.book.bestAsk() ?? Infinity));
+  const midPrice = (bestBid + bestAsk) / 2;
+
+  const coarseTick = Math.max(...books.map(v => v.book.scale.tickSize));
+  const gridTick = commonTick(books.map(v => v.book.scale.tickSize));
+  const bucketUnits = Math.max(1, toUnits(resolveBucketSize(bucketConfig, midPrice, coarseTick), gridTick));
+  const bucketSize = fromUnits(bucketUnits, gridTick);
+
+  const midUnits = (toUnits(bestBid, gridTick) + toUnits(bestAsk, gridTick)) / 2;
+
+  const aggregateSide = (side: BookSide) => {
+    const isBid = side === 'bid';
+    const layout = layoutBuckets(toUnits(isBid ? bestBid : bestAsk, gridTick), midUnits, bucketUnits, isBid, countsFromMid(bucketConfig));
+
+    // Each venue is bucketed in its own lots, then converted once per bucket
+    const perVenue = books.map(({ book }) => {
+      const sizes = isBid ? book.bids : book.asks;
+      const bucketLots = new Float64Array(VISUAL_BUCKETS);
+      for (const ticks of book.levels(side)) {
+        const index = layout.index(toUnits(book.priceOf(ticks), gridTick));
+        if (index >= VISUAL_BUCKETS) break;
+        bucketLots[index] += sizes.get(ticks) ?? 0;
       }
-    }
-  };
+      return Array.from(bucketLots, lots => book.qtyOf(lots));
+    });
 
-  ws.onmessage = (event) => {
-    try {
-      const data = JSON.parse(event.data);
-      
-      // Event type 'depthUpdate'
-      if (data.e === 'depthUpdate') {
-        if (!hasSnapshot) {
-          eventBuffer.push(data);
-        } else {
-          processEvent(data);
-          
-          // Optimization: Throttle aggregation to avoid UI stutter if messages come too fast
-          if (!processing) {
-            processing = true;
-            requestAnimationFrame(() => {
-              emitUpdate();
-              processing = false;
-            });
-          }
-        }
-      }
-    } catch (err) {
-      console.error("Binance WS Parse Error", err);
+    const entries: OrderEntry[] = [];
+    let total = 0;
+    for (let i = 0; i < VISUAL_BUCKETS; i++) {
+      const quantity = parseFloat(perVenue.reduce((acc, q) => acc + q[i], 0).toPrecision(12));
+      total = parseFloat((total + quantity).toPrecision(12));
+      entries.push({
+        price: fromUnits(layout.edge(i), gridTick),
+        quantity,
+        total,
+      });
     }
+    return { entries, perVenue };
   };
 
-  const emitUpdate = () => {
-    if (bidMap.size === 0 || askMap.size === 0) return;
-
-    // Calculate Mid Price (Best Bid + Best Ask / 2)
-    let bestBid = 0;
-    let bestAsk = Infinity;
-
-    // Fast iteration for best prices
-    for (const k of bidMap.keys()) {
-      if (k > bestBid) bestBid = k;
-    }
-    for (const k of askMap.keys()) {
-      if (k < bestAsk) bestAsk = k;
-    }
+  const bids = aggregateSide('bid');
+  const asks = aggregateSide('ask');
 
-    // Safety check for empty book
-    if (bestBid === 0 || bestAsk === Infinity) return;
+  // Metrics see every venue's levels as one book
+  const levelsOf = (side: BookSide): [number, number][] => books.flatMap(({ book }) => {
+    const sizes = side === 'bid' ? book.bids : book.asks;
+    return book.levels(side).map((ticks): [number, number] => [book.priceOf(ticks), book.qtyOf(sizes.get(ticks) ?? 0)]);
+  });
 
-    const midPrice = (bestBid + bestAsk) / 2;
-
-    const bids = aggregateOrders(bidMap, true, midPrice);
-    const asks = aggregateOrders(askMap, false, midPrice);
-
-    const snapshot: OrderBookSnapshot = {
-      timestamp: Date.now(),
-      midPrice,
-      bids,
-      asks
-    };
-
-    onUpdate(snapshot);
-  };
-
-  return () => {
-    if (ws.readyState === WebSocket.OPEN) ws.close();
+  return {
+    timestamp,
+    midPrice,
+    bucketSize,
+    bids: bids.entries,
+    asks: asks.entries,
+    metrics: computeBookMetrics(levelsOf('bid'), levelsOf('ask'), coarseTick) ?? undefined,
+    breakdown: {
+      venues: books.map(v => v.venue),
+      bids: bids.perVenue,
+      asks: asks.perVenue,
+    },
   };
 };
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { createRawBook, fromUnits, toUnits } from './orderBook';
+
+describe('createRawBook', () => {
+  it('removes a level on a zero size however the venue formats it', () => {
+    const book = createRawBook({ tickSize: 0.01, stepSize: 0.00001 });
+    book.set('bid', '100.10', '1.50000');
+    book.set('bid', '100.00', '2');
+    book.set('ask', '100.20', '0.5');
+
+    book.set('bid', '100.1', '0.00000000');
+    expect(book.bids.has(toUnits('100.10', 0.01))).toBe(false);
+    expect(book.levels('bid')).toEqual([10000]);
+    expect(book.bestBid()).toBe(100);
+
+    book.set('ask', 100.2, 0);
+    expect(book.asks.size).toBe(0);
+    expect(book.levels('ask')).toEqual([]);
+    expect(book.isEmpty()).toBe(true);
+  });
+
+  it('ignores deletes of levels it does not hold', () => {
+    const book = createRawBook({ tickSize: 0.01, stepSize: 0.01 });
+    book.set('ask', '101.00', '1');
+    book.set('ask', '101.50', '0');
+    expect(book.levels('ask')).toEqual([10100]);
+  });
+
+  it('keys float-noisy prices on the same tick', () => {
+    const book = createRawBook({ tickSize: 0.1, stepSize: 0.1 });
+    book.set('bid', 0.1 + 0.2, '1');
+    book.set('bid', '0.3', '2');
+    book.set('bid', '0.30000', '3');
+    expect(book.bids.size).toBe(1);
+    expect(book.bestBid()).toBe(0.3);
+    expect(book.qtyOf(book.bids.get(3)!)).toBe(3);
+
+    book.set('bid', 0.30000000000000004, 0);
+    expect(book.bids.size).toBe(0);
+  });
+
+  it('keeps each ladder sorted best first', () => {
+    const book = createRawBook({ tickSize: 1, stepSize: 1 });
+    [5, 9, 1, 7].forEach(p => book.set('bid', p, 1));
+    [15, 11, 19, 13].forEach(p => book.set('ask', p, 1));
+    expect(book.levels('bid')).toEqual([9, 7, 5, 1]);
+    expect(book.levels('ask')).toEqual([11, 13, 15, 19]);
+
+    book.truncate('bid', 2);
+    expect(book.levels('bid')).toEqual([9, 7]);
+    expect([...book.bids.keys()].sort()).toEqual([7, 9]);
+  });
+
+  it('converts units back without float noise', () => {
+    expect(fromUnits(3, 0.1)).toBe(0.3);
+    expect(fromUnits(6400012, 0.01)).toBe(64000.12);
+  });
+});
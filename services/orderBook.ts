@@ -0,0 +1,129 @@
+import { BookSide } from '../types';
+
+/**
+ * Instrument increments the book is quantised to.
+ */
+export interface BookScale {
+  tickSize: number; // Price increment
+  stepSize: number; // Quantity increment (lot size)
+}
+
+// Used until (or if never) the venue reports its increments; finer than any supported venue
+export const FALLBACK_BOOK_SCALE: BookScale = { tickSize: 1e-8, stepSize: 1e-8 };
+
+/**
+ * Converts a venue price or size to a whole number of `unit`s.
+ * Venue values are exact multiples of their increment, so the float quotient is within
+ * a few ulps of an integer and rounding recovers it exactly (for anything below ~2^50 units).
+ */
+export const toUnits = (value: string | number, unit: number): number => Math.round(Number(value) / unit);
+
+/**
+ * Converts a unit count back to a price or size, dropping the float noise of the product
+ * (3 * 0.1 = 0.30000000000000004 -> 0.3).
+ */
+export const fromUnits = (units: number, unit: number): number => parseFloat((units * unit).toPrecision(15));
+
+/**
+ * Raw book maintained by every live source.
+ * Prices are held as integer ticks and sizes as integer lots of the book's scale,
+ * so a level always has one key however the venue formats it ("0.10" vs "0.1"), and deletes always hit.
+ * Adapters pass venue values straight to `set`; aggregation reads the maps.
+ * Each side also keeps its ticks sorted best-first, so the best price is O(1)
+ * and a level is located by binary search instead of a full key scan.
+ */
+export interface RawBook {
+  readonly bids: Map<number, number>; // ticks -> lots
+  readonly asks: Map<number, number>;
+  readonly scale: BookScale;
+  // Sets the resting size at a price level; a size of 0 removes the level
+  set: (side: BookSide, price: string | number, qty: string | number) => void;
+  clear: () => void;
+  // Changes the increments; the book is cleared since existing keys no longer apply
+  setScale: (scale: BookScale) => void;
+  bestBid: () => number | null;
+  bestAsk: () => number | null;
+  // Ticks of one side, best first (bids descending, asks ascending). Do not mutate.
+  levels: (side: BookSide) => readonly number[];
+  priceOf: (ticks: number) => number;
+  qtyOf: (lots: number) => number;
+  // Drops levels beyond the best `depth` on one side (for venues that only maintain top-N)
+  truncate: (side: BookSide, depth: number) => void;
+  isEmpty: () => boolean;
+}
+
+/**
+ * Index of `ticks` in a best-first ladder, or where it would be inserted.
+ */
+const searchLadder = (ladder: number[], ticks: number, isBid: boolean): number => {
+  let lo = 0;
+  let hi = ladder.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    const before = isBid ? ladder[mid] > ticks : ladder[mid] < ticks;
+    if (before) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+export const createRawBook = (initialScale: BookScale = FALLBACK_BOOK_SCALE): RawBook => {
+  const bids = new Map<number, number>();
+  const asks = new Map<number, number>();
+  const bidTicks: number[] = [];
+  const askTicks: number[] = [];
+  let scale = initialScale;
+
+  const set = (side: BookSide, price: string | number, qty: string | number) => {
+    const isBid = side === 'bid';
+    const map = isBid ? bids : asks;
+    const ladder = isBid ? bidTicks : askTicks;
+    const ticks = toUnits(price, scale.tickSize);
+    const lots = toUnits(qty, scale.stepSize);
+
+    // Size changes at an existing level only touch the map. Adding or removing a level shifts the
+    // ladder (O(depth) splice), which for venue depths of a few thousand levels is a short memmove.
+    if (lots === 0) {
+      if (!map.delete(ticks)) return;
+      ladder.splice(searchLadder(ladder, ticks, isBid), 1);
+    } else {
+      if (!map.has(ticks)) ladder.splice(searchLadder(ladder, ticks, isBid), 0, ticks);
+      map.set(ticks, lots);
+    }
+  };
+
+  const clear = () => {
+    bids.clear();
+    asks.clear();
+    bidTicks.length = 0;
+    askTicks.length = 0;
+  };
+
+  const truncate = (side: BookSide, depth: number) => {
+    const map = side === 'bid' ? bids : asks;
+    const ladder = side === 'bid' ? bidTicks : askTicks;
+    if (ladder.length <= depth) return;
+    for (const ticks of ladder.splice(depth)) map.delete(ticks);
+  };
+
+  const priceOf = (ticks: number) => fromUnits(ticks, scale.tickSize);
+
+  return {
+    bids,
+    asks,
+    get scale() { return scale; },
+    set,
+    clear,
+    setScale: (next) => {
+      scale = next;
+      clear();
+    },
+    bestBid: () => bidTicks.length > 0 ? priceOf(bidTicks[0]) : null,
+    bestAsk: () => askTicks.length > 0 ? priceOf(askTicks[0]) : null,
+    levels: (side) => side === 'bid' ? bidTicks : askTicks,
+    priceOf,
+    qtyOf: (lots) => fromUnits(lots, scale.stepSize),
+    truncate,
+    isEmpty: () => bids.size === 0 || asks.size === 0,
+  };
+};
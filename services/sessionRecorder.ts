@@ -0,0 +1,111 @@
+import { RecordedFrame, RecordedFrameKind, RecordingHeader, SessionRecording, SourceMetadata, VenueId } from '../types';
+
+const FORMAT = 'orderbook-canyon-session';
+export const RECORDING_EXTENSION = '.ocsession.gz';
+
+// Frame kinds are stored as single digits to keep lines short
+const KIND_CODES: Record<RecordedFrameKind, number> = { open: 0, rest: 1, message: 2 };
+const CODE_KINDS: RecordedFrameKind[] = ['open', 'rest', 'message'];
+
+export interface SessionRecorder {
+  onFrame: (frame: RecordedFrame) => void;
+  stop: () => SessionRecording;
+  stats: () => { frames: number; bytes: number; durationMs: number };
+}
+
+/**
+ * Collects raw frames from a live source (see MarketDataSource.setRecorder).
+ */
+export const createSessionRecorder = (metadata: SourceMetadata): SessionRecorder => {
+  const startedAt = Date.now();
+  const frames: RecordedFrame[] = [];
+  let bytes = 0;
+
+  return {
+    onFrame: (frame) => {
+      frames.push(frame);
+      bytes += frame.data.length;
+    },
+
+    stop: () => ({
+      header: {
+        format: FORMAT,
+        version: 1,
+        sourceId: metadata.id as VenueId,
+        venueSymbol: metadata.venueSymbol,
+        symbolInfo: metadata.symbolInfo,
+        tickSize: metadata.tickSize,
+        stepSize: metadata.stepSize,
+        startedAt,
+      },
+      frames: frames.slice(),
+    }),
+
+    stats: () => ({
+      frames: frames.length,
+      bytes,
+      durationMs: frames.length > 0 ? frames[frames.length - 1].t - startedAt : 0,
+    }),
+  };
+};
+
+/**
+ * Serialises a recording as gzip-compressed NDJSON:
+ * a header line, then one `[msSinceStart, kindCode, payload]` line per frame.
+ */
+export const encodeRecording = async (recording: SessionRecording): Promise<Blob> => {
+  const { header, frames } = recording;
+  const lines = [JSON.stringify(header)];
+  for (const f of frames) {
+    lines.push(JSON.stringify([f.t - header.startedAt, KIND_CODES[f.kind], f.data]));
+  }
+
+  const raw = new Blob([lines.join('\n')], { type: 'application/x-ndjson' });
+  const gzipped = raw.stream().pipeThrough(new CompressionStream('gzip'));
+  return new Response(gzipped).blob();
+};
+
+/**
+ * Reads a file written by encodeRecording. Plain (uncompressed) NDJSON is accepted too.
+ */
+export const decodeRecording = async (file: Blob): Promise<SessionRecording> => {
+  const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  const isGzip = head[0] === 0x1f && head[1] === 0x8b;
+  const text = isGzip
+    ? await new Response(file.stream().pipeThrough(new DecompressionStream('gzip'))).text()
+    : await file.text();
+
+  const lines = text.split('\n').filter(line => line.length > 0);
+  if (lines.length === 0) throw new Error('Empty recording');
+
+  const header = JSON.parse(lines[0]) as RecordingHeader;
+  if (header.format !== FORMAT || header.version !== 1) {
+    throw new Error('Not an Orderbook Canyon session recording');
+  }
+
+  const frames: RecordedFrame[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const [dt, code, data] = JSON.parse(lines[i]);
+    frames.push({ t: header.startedAt + dt, kind: CODE_KINDS[code], data });
+  }
+
+  return { header, frames };
+};
+
+export const recordingFileName = (recording: SessionRecording): string => {
+  const { header } = recording;
+  const stamp = new Date(header.startedAt).toISOString().replace(/[:.]/g, '-');
+  return `${header.sourceId}-${header.symbolInfo.symbol}-${stamp}${RECORDING_EXTENSION}`;
+};
+
+/**
+ * Triggers a browser download of a blob.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
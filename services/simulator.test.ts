@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { SimScenario } from '../types';
+import { AggTradeMessage, SIM_SCENARIO_LABELS, createSimulator } from './simulator';
+
+const STEPS = 600; // A minute of the mock source's 100ms steps, through each scenario's main event
+
+// The wire messages of a run, as the mock source would consume them
+const record = (scenario: SimScenario, seed: number) => {
+  const simulator = createSimulator({ scenario, seed, symbol: 'BTCUSDT' });
+  const messages: unknown[] = [simulator.snapshot()];
+  for (let i = 0; i < STEPS; i++) messages.push(simulator.step(1_700_000_000_000 + i * 100));
+  return messages;
+};
+
+interface Frame {
+  bids: Map<number, number>;
+  asks: Map<number, number>;
+  bestBid: number;
+  bestAsk: number;
+  mid: number;
+  // Levels the step's depth update touched, at their new size (0 when removed)
+  changed: { bids: Map<number, number>; asks: Map<number, number> };
+  trades: AggTradeMessage[];
+}
+
+// Replays a run into the book a consumer would hold after each step
+const replay = (scenario: SimScenario, seed = 42): Frame[] => {
+  const simulator = createSimulator({ scenario, seed, symbol: 'BTCUSDT' });
+  const initial = simulator.snapshot();
+  const bids = new Map(initial.bids.map(([p, q]) => [Number(p), Number(q)]));
+  const asks = new Map(initial.asks.map(([p, q]) => [Number(p), Number(q)]));
+  const apply = (levels: [string, string][], side: Map<number, number>) => {
+    const changed = new Map<number, number>();
+    for (const [p, q] of levels) {
+      const price = Number(p);
+      const quantity = Number(q);
+      if (quantity === 0) side.delete(price);
+      else side.set(price, quantity);
+      changed.set(price, quantity);
+    }
+    return changed;
+  };
+
+  const frames: Frame[] = [];
+  for (let i = 0; i < STEPS; i++) {
+    const { depth, trades } = simulator.step(i * 100);
+    const changed = { bids: apply(depth?.b ?? [], bids), asks: apply(depth?.a ?? [], asks) };
+    const bestBid = Math.max(...bids.keys());
+    const bestAsk = Math.min(...asks.keys());
+    frames.push({ bids: new Map(bids), asks: new Map(asks), bestBid, bestAsk, mid: (bestBid + bestAsk) / 2, changed, trades });
+  }
+  return frames;
+};
+
+describe('createSimulator', () => {
+  it.each(Object.keys(SIM_SCENARIO_LABELS) as SimScenario[])('replays the same %s stream for the same seed', scenario => {
+    expect(record(scenario, 42)).toEqual(record(scenario, 42));
+  });
+
+  it('gives another stream for another seed', () => {
+    expect(record('calm', 1)).not.toEqual(record('calm', 2));
+  });
+
+  it('keeps a calm market in a narrow range', () => {
+    const mids = replay('calm').map(f => f.mid);
+    expect((Math.max(...mids) - Math.min(...mids)) / mids[0]).toBeLessThan(0.003);
+  });
+
+  it('drifts the mid upwards in a trend', () => {
+    const frames = replay('trend');
+    expect(frames[STEPS - 1].mid).toBeGreaterThan(frames[0].mid * 1.003);
+  });
+
+  it('drops the mid in a flash crash, then wins part of it back', () => {
+    const mids = replay('flash-crash').map(f => f.mid);
+    const before = mids[199]; // The crash starts on step 200
+    const low = Math.min(...mids.slice(200, 260));
+    const drop = before - low;
+    expect(drop / before).toBeGreaterThan(0.003);
+    // 200 steps of recovery, winning back about 60% of the drop
+    expect(mids[415] - low).toBeGreaterThan(drop * 0.3);
+    expect(mids[415]).toBeLessThan(before + drop * 0.3);
+  });
+
+  it('refills the displayed iceberg bid each time it is hit', () => {
+    const frames = replay('iceberg');
+    const price = [...frames[0].changed.bids].find(([, q]) => q === 1.5)![0]; // The iceberg shows 1.5 at a time
+    let sold = 0;
+    for (const frame of frames) {
+      sold += frame.trades.filter(t => Number(t.p) === price && t.m).reduce((sum, t) => sum + Number(t.q), 0);
+      const shown = frame.bids.get(price);
+      if (shown === undefined) break; // Reserve exhausted
+      expect(shown).toBeLessThanOrEqual(1.5);
+    }
+    // Far more traded at the level than it ever displayed
+    expect(sold).toBeGreaterThan(1.5 * 10);
+  });
+
+  it('pulls spoofed walls as the touch closes in on them', () => {
+    const frames = replay('spoof');
+    const pulls: { placedAway: number; pulledAway: number }[] = [];
+    let wall: { bid: boolean; price: number; placedAway: number } | null = null;
+    frames.forEach((frame, i) => {
+      const previous = frames[i - 1] ?? frame;
+      const away = (bid: boolean, price: number, f: Frame) => Math.abs((bid ? f.bestBid : f.bestAsk) - price);
+      if (wall && !(wall.bid ? frame.bids : frame.asks).has(wall.price)) {
+        pulls.push({ placedAway: wall.placedAway, pulledAway: away(wall.bid, wall.price, previous) });
+        wall = null;
+      }
+      // A wall is 40 times the typical touch size
+      for (const bid of [true, false]) {
+        const placed = [...(bid ? frame.changed.bids : frame.changed.asks)].find(([, q]) => q >= 20);
+        if (placed) wall = { bid, price: placed[0], placedAway: away(bid, placed[0], frame) };
+      }
+    });
+
+    expect(pulls.length).toBeGreaterThan(2);
+    expect(pulls.some(p => p.pulledAway < p.placedAway / 2)).toBe(true);
+  });
+});
@@ -0,0 +1,382 @@
+import { BookSide, SimScenario } from '../types';
+import { BookScale } from './orderBook';
+import { MOCK_TICK_SIZE } from './marketService';
+
+/**
+ * AGENT-BASED MARKET SIMULATOR
+ * Keeps a raw price -> size book that market makers quote around a moving fair value,
+ * takers trade against, and scenario agents (crashes, icebergs, spoofers) disturb.
+ * Speaks Binance's wire format: a REST-style depth snapshot, then `depthUpdate` diffs
+ * and `aggTrade` prints, so anything that consumes the live feed can consume it.
+ * Everything is drawn from a seeded generator: the same seed and scenario give the same
+ * messages step for step, whatever the wall clock says.
+ */
+
+// Wire shapes, as Binance sends them
+export interface DepthSnapshotMessage {
+  lastUpdateId: number;
+  bids: [string, string][]; // [price, qty], best first
+  asks: [string, string][];
+}
+
+export interface DepthUpdateMessage {
+  e: 'depthUpdate';
+  E: number; // Event time
+  s: string;
+  U: number; // First update id in the event
+  u: number; // Final update id in the event
+  b: [string, string][]; // Qty '0' removes the level
+  a: [string, string][];
+}
+
+export interface AggTradeMessage {
+  e: 'aggTrade';
+  E: number;
+  s: string;
+  a: number; // Aggregate trade id
+  p: string;
+  q: string;
+  T: number; // Trade time
+  m: boolean; // Buyer is the maker, i.e. the aggressor sold
+}
+
+export interface SimulatorConfig {
+  scenario: SimScenario;
+  seed: number;
+  symbol: string;
+}
+
+export const SIM_SCENARIO_LABELS: Record<SimScenario, string> = {
+  calm: 'Calm range',
+  trend: 'Trending',
+  'flash-crash': 'Flash crash',
+  iceberg: 'Iceberg refills',
+  spoof: 'Spoofing walls',
+};
+
+export const DEFAULT_SIM_SEED = 1;
+
+// Increments of the simulated instrument; the book is kept in whole ticks and lots
+export const SIM_BOOK_SCALE: BookScale = { tickSize: MOCK_TICK_SIZE, stepSize: 0.00001 };
+const PRICE_DECIMALS = 2;
+const QTY_DECIMALS = 5;
+
+const INITIAL_PRICE = 96000;
+const LEVEL_SPACING = 50; // Makers quote every 50 ticks ($0.50)
+const BOOK_LEVELS = 400; // Quoted levels per side
+const BASE_LEVEL_SIZE = 0.6; // Typical resting size at the touch
+
+// Takers: exponential sizes with occasional blocks, each moving fair value by their volume
+const TAKER_MEAN_SIZE = 0.3;
+const BLOCK_CHANCE = 0.05;
+const BLOCK_FACTOR = 20;
+const IMPACT_BPS_PER_UNIT = 0.4;
+
+// Makers revisit a few levels per step, so sizes drift instead of flickering
+const CHURN_CHANCE = 0.06;
+const NEAR_REFILL_CHANCE = 0.35; // Empty levels within NEAR_LEVELS of the touch
+const FAR_REFILL_CHANCE = 0.04;
+const NEAR_LEVELS = 10;
+
+interface ScenarioParams {
+  volBps: number; // Std-dev of the fair-value random walk per step
+  driftBps: number; // Fair-value drift per step
+  takerRate: number; // Mean market orders per step
+  buyShare: number; // Probability that a market order buys
+}
+
+const SCENARIOS: Record<SimScenario, ScenarioParams> = {
+  calm: { volBps: 0.15, driftBps: 0, takerRate: 1.2, buyShare: 0.5 },
+  trend: { volBps: 0.25, driftBps: 0.08, takerRate: 2, buyShare: 0.62 },
+  'flash-crash': { volBps: 0.2, driftBps: 0, takerRate: 1.5, buyShare: 0.5 },
+  iceberg: { volBps: 0.15, driftBps: -0.03, takerRate: 2, buyShare: 0.4 },
+  spoof: { volBps: 0.2, driftBps: 0, takerRate: 1.5, buyShare: 0.5 },
+};
+
+// Flash crash, in steps: quiet, then bids are pulled and swept, then a partial recovery
+const CRASH_CYCLE = 600;
+const CRASH_START = 200;
+const CRASH_STEPS = 15;
+const RECOVERY_STEPS = 200;
+const CRASH_DEPTH = 0.006; // Share of fair value lost
+const RECOVERY_SHARE = 0.6; // Share of the drop won back
+const CRASH_PULL_LEVELS = 30;
+
+// Iceberg: a hidden bid showing a small clip, refilled from its reserve each time it is hit
+const ICEBERG_CLIP = 1.5;
+const ICEBERG_RESERVE = 120;
+const ICEBERG_DISTANCE = 6; // Levels below the touch when placed
+const ICEBERG_RESPAWN_STEPS = 300;
+
+// Spoofer: a wall far larger than its neighbours, pulled once the touch comes close or it has stood long enough
+const SPOOF_FACTOR = 40;
+const SPOOF_CHANCE = 0.02;
+const SPOOF_DISTANCE = 12;
+const SPOOF_PULL_DISTANCE = 4;
+const SPOOF_LIFETIME = 80;
+const SPOOF_FLOW_BIAS = 0.12; // Flow leans away from the wall while it stands
+
+/**
+ * mulberry32: small, fast and good enough for a simulation.
+ */
+const createRng = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Stateless hash of a price level to [0, 1), so a level's typical size persists
+ * for as long as the price sits there.
+ */
+const hashUnit = (value: number, seed: number): number => {
+  let h = Math.imul((value | 0) ^ seed, 0x9e3779b1);
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h ^= h >>> 13;
+  return (h >>> 0) / 4294967296;
+};
+
+export const createSimulator = ({ scenario, seed, symbol }: SimulatorConfig) => {
+  const params = SCENARIOS[scenario];
+  const rng = createRng(seed);
+
+  // Sizes are whole lots, keyed by whole ticks
+  const book: Record<BookSide, Map<number, number>> = { bid: new Map(), ask: new Map() };
+  let changes: Record<BookSide, Map<number, number>> = { bid: new Map(), ask: new Map() };
+
+  let fair = INITIAL_PRICE / SIM_BOOK_SCALE.tickSize; // In ticks
+  let step = 0;
+  let updateId = 1;
+  let tradeId = 1;
+  let crashFrom = fair;
+  let iceberg: { ticks: number; reserve: number } | null = null;
+  let spoof: { side: BookSide; ticks: number; placedAt: number } | null = null;
+
+  const gaussian = () => Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng());
+
+  const poisson = (mean: number) => {
+    const limit = Math.exp(-mean);
+    let k = 0;
+    for (let p = rng(); p > limit; p *= rng()) k++;
+    return k;
+  };
+
+  const setLevel = (side: BookSide, ticks: number, qty: number) => {
+    const lots = Math.max(0, Math.round(qty / SIM_BOOK_SCALE.stepSize));
+    if (lots === 0) {
+      if (!book[side].has(ticks)) return;
+      book[side].delete(ticks);
+    } else {
+      book[side].set(ticks, lots);
+    }
+    changes[side].set(ticks, lots);
+  };
+
+  const qtyAt = (side: BookSide, ticks: number) => (book[side].get(ticks) ?? 0) * SIM_BOOK_SCALE.stepSize;
+
+  // Best-quoting levels sit on the spacing grid either side of fair value
+  const bidTop = () => Math.floor(fair / LEVEL_SPACING) * LEVEL_SPACING;
+  const topOf = (side: BookSide) => side === 'bid' ? bidTop() : bidTop() + LEVEL_SPACING;
+
+  // Resting size makers aim for `k` levels from the touch: thicker away from it, with walls on round prices
+  const targetSize = (ticks: number, k: number) => {
+    const dollars = Math.round(ticks * SIM_BOOK_SCALE.tickSize * 100) / 100;
+    const round = dollars % 100 === 0 ? 5 : dollars % 50 === 0 ? 2.5 : dollars % 10 === 0 ? 1.5 : 1;
+    const persistent = Math.exp((hashUnit(ticks, seed) - 0.5) * 1.2);
+    return BASE_LEVEL_SIZE * (0.5 + Math.min(1.5, k / 60)) * round * persistent;
+  };
+
+  const ownedByAgent = (side: BookSide, ticks: number) =>
+    (side === 'bid' && iceberg?.ticks === ticks) || (spoof?.side === side && spoof.ticks === ticks);
+
+  /**
+   * Market makers: cancel quotes that fair value has moved through or that drifted too deep,
+   * refill gaps and nudge existing sizes towards their targets.
+   */
+  const makeMarkets = (side: BookSide, refillScale: number) => {
+    const dir = side === 'bid' ? -1 : 1;
+    const top = topOf(side);
+    const levels = book[side];
+
+    for (const ticks of [...levels.keys()]) {
+      const k = (ticks - top) * dir / LEVEL_SPACING;
+      if (k >= 0 && (k < BOOK_LEVELS || ownedByAgent(side, ticks))) continue;
+      setLevel(side, ticks, 0);
+      if (side === 'bid' && iceberg?.ticks === ticks) iceberg = null;
+      if (spoof?.side === side && spoof.ticks === ticks) spoof = null;
+    }
+
+    for (let k = 0; k < BOOK_LEVELS; k++) {
+      const ticks = top + dir * k * LEVEL_SPACING;
+      if (ownedByAgent(side, ticks)) continue;
+      const target = targetSize(ticks, k);
+      if (!levels.has(ticks)) {
+        const chance = k < NEAR_LEVELS ? NEAR_REFILL_CHANCE : FAR_REFILL_CHANCE;
+        if (rng() < chance * refillScale) setLevel(side, ticks, target * (0.5 + rng()));
+      } else if (rng() < CHURN_CHANCE) {
+        const qty = qtyAt(side, ticks);
+        setLevel(side, ticks, Math.max(target * 0.05, qty + (target - qty) * 0.3 + gaussian() * target * 0.15));
+      }
+    }
+  };
+
+  /**
+   * A market order sweeping the opposite side best-first; prints one aggTrade per price level.
+   * Returns the volume that moved the price (icebergs absorb theirs).
+   */
+  const sweep = (aggressor: 'buy' | 'sell', size: number, time: number, trades: AggTradeMessage[]): number => {
+    const side: BookSide = aggressor === 'buy' ? 'ask' : 'bid';
+    const ladder = [...book[side].keys()].sort((a, b) => side === 'bid' ? b - a : a - b);
+    let remaining = size;
+    let impactVolume = 0;
+
+    for (const ticks of ladder) {
+      if (remaining <= SIM_BOOK_SCALE.stepSize) break;
+      let filled = 0;
+      const isIceberg = side === 'bid' && iceberg?.ticks === ticks;
+      while (remaining > SIM_BOOK_SCALE.stepSize) {
+        const available = qtyAt(side, ticks);
+        if (available <= 0) break;
+        const take = Math.min(available, remaining);
+        setLevel(side, ticks, available - take);
+        filled += take;
+        remaining -= take;
+        // The iceberg shows a fresh clip as soon as the displayed one is gone
+        if (isIceberg && iceberg && qtyAt(side, ticks) <= 0 && iceberg.reserve > 0) {
+          const clip = Math.min(ICEBERG_CLIP, iceberg.reserve);
+          iceberg.reserve -= clip;
+          setLevel(side, ticks, clip);
+        }
+      }
+      if (isIceberg && iceberg && qtyAt(side, ticks) <= 0) iceberg = null;
+      if (filled <= 0) continue;
+      if (!isIceberg) impactVolume += filled;
+
+      trades.push({
+        e: 'aggTrade',
+        E: time,
+        s: symbol,
+        a: tradeId++,
+        p: (ticks * SIM_BOOK_SCALE.tickSize).toFixed(PRICE_DECIMALS),
+        q: filled.toFixed(QTY_DECIMALS),
+        T: time,
+        m: aggressor === 'sell',
+      });
+    }
+    return impactVolume;
+  };
+
+  const encodeLevels = (levels: Iterable<[number, number]>): [string, string][] =>
+    [...levels].map(([ticks, lots]) => [
+      (ticks * SIM_BOOK_SCALE.tickSize).toFixed(PRICE_DECIMALS),
+      (lots * SIM_BOOK_SCALE.stepSize).toFixed(QTY_DECIMALS),
+    ]);
+
+  /**
+   * Current book as a REST depth snapshot, best levels first.
+   */
+  const snapshot = (): DepthSnapshotMessage => ({
+    lastUpdateId: updateId - 1,
+    bids: encodeLevels([...book.bid.entries()].sort((a, b) => b[0] - a[0])),
+    asks: encodeLevels([...book.ask.entries()].sort((a, b) => a[0] - b[0])),
+  });
+
+  /**
+   * Advances the market by one step (meant to be 100 ms) and returns what a venue would have sent.
+   * `time` only stamps the messages; it never influences the simulation.
+   */
+  const advance = (time: number): { depth: DepthUpdateMessage | null; trades: AggTradeMessage[] } => {
+    step++;
+    const trades: AggTradeMessage[] = [];
+    let buyShare = params.buyShare;
+    let bidRefill = 1;
+
+    // Scenario agents
+    if (scenario === 'flash-crash') {
+      const phase = step % CRASH_CYCLE;
+      if (phase === CRASH_START) crashFrom = fair;
+      if (phase >= CRASH_START && phase < CRASH_START + CRASH_STEPS) {
+        // Makers pull their bids while sellers sweep what is left
+        const top = bidTop();
+        for (let k = 0; k < CRASH_PULL_LEVELS; k++) {
+          if (rng() < 0.5) setLevel('bid', top - k * LEVEL_SPACING, 0);
+        }
+        bidRefill = 0.3;
+        sweep('sell', BASE_LEVEL_SIZE * BLOCK_FACTOR, time, trades);
+        fair -= crashFrom * CRASH_DEPTH / CRASH_STEPS;
+      } else if (phase >= CRASH_START + CRASH_STEPS && phase < CRASH_START + CRASH_STEPS + RECOVERY_STEPS) {
+        fair += crashFrom * CRASH_DEPTH * RECOVERY_SHARE / RECOVERY_STEPS;
+        buyShare = 0.6;
+      }
+    } else if (scenario === 'iceberg') {
+      if (!iceberg && step % ICEBERG_RESPAWN_STEPS === 1) {
+        const ticks = bidTop() - ICEBERG_DISTANCE * LEVEL_SPACING;
+        iceberg = { ticks, reserve: ICEBERG_RESERVE };
+        setLevel('bid', ticks, ICEBERG_CLIP);
+      }
+    } else if (scenario === 'spoof') {
+      if (spoof) {
+        const distance = Math.abs(topOf(spoof.side) - spoof.ticks) / LEVEL_SPACING;
+        if (distance <= SPOOF_PULL_DISTANCE || step - spoof.placedAt > SPOOF_LIFETIME) {
+          setLevel(spoof.side, spoof.ticks, 0);
+          spoof = null;
+        } else {
+          buyShare += spoof.side === 'bid' ? SPOOF_FLOW_BIAS : -SPOOF_FLOW_BIAS;
+        }
+      } else if (rng() < SPOOF_CHANCE) {
+        const side: BookSide = rng() < 0.5 ? 'bid' : 'ask';
+        const ticks = topOf(side) + (side === 'bid' ? -1 : 1) * SPOOF_DISTANCE * LEVEL_SPACING;
+        spoof = { side, ticks, placedAt: step };
+        setLevel(side, ticks, BASE_LEVEL_SIZE * SPOOF_FACTOR);
+      }
+    }
+
+    // Takers, whose net volume pushes fair value
+    const orders = poisson(params.takerRate);
+    for (let i = 0; i < orders; i++) {
+      const aggressor = rng() < buyShare ? 'buy' : 'sell';
+      const size = -Math.log(1 - rng()) * TAKER_MEAN_SIZE * (rng() < BLOCK_CHANCE ? BLOCK_FACTOR : 1);
+      const moved = sweep(aggressor, size, time, trades);
+      fair += (aggressor === 'buy' ? 1 : -1) * moved * fair * IMPACT_BPS_PER_UNIT / 10000;
+    }
+
+    // Fair value drift and noise; a standing iceberg holds the price above it
+    fair += fair * (params.driftBps + gaussian() * params.volBps) / 10000;
+    if (iceberg) fair = Math.max(fair, iceberg.ticks + LEVEL_SPACING * 0.5);
+
+    makeMarkets('bid', bidRefill);
+    makeMarkets('ask', 1);
+
+    const depth = changes.bid.size + changes.ask.size > 0
+      ? {
+          e: 'depthUpdate' as const,
+          E: time,
+          s: symbol,
+          U: updateId,
+          u: updateId,
+          b: encodeLevels(changes.bid),
+          a: encodeLevels(changes.ask),
+        }
+      : null;
+    if (depth) updateId++;
+    changes = { bid: new Map(), ask: new Map() };
+    return { depth, trades };
+  };
+
+  // Start from a fully quoted book
+  for (const side of ['bid', 'ask'] as BookSide[]) {
+    const dir = side === 'bid' ? -1 : 1;
+    for (let k = 0; k < BOOK_LEVELS; k++) {
+      const ticks = topOf(side) + dir * k * LEVEL_SPACING;
+      setLevel(side, ticks, targetSize(ticks, k) * (0.5 + rng()));
+    }
+  }
+  changes = { bid: new Map(), ask: new Map() };
+
+  return { snapshot, step: advance };
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { BookMetrics, OrderBookSnapshot } from '../types';
+import { decodeSnapshotExport, encodeSnapshots } from './snapshotExport';
+
+const META = { source: 'Consolidated', symbolInfo: { symbol: 'BTCUSDT', baseAsset: 'BTC', quoteAsset: 'USDT' }, tickSize: 0.1 };
+
+const metrics: BookMetrics = {
+  bestBid: 100,
+  bestAsk: 101,
+  spread: 1,
+  spreadBps: 99.5,
+  spreadTicks: null,
+  imbalance: 0.25,
+  microprice: 100.4,
+  weightedMid: 100.45,
+  bidDepth: [1, 3, 3],
+  askDepth: [2, 2, 2],
+  bidNotional: [100, 299, 299],
+  askNotional: [202, 202, 202],
+};
+
+const slices: OrderBookSnapshot[] = [
+  {
+    timestamp: 1000,
+    midPrice: 100.5,
+    bucketSize: 1,
+    bids: [{ price: 100, quantity: 1, total: 1 }, { price: 99, quantity: 2, total: 3 }],
+    asks: [{ price: 101, quantity: 2, total: 2 }, { price: 102, quantity: 0, total: 2 }],
+    trades: [{ time: 990, price: 101, quantity: 0.5, side: 'buy' }],
+    metrics,
+    breakdown: { venues: ['binance', 'kraken'], bids: [[1, 0], [0, 2]], asks: [[2, 0], [0, 0]] },
+  },
+  {
+    timestamp: 1200,
+    midPrice: 100.5,
+    bucketSize: 1,
+    bids: [{ price: 100, quantity: 1, total: 1 }, { price: 99, quantity: 0, total: 1 }],
+    asks: [{ price: 101, quantity: 1, total: 1 }, { price: 102, quantity: 1, total: 2 }],
+  },
+];
+
+describe('snapshot export', () => {
+  it('round-trips slices through JSON with their trades, metrics and venue breakdowns', async () => {
+    const { header, slices: decoded } = await decodeSnapshotExport(encodeSnapshots(slices, 'json', META));
+    expect(header).toMatchObject({ format: 'orderbook-canyon-snapshots', version: 1, ...META });
+    expect(decoded).toEqual(slices);
+  });
+});
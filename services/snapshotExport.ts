@@ -0,0 +1,188 @@
+import { BookMetrics, BookSide, ExportFormat, OrderBookSnapshot, OrderEntry, SnapshotExport, SnapshotExportHeader, Trade, VenueBreakdown } from '../types';
+
+const FORMAT = 'orderbook-canyon-snapshots';
+const COLUMNAR_MAGIC = 'OCCOL001';
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: '.csv',
+  json: '.json',
+  columnar: '.occol',
+};
+
+/**
+ * One row per timestamp/side/bucket, the shape all export formats share.
+ */
+interface ExportRow {
+  timestamp: number;
+  side: BookSide;
+  bucket: number; // 0 is nearest the mid
+  price: number;
+  quantity: number;
+  total: number;
+  midPrice: number;
+  bucketSize: number;
+}
+
+interface ExportTrade extends Trade {
+  timestamp: number; // Slice the trade was attached to
+}
+
+// Per-slice extras of the JSON export, keyed by their slice's timestamp like trades
+interface ExportMetrics extends BookMetrics {
+  timestamp: number;
+}
+
+interface ExportBreakdown extends VenueBreakdown {
+  timestamp: number;
+}
+
+const toRows = (slices: OrderBookSnapshot[]): ExportRow[] => {
+  const rows: ExportRow[] = [];
+  for (const s of slices) {
+    const push = (side: BookSide, entries: OrderEntry[]) => entries.forEach((e, bucket) => rows.push({
+      timestamp: s.timestamp,
+      side,
+      bucket,
+      price: e.price,
+      quantity: e.quantity,
+      total: e.total,
+      midPrice: s.midPrice,
+      bucketSize: s.bucketSize,
+    }));
+    push('bid', s.bids);
+    push('ask', s.asks);
+  }
+  return rows;
+};
+
+const CSV_COLUMNS: (keyof ExportRow)[] = ['timestamp', 'side', 'bucket', 'price', 'quantity', 'total', 'midPrice', 'bucketSize'];
+
+const encodeCsv = (rows: ExportRow[]): string => [
+  CSV_COLUMNS.join(','),
+  ...rows.map(row => CSV_COLUMNS.map(c => row[c]).join(',')),
+].join('\n');
+
+const encodeJson = (header: SnapshotExportHeader, slices: OrderBookSnapshot[]): string => {
+  const trades: ExportTrade[] = slices.flatMap(s => (s.trades ?? []).map(t => ({ ...t, timestamp: s.timestamp })));
+  const metrics: ExportMetrics[] = slices.flatMap(s => s.metrics ? [{ ...s.metrics, timestamp: s.timestamp }] : []);
+  const breakdowns: ExportBreakdown[] = slices.flatMap(s => s.breakdown ? [{ ...s.breakdown, timestamp: s.timestamp }] : []);
+  return JSON.stringify({ ...header, rows: toRows(slices), trades, metrics, breakdowns });
+};
+
+/**
+ * Compact columnar binary for large exports, readable without a parser library:
+ * the ASCII magic "OCCOL001", a little-endian uint32 header length, a UTF-8 JSON header
+ * listing each column's name, dtype, byte offset and length, then the columns themselves,
+ * each little-endian and 8-byte aligned (numpy: `np.frombuffer(buf, dtype, count=rows, offset=offset)`).
+ * `side` is 0 for bids and 1 for asks.
+ */
+const encodeColumnar = (header: SnapshotExportHeader, rows: ExportRow[]): ArrayBuffer => {
+  const n = rows.length;
+  const columns: { name: string; dtype: 'float64' | 'uint16' | 'uint8'; data: ArrayBufferView }[] = [
+    { name: 'timestamp', dtype: 'float64', data: Float64Array.from(rows, r => r.timestamp) },
+    { name: 'side', dtype: 'uint8', data: Uint8Array.from(rows, r => r.side === 'bid' ? 0 : 1) },
+    { name: 'bucket', dtype: 'uint16', data: Uint16Array.from(rows, r => r.bucket) },
+    { name: 'price', dtype: 'float64', data: Float64Array.from(rows, r => r.price) },
+    { name: 'quantity', dtype: 'float64', data: Float64Array.from(rows, r => r.quantity) },
+    { name: 'total', dtype: 'float64', data: Float64Array.from(rows, r => r.total) },
+    { name: 'midPrice', dtype: 'float64', data: Float64Array.from(rows, r => r.midPrice) },
+    { name: 'bucketSize', dtype: 'float64', data: Float64Array.from(rows, r => r.bucketSize) },
+  ];
+  const align = (x: number) => Math.ceil(x / 8) * 8;
+
+  const layout = (dataStart: number) => {
+    let offset = dataStart;
+    return columns.map(c => {
+      const entry = { name: c.name, dtype: c.dtype, offset, byteLength: c.data.byteLength };
+      offset = align(offset + c.data.byteLength);
+      return entry;
+    });
+  };
+  const encoder = new TextEncoder();
+  const headerFor = (dataStart: number) =>
+    encoder.encode(JSON.stringify({ ...header, format: 'orderbook-canyon-columnar', rows: n, columns: layout(dataStart) }));
+
+  // Column offsets are part of the header, so push the data start out until the header fits in front of it
+  let dataStart = 0;
+  let headerBytes = headerFor(dataStart);
+  while (align(12 + headerBytes.length) > dataStart) {
+    dataStart = align(12 + headerBytes.length);
+    headerBytes = headerFor(dataStart);
+  }
+
+  const entries = layout(dataStart);
+  const last = entries[entries.length - 1];
+  const buffer = new ArrayBuffer(align(last.offset + last.byteLength));
+  const bytes = new Uint8Array(buffer);
+  bytes.set(encoder.encode(COLUMNAR_MAGIC), 0);
+  new DataView(buffer).setUint32(8, headerBytes.length, true);
+  bytes.set(headerBytes, 12);
+  columns.forEach((c, i) => {
+    bytes.set(new Uint8Array(c.data.buffer, c.data.byteOffset, c.data.byteLength), entries[i].offset);
+  });
+  return buffer;
+};
+
+/**
+ * Serialises slices in one of the export formats.
+ */
+export const encodeSnapshots = (
+  slices: OrderBookSnapshot[],
+  format: ExportFormat,
+  meta: Omit<SnapshotExportHeader, 'format' | 'version' | 'exportedAt'>
+): Blob => {
+  const header: SnapshotExportHeader = { format: FORMAT, version: 1, exportedAt: Date.now(), ...meta };
+  if (format === 'csv') return new Blob([encodeCsv(toRows(slices))], { type: 'text/csv' });
+  if (format === 'json') return new Blob([encodeJson(header, slices)], { type: 'application/json' });
+  return new Blob([encodeColumnar(header, toRows(slices))], { type: 'application/octet-stream' });
+};
+
+/**
+ * Reads a JSON export back into slices, e.g. to replay it.
+ */
+export const decodeSnapshotExport = async (file: Blob): Promise<SnapshotExport> => {
+  const parsed = JSON.parse(await file.text());
+  if (parsed?.format !== FORMAT || parsed.version !== 1 || !Array.isArray(parsed.rows)) {
+    throw new Error('Not an Orderbook Canyon snapshot export');
+  }
+  const { rows, trades, metrics, breakdowns, ...header } = parsed as SnapshotExportHeader & {
+    rows: ExportRow[];
+    trades?: ExportTrade[];
+    metrics?: ExportMetrics[];
+    breakdowns?: ExportBreakdown[];
+  };
+
+  const byTime = new Map<number, OrderBookSnapshot>();
+  for (const row of rows) {
+    let slice = byTime.get(row.timestamp);
+    if (!slice) {
+      slice = { timestamp: row.timestamp, midPrice: row.midPrice, bucketSize: row.bucketSize, bids: [], asks: [] };
+      byTime.set(row.timestamp, slice);
+    }
+    const entries = row.side === 'bid' ? slice.bids : slice.asks;
+    entries[row.bucket] = { price: row.price, quantity: row.quantity, total: row.total };
+  }
+
+  for (const { timestamp, ...trade } of trades ?? []) {
+    const slice = byTime.get(timestamp);
+    if (slice) (slice.trades ??= []).push(trade);
+  }
+
+  // Exports written before metrics and breakdowns were kept simply have neither
+  for (const { timestamp, ...sliceMetrics } of metrics ?? []) {
+    const slice = byTime.get(timestamp);
+    if (slice) slice.metrics = sliceMetrics;
+  }
+  for (const { timestamp, ...breakdown } of breakdowns ?? []) {
+    const slice = byTime.get(timestamp);
+    if (slice) slice.breakdown = breakdown;
+  }
+
+  const slices = [...byTime.values()].sort((a, b) => a.timestamp - b.timestamp);
+  return { header, slices };
+};
+
+export const exportFileName = (symbol: string, scope: string, format: ExportFormat, timestamp = Date.now()): string => {
+  const stamp = new Date(timestamp).toISOString().replace(/[:.]/g, '-');
+  return `${symbol}-${scope}-${stamp}${EXPORT_EXTENSIONS[format]}`;
+};
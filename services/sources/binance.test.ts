@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseSymbol } from '../symbolService';
+import { binanceVenue } from './binance';
+import { FakeFeed, bookSide, createFakeFeed } from './fixtures/fakeFeed';
+import fixture from './fixtures/binance.json';
+
+const isDepthSnapshot = (url: string) => url.includes('/api/v3/depth');
+
+const startFeed = () => createFakeFeed(
+  binanceVenue(parseSymbol('BTCUSDT')),
+  url => isDepthSnapshot(url) ? undefined : fixture.exchangeInfo
+);
+
+const depthFetches = (feed: FakeFeed) => feed.fetches.filter(isDepthSnapshot).length;
+
+// Opens the socket, buffers the pre-snapshot events and answers the first snapshot
+const syncFeed = async () => {
+  const feed = await startFeed();
+  feed.socket().open();
+  fixture.beforeSnapshot.forEach(feed.socket().receive);
+  await feed.respond(fixture.snapshots[0]);
+  return feed;
+};
+
+describe('Binance feed', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('fetches the depth snapshot once the stream is open', async () => {
+    const feed = await startFeed();
+    expect(feed.source.book.scale).toEqual({ tickSize: 0.01, stepSize: 0.00001 });
+    expect(depthFetches(feed)).toBe(0);
+
+    feed.socket().open();
+    expect(feed.statuses).toEqual(['connecting', 'syncing']);
+    expect(depthFetches(feed)).toBe(1);
+  });
+
+  it('applies buffered events past the snapshot, then the live stream in sequence', async () => {
+    const feed = await syncFeed();
+    expect(feed.statuses[feed.statuses.length - 1]).toBe('live');
+    // u=999 predates the snapshot and is dropped; U=1000..u=1002 straddles it and is applied
+    expect(bookSide(feed.source, 'bid')).toEqual([[64000.1, 1.75], [64000, 0.25], [63999.5, 3]]);
+    expect(bookSide(feed.source, 'ask')).toEqual([[64000.3, 2], [64001, 4]]);
+
+    fixture.live.forEach(feed.socket().receive);
+    expect(bookSide(feed.source, 'bid')).toEqual([[64000.15, 0.3], [64000.1, 1.75], [63999.5, 3]]);
+    expect(bookSide(feed.source, 'ask')).toEqual([[64000.25, 0.4], [64000.3, 2], [64001, 4]]);
+    expect(feed.trades).toEqual([{ time: 1717000000250, price: 64000.25, quantity: 0.015, side: 'buy' }]);
+
+    await feed.tick(20);
+    expect(feed.snapshots.length).toBeGreaterThan(0);
+    expect(feed.snapshots[feed.snapshots.length - 1].midPrice).toBeCloseTo(64000.2);
+  });
+
+  it('drops the book on a U/u gap and rebuilds it from a fresh snapshot', async () => {
+    const feed = await syncFeed();
+    fixture.live.forEach(feed.socket().receive);
+    await feed.tick(20);
+    const emitted = feed.snapshots.length;
+
+    fixture.gap.forEach(feed.socket().receive);
+    expect(feed.statuses[feed.statuses.length - 1]).toBe('resyncing');
+    await feed.tick();
+    expect(depthFetches(feed)).toBe(2);
+
+    // Nothing is emitted from the stale book while the snapshot is in flight
+    feed.socket().receive(fixture.afterResync[0]);
+    await feed.tick(20);
+    expect(feed.snapshots.length).toBe(emitted);
+
+    await feed.respond(fixture.snapshots[1]);
+    feed.socket().receive(fixture.afterResync[1]);
+    expect(feed.statuses[feed.statuses.length - 1]).toBe('live');
+    expect(bookSide(feed.source, 'bid')).toEqual([[64002, 1.1], [64001.9, 2]]);
+    expect(bookSide(feed.source, 'ask')).toEqual([[64002.5, 1.2]]);
+    expect(feed.sockets.length).toBe(1);
+  });
+
+  it('resyncs on a gap inside the buffered events instead of waiting forever', async () => {
+    const feed = await startFeed();
+    feed.socket().open();
+    fixture.beforeSnapshot.forEach(feed.socket().receive);
+    fixture.gap.forEach(feed.socket().receive);
+    await feed.respond(fixture.snapshots[0]);
+
+    expect(feed.statuses[feed.statuses.length - 1]).toBe('resyncing');
+    await feed.tick();
+    expect(depthFetches(feed)).toBe(2);
+
+    feed.socket().receive(fixture.afterResync[0]);
+    await feed.respond(fixture.snapshots[1]);
+    expect(feed.statuses[feed.statuses.length - 1]).toBe('live');
+  });
+
+  it('backs off snapshot refetches when gaps keep coming', async () => {
+    const feed = await syncFeed();
+    fixture.gap.forEach(feed.socket().receive);
+    await feed.tick();
+    feed.socket().receive(fixture.afterResync[0]);
+    await feed.respond(fixture.snapshots[1]);
+    expect(depthFetches(feed)).toBe(2);
+
+    // A second gap within the minute waits before hitting the weight-50 endpoint again
+    feed.socket().receive({ ...fixture.afterResync[1], data: { ...fixture.afterResync[1].data, U: 1110, u: 1111 } });
+    await feed.tick(400);
+    expect(depthFetches(feed)).toBe(2);
+    await feed.tick(1000);
+    expect(depthFetches(feed)).toBe(3);
+  });
+
+  it('reconnects when the socket never opens', async () => {
+    const feed = await startFeed();
+    await feed.tick(11000);
+    expect(feed.statuses[feed.statuses.length - 1]).toBe('reconnecting');
+  });
+
+  it('drops the request timeout once the snapshot answers', async () => {
+    const feed = await startFeed();
+    feed.socket().open();
+    const pending = vi.getTimerCount();
+    await feed.respond(fixture.snapshots[0]);
+    await feed.tick(20); // Lets the first emit's frame run
+    expect(vi.getTimerCount()).toBe(pending - 1);
+  });
+
+  it('reconnects when the snapshot request never answers', async () => {
+    const feed = await startFeed();
+    feed.socket().open();
+    await feed.tick(10000);
+    expect(feed.statuses[feed.statuses.length - 1]).toBe('reconnecting');
+  });
+});
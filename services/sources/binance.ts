@@ -0,0 +1,196 @@
+import { SymbolInfo } from '../../types';
+import { FeedContext, FeedSession, LiveSourceConfig, fetchJson } from './feed';
+
+// Snapshot refetches after a gap back off: depth?limit=1000 costs 50 of the 6000 request weight per minute
+const RESYNC_BASE_DELAY_MS = 1000; // A second gap soon after the first waits ~1s, doubling each time
+const RESYNC_MAX_DELAY_MS = 16000;
+const RESYNC_RESET_MS = 60000; // A gap this long after the previous one refetches immediately
+
+/**
+ * BINANCE DIFF-DEPTH STREAM IMPLEMENTATION
+ * Connects to the combined stream <symbol>@depth@100ms + <symbol>@aggTrade
+ * Fetches initial snapshot from REST API to build the base book.
+ *
+ * Sequencing follows Binance's "manage a local order book" rules:
+ * every applied event must continue the previous one (U === prev u + 1).
+ * Any gap drops the local book and rebuilds it from a fresh snapshot.
+ */
+const createBinanceSession = (ctx: FeedContext, snapshotUrl: string): FeedSession => {
+  const { book } = ctx;
+
+  // Buffer for events that arrive before the snapshot
+  let eventBuffer: any[] = [];
+  let hasSnapshot = false;
+  let lastUpdateId = 0;
+  // Final update id (u) of the last applied event; null until the first event after a snapshot
+  let prevFinalId: number | null = null;
+  let snapshotInFlight = false;
+  let resyncTimer: ReturnType<typeof setTimeout> | null = null;
+  let resyncAttempts = 0;
+  let lastResyncAt = -Infinity;
+
+  ctx.signal.addEventListener('abort', () => {
+    if (resyncTimer) clearTimeout(resyncTimer);
+    resyncTimer = null;
+  });
+
+  const fetchSnapshot = async () => {
+    if (snapshotInFlight) return;
+    snapshotInFlight = true;
+
+    try {
+      const data = await fetchJson(ctx.fetch, snapshotUrl, ctx.signal);
+      if (ctx.signal.aborted) return;
+      
+      // Initialize Map from Snapshot
+      // Binance Snapshot format: { lastUpdateId: number, bids: [price, qty][], asks: [price, qty][] }
+      
+      lastUpdateId = data.lastUpdateId;
+      prevFinalId = null;
+
+      book.clear();
+      data.bids.forEach((item: string[]) => {
+        book.set('bid', item[0], item[1]);
+      });
+      data.asks.forEach((item: string[]) => {
+        book.set('ask', item[0], item[1]);
+      });
+
+      hasSnapshot = true;
+      // Cleared before the replay: a gap in the buffered events resyncs, which must be free to fetch again
+      snapshotInFlight = false;
+
+      // Process Buffered Events
+      // Drop any event where u <= lastUpdateId
+      const validEvents = eventBuffer.filter(e => e.u > lastUpdateId);
+      eventBuffer = []; // Clear buffer
+
+      for (const e of validEvents) {
+        if (!applyEvent(e)) return;
+      }
+
+      ctx.markLive();
+
+    } catch (err) {
+      snapshotInFlight = false;
+      if (ctx.signal.aborted) return;
+      console.error("Failed to fetch Binance snapshot:", err);
+      ctx.fail('snapshot failed');
+    }
+  };
+
+  /**
+   * Drops the local book and re-fetches the REST snapshot, immediately for an isolated gap and
+   * with exponential backoff when gaps keep coming. Events keep buffering until the snapshot lands.
+   */
+  const resync = (reason: string) => {
+    hasSnapshot = false;
+    prevFinalId = null;
+    eventBuffer = [];
+    ctx.invalidate();
+    ctx.setStatus('resyncing');
+    if (resyncTimer) return; // A refetch is already scheduled
+
+    const now = Date.now();
+    resyncAttempts = now - lastResyncAt > RESYNC_RESET_MS ? 0 : resyncAttempts + 1;
+    lastResyncAt = now;
+    const delay = resyncAttempts === 0 ? 0 : Math.min(RESYNC_MAX_DELAY_MS, RESYNC_BASE_DELAY_MS * 2 ** (resyncAttempts - 1));
+
+    console.warn(`Binance depth gap (${reason}), resyncing${delay > 0 ? ` in ${delay}ms` : ''}`);
+    resyncTimer = setTimeout(() => {
+      resyncTimer = null;
+      fetchSnapshot();
+    }, delay);
+  };
+
+  /**
+   * Validates sequencing and applies the event.
+   * Returns false if a gap was found and a resync has been started.
+   */
+  const applyEvent = (e: any): boolean => {
+    if (prevFinalId === null) {
+      // The first processed event should have U <= lastUpdateId+1 AND u >= lastUpdateId+1
+      if (e.u <= lastUpdateId) return true; // Stale, already contained in the snapshot
+      if (e.U > lastUpdateId + 1) {
+        resync(`first event U=${e.U} > lastUpdateId+1=${lastUpdateId + 1}`);
+        return false;
+      }
+    } else if (e.U !== prevFinalId + 1) {
+      // Every following event must pick up exactly where the previous one ended
+      resync(`expected U=${prevFinalId + 1}, got U=${e.U}`);
+      return false;
+    }
+
+    processEvent(e);
+    prevFinalId = e.u;
+    return true;
+  };
+
+  const processEvent = (e: any) => {
+    // e.b = bids updates, e.a = asks updates
+    // Update format: [ [ "price", "qty" ], ... ]
+    
+    if (e.b) {
+      for (const [pStr, qStr] of e.b) {
+        book.set('bid', pStr, qStr);
+      }
+    }
+
+    if (e.a) {
+      for (const [pStr, qStr] of e.a) {
+        book.set('ask', pStr, qStr);
+      }
+    }
+  };
+
+  return {
+    // Once WS is open, fetch the snapshot; events buffer meanwhile
+    onOpen: fetchSnapshot,
+
+    onMessage: (message) => {
+      // Combined streams wrap events as { stream, data }; raw /ws recordings do not
+      const data = message.data ?? message;
+
+      // aggTrade: m = buyer is the maker, so the aggressor was the seller
+      if (data.e === 'aggTrade') {
+        ctx.trades([{
+          time: data.T,
+          price: parseFloat(data.p),
+          quantity: parseFloat(data.q),
+          side: data.m ? 'sell' : 'buy',
+        }]);
+        return;
+      }
+
+      // Event type 'depthUpdate'
+      if (data.e !== 'depthUpdate') return;
+
+      if (!hasSnapshot) {
+        eventBuffer.push(data);
+      } else if (applyEvent(data)) {
+        ctx.update();
+      }
+    },
+  };
+};
+
+export const binanceVenue = (symbolInfo: SymbolInfo): LiveSourceConfig => {
+  const symbol = symbolInfo.symbol.toUpperCase();
+  const snapshotUrl = `https://api.binance.com/api/v3/depth?symbol=${symbol}&limit=1000`;
+
+  return {
+    metadata: { id: 'binance', label: 'Binance', venueSymbol: symbol, symbolInfo },
+    url: `wss://stream.binance.com:9443/stream?streams=${symbol.toLowerCase()}@depth@100ms/${symbol.toLowerCase()}@aggTrade`,
+    createSession: (ctx) => createBinanceSession(ctx, snapshotUrl),
+    // PRICE_FILTER.tickSize and LOT_SIZE.stepSize from exchangeInfo
+    fetchInstrument: async (fetchImpl, signal) => {
+      const data = await fetchJson(fetchImpl, `https://api.binance.com/api/v3/exchangeInfo?symbol=${symbol}`, signal);
+      const filters: any[] = data.symbols?.[0]?.filters ?? [];
+      const tickSize = parseFloat(filters.find(f => f.filterType === 'PRICE_FILTER')?.tickSize);
+      const stepSize = parseFloat(filters.find(f => f.filterType === 'LOT_SIZE')?.stepSize);
+      if (!(tickSize > 0)) throw new Error(`No PRICE_FILTER for ${symbol}`);
+      if (!(stepSize > 0)) throw new Error(`No LOT_SIZE for ${symbol}`);
+      return { tickSize, stepSize };
+    },
+  };
+};
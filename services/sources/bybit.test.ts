@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseSymbol } from '../symbolService';
+import { bybitVenue } from './bybit';
+import { bookSide, createFakeFeed } from './fixtures/fakeFeed';
+import fixture from './fixtures/bybit.json';
+
+const startFeed = () => createFakeFeed(bybitVenue(parseSymbol('BTCUSDT')), () => fixture.instrumentsInfo);
+
+describe('Bybit feed', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('applies the snapshot, then deltas whose u continues the previous one', async () => {
+    const feed = await startFeed();
+    feed.socket().open();
+    expect(feed.socket().sent).toEqual([{ op: 'subscribe', args: ['orderbook.200.BTCUSDT', 'publicTrade.BTCUSDT'] }]);
+    fixture.session.forEach(feed.socket().receive);
+
+    expect(feed.statuses[feed.statuses.length - 1]).toBe('live');
+    expect(bookSide(feed.source, 'bid')).toEqual([[63999.95, 0.6], [63999.9, 1.5]]);
+    expect(bookSide(feed.source, 'ask')).toEqual([[64000.01, 0.2], [64000.02, 0.15], [64000.5, 3.104]]);
+    expect(feed.trades).toEqual([{ time: 1717000000030, price: 64000.01, quantity: 0.004, side: 'buy' }]);
+  });
+
+  it('resubscribes when a delta skips an update id', async () => {
+    const feed = await startFeed();
+    const first = feed.socket();
+    first.open();
+    fixture.session.forEach(first.receive);
+    fixture.gap.forEach(first.receive);
+
+    expect(feed.statuses[feed.statuses.length - 1]).toBe('resyncing');
+    expect(feed.sockets.length).toBe(2);
+    // The delta after the gap was not applied
+    expect(feed.source.book.isEmpty()).toBe(true);
+
+    const second = feed.socket();
+    second.open();
+    fixture.resubscribed.forEach(second.receive);
+    expect(feed.statuses[feed.statuses.length - 1]).toBe('live');
+    expect(bookSide(feed.source, 'bid')).toEqual([[64001, 0.55]]);
+    expect(bookSide(feed.source, 'ask')).toEqual([[64001.1, 0.7]]);
+  });
+
+  it('pings to keep the connection alive', async () => {
+    const feed = await startFeed();
+    feed.socket().open();
+    fixture.session.forEach(feed.socket().receive);
+    // Messages keep flowing, so the watchdog leaves the connection alone
+    for (let t = 0; t < 20; t++) {
+      feed.socket().receive({ success: true, ret_msg: 'pong', op: 'ping' });
+      await feed.tick(1000);
+    }
+    expect(feed.socket().sent).toContainEqual({ op: 'ping' });
+  });
+});
@@ -0,0 +1,89 @@
+import { SymbolInfo } from '../../types';
+import { FeedContext, FeedSession, LiveSourceConfig, fetchJson } from './feed';
+
+const BYBIT_DEPTH = 200;
+const BYBIT_PING_MS = 20000; // Bybit drops connections without a ping every ~20s
+
+/**
+ * BYBIT V5 SPOT ORDERBOOK IMPLEMENTATION
+ * Subscribes to `orderbook.<depth>.<symbol>`. A 'snapshot' message replaces the book
+ * (Bybit also sends one with u=1 after a service restart), 'delta' messages carry absolute sizes.
+ * Each delta's update id `u` must follow the previous one; a jump triggers a resubscribe.
+ * `publicTrade.<symbol>` feeds the trade tape (`S` is the taker side).
+ */
+const createBybitSession = (ctx: FeedContext, topic: string, tradeTopic: string): FeedSession => {
+  const { book } = ctx;
+  let lastUpdateId: number | null = null;
+
+  const applyLevels = (data: any) => {
+    for (const [p, q] of data.b ?? []) book.set('bid', p, q);
+    for (const [p, q] of data.a ?? []) book.set('ask', p, q);
+    book.truncate('bid', BYBIT_DEPTH);
+    book.truncate('ask', BYBIT_DEPTH);
+  };
+
+  return {
+    onOpen: () => {
+      ctx.send({ op: 'subscribe', args: [topic, tradeTopic] });
+      ctx.every(BYBIT_PING_MS, () => ctx.send({ op: 'ping' }));
+    },
+
+    onMessage: (msg) => {
+      if (msg.op === 'subscribe' && msg.success === false) {
+        ctx.fail(`subscribe rejected: ${msg.ret_msg}`);
+        return;
+      }
+
+      if (msg.topic === tradeTopic) {
+        ctx.trades((msg.data ?? []).map((t: any) => ({
+          time: t.T,
+          price: parseFloat(t.p),
+          quantity: parseFloat(t.v),
+          side: t.S === 'Buy' ? 'buy' : 'sell',
+        })));
+        return;
+      }
+
+      if (msg.topic !== topic || !msg.data) return;
+
+      if (msg.type === 'snapshot') {
+        book.clear();
+        applyLevels(msg.data);
+        lastUpdateId = msg.data.u;
+        ctx.markLive();
+        return;
+      }
+
+      if (lastUpdateId === null) return; // Delta before the first snapshot
+
+      if (msg.data.u !== lastUpdateId + 1) {
+        ctx.restart(`update gap (expected u=${lastUpdateId + 1}, got u=${msg.data.u})`);
+        return;
+      }
+
+      applyLevels(msg.data);
+      lastUpdateId = msg.data.u;
+      ctx.update();
+    },
+  };
+};
+
+export const bybitVenue = (symbolInfo: SymbolInfo): LiveSourceConfig => {
+  const symbol = symbolInfo.symbol.toUpperCase();
+  const topic = `orderbook.${BYBIT_DEPTH}.${symbol}`;
+
+  return {
+    metadata: { id: 'bybit', label: 'Bybit', venueSymbol: symbol, symbolInfo },
+    url: 'wss://stream.bybit.com/v5/public/spot',
+    createSession: (ctx) => createBybitSession(ctx, topic, `publicTrade.${symbol}`),
+    fetchInstrument: async (fetchImpl, signal) => {
+      const data = await fetchJson(fetchImpl, `https://api.bybit.com/v5/market/instruments-info?category=spot&symbol=${symbol}`, signal);
+      const info = data.result?.list?.[0];
+      const tickSize = parseFloat(info?.priceFilter?.tickSize);
+      const stepSize = parseFloat(info?.lotSizeFilter?.basePrecision);
+      if (!(tickSize > 0)) throw new Error(`No priceFilter for ${symbol}`);
+      if (!(stepSize > 0)) throw new Error(`No lotSizeFilter for ${symbol}`);
+      return { tickSize, stepSize };
+    },
+  };
+};
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseSymbol } from '../symbolService';
+import { coinbaseVenue } from './coinbase';
+import { bookSide, createFakeFeed } from './fixtures/fakeFeed';
+import fixture from './fixtures/coinbase.json';
+
+const startFeed = () => createFakeFeed(coinbaseVenue(parseSymbol('BTCUSDT')), () => fixture.product);
+
+describe('Coinbase feed', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('subscribes to the USD book, trades and heartbeats on open', async () => {
+    const feed = await startFeed();
+    feed.socket().open();
+    expect(feed.socket().sent.map(m => [m.channel, m.product_ids])).toEqual([
+      ['level2', ['BTC-USD']],
+      ['heartbeats', ['BTC-USD']],
+      ['market_trades', ['BTC-USD']],
+    ]);
+  });
+
+  it('builds the book from the level2 snapshot and applies updates in sequence', async () => {
+    const feed = await startFeed();
+    feed.socket().open();
+    fixture.session.forEach(feed.socket().receive);
+
+    expect(feed.statuses[feed.statuses.length - 1]).toBe('live');
+    expect(bookSide(feed.source, 'bid')).toEqual([[64000, 0.4], [63999.99, 1.25]]);
+    expect(bookSide(feed.source, 'ask')).toEqual([[64000.02, 0.75], [64000.05, 1.2], [64000.1, 2]]);
+    expect(feed.trades).toEqual([{ time: Date.parse('2024-05-29T16:26:41.191Z'), price: 64000.02, quantity: 0.0031, side: 'buy' }]);
+
+    await feed.tick(20);
+    expect(feed.snapshots[feed.snapshots.length - 1].midPrice).toBeCloseTo(64000.01);
+  });
+
+  it('reports book changes without building snapshots in book-only mode', async () => {
+    let changes = 0;
+    const feed = await createFakeFeed(coinbaseVenue(parseSymbol('BTCUSDT')), () => fixture.product, { onBookChange: () => changes++ });
+    feed.socket().open();
+    fixture.session.forEach(feed.socket().receive);
+    await feed.tick(20);
+
+    expect(changes).toBeGreaterThan(0);
+    expect(feed.snapshots).toEqual([]);
+    expect(bookSide(feed.source, 'bid')).toEqual([[64000, 0.4], [63999.99, 1.25]]);
+  });
+
+  it('resubscribes on a sequence_num gap and ignores the rest of the old connection', async () => {
+    const feed = await startFeed();
+    const first = feed.socket();
+    first.open();
+    fixture.session.forEach(first.receive);
+    fixture.gap.forEach(first.receive);
+
+    expect(feed.statuses[feed.statuses.length - 1]).toBe('resyncing');
+    expect(feed.sockets.length).toBe(2);
+    expect(feed.source.book.isEmpty()).toBe(true);
+
+    const second = feed.socket();
+    second.open();
+    fixture.resubscribed.forEach(second.receive);
+    expect(feed.statuses[feed.statuses.length - 1]).toBe('live');
+    expect(bookSide(feed.source, 'bid')).toEqual([[64001.5, 0.9]]);
+    expect(bookSide(feed.source, 'ask')).toEqual([[64001.6, 0.3]]);
+  });
+});
@@ -0,0 +1,100 @@
+import { BookSide, SymbolInfo } from '../../types';
+import { isUsdQuote } from '../symbolService';
+import { FeedContext, FeedSession, LiveSourceConfig, fetchJson } from './feed';
+
+// Majors are listed against USD; stablecoin pairs map onto the deep USD books.
+export const toCoinbaseProduct = ({ baseAsset, quoteAsset }: SymbolInfo): string =>
+  `${baseAsset}-${isUsdQuote(quoteAsset) ? 'USD' : quoteAsset}`;
+
+/**
+ * COINBASE ADVANCED TRADE LEVEL2 IMPLEMENTATION
+ * Subscribes to the `level2` channel (plus `heartbeats` to keep quiet books alive)
+ * and `market_trades` for the trade tape.
+ * The first l2_data event is a full snapshot; later ones carry absolute new sizes per level.
+ *
+ * `sequence_num` increments by one per message across all channels of the connection,
+ * so any jump means a dropped message and the book is rebuilt by resubscribing.
+ */
+const createCoinbaseSession = (ctx: FeedContext, productId: string): FeedSession => {
+  const { book } = ctx;
+  let lastSequence: number | null = null;
+  let hasSnapshot = false;
+
+  const applyUpdates = (updates: any[]) => {
+    for (const u of updates) {
+      const side: BookSide = u.side === 'bid' ? 'bid' : 'ask'; // 'offer' is the ask side
+      book.set(side, u.price_level, u.new_quantity);
+    }
+  };
+
+  return {
+    onOpen: () => {
+      ctx.send({ type: 'subscribe', product_ids: [productId], channel: 'level2' });
+      ctx.send({ type: 'subscribe', product_ids: [productId], channel: 'heartbeats' });
+      ctx.send({ type: 'subscribe', product_ids: [productId], channel: 'market_trades' });
+    },
+
+    onMessage: (msg) => {
+      if (msg.type === 'error') {
+        ctx.fail(`error: ${msg.message}`);
+        return;
+      }
+
+      if (typeof msg.sequence_num === 'number') {
+        if (lastSequence !== null && msg.sequence_num !== lastSequence + 1) {
+          ctx.restart(`sequence gap (expected ${lastSequence + 1}, got ${msg.sequence_num})`);
+          return;
+        }
+        lastSequence = msg.sequence_num;
+      }
+
+      if (msg.channel === 'market_trades') {
+        for (const event of msg.events ?? []) {
+          ctx.trades((event.trades ?? [])
+            .filter((t: any) => t.product_id === productId)
+            .map((t: any) => ({
+              time: Date.parse(t.time),
+              price: parseFloat(t.price),
+              quantity: parseFloat(t.size),
+              side: t.side === 'BUY' ? 'buy' : 'sell',
+            })));
+        }
+        return;
+      }
+
+      if (msg.channel !== 'l2_data') return;
+
+      for (const event of msg.events ?? []) {
+        if (event.product_id !== productId) continue;
+
+        if (event.type === 'snapshot') {
+          book.clear();
+          applyUpdates(event.updates ?? []);
+          hasSnapshot = true;
+          ctx.markLive();
+        } else if (hasSnapshot) {
+          applyUpdates(event.updates ?? []);
+          ctx.update();
+        }
+      }
+    },
+  };
+};
+
+export const coinbaseVenue = (symbolInfo: SymbolInfo): LiveSourceConfig => {
+  const productId = toCoinbaseProduct(symbolInfo);
+
+  return {
+    metadata: { id: 'coinbase', label: 'Coinbase', venueSymbol: productId, symbolInfo },
+    url: 'wss://advanced-trade-ws.coinbase.com',
+    createSession: (ctx) => createCoinbaseSession(ctx, productId),
+    fetchInstrument: async (fetchImpl, signal) => {
+      const data = await fetchJson(fetchImpl, `https://api.coinbase.com/api/v3/brokerage/market/products/${productId}`, signal);
+      const tickSize = parseFloat(data.quote_increment);
+      const stepSize = parseFloat(data.base_increment);
+      if (!(tickSize > 0)) throw new Error(`No quote_increment for ${productId}`);
+      if (!(stepSize > 0)) throw new Error(`No base_increment for ${productId}`);
+      return { tickSize, stepSize };
+    },
+  };
+};
@@ -0,0 +1,111 @@
+import { FeedStatus, MarketDataSource, OrderBookSnapshot, SourceMetadata, SymbolInfo, Trade, VenueId } from '../../types';
+import { DEFAULT_BUCKET_CONFIG, buildConsolidatedSnapshot } from '../marketService';
+import { LiveSource, SourceOptions, createLiveSource, nextFrame } from './feed';
+import { createVenueConfig } from './venues';
+
+// Venues merged when no selection is given
+export const CONSOLIDATED_VENUES: VenueId[] = ['binance', 'coinbase', 'kraken', 'bybit'];
+
+// The merged feed reports the healthiest of its venues' statuses
+const STATUS_PRIORITY: FeedStatus[] = ['live', 'stale', 'resyncing', 'syncing', 'connecting', 'reconnecting', 'failed'];
+
+export const consolidatedMetadata = (symbolInfo: SymbolInfo, venues: VenueId[]): SourceMetadata => ({
+  id: 'consolidated',
+  label: 'Consolidated',
+  venueSymbol: `${symbolInfo.baseAsset}/${symbolInfo.quoteAsset} ×${venues.length}`,
+  symbolInfo,
+  tickSize: null,
+  stepSize: null,
+});
+
+/**
+ * One book merged from several venues' live feeds, with every bucket broken down by venue.
+ * Each venue keeps its own connection lifecycle; while one is not in sync it is left out of the merge,
+ * so a reconnecting exchange thins the book instead of stalling it.
+ */
+export const createConsolidatedSource = (symbolInfo: SymbolInfo, options: SourceOptions = {}): MarketDataSource => {
+  const venues = options.venues ?? CONSOLIDATED_VENUES;
+  const getBucketConfig = options.getBucketConfig ?? (() => DEFAULT_BUCKET_CONFIG);
+  const metadata = consolidatedMetadata(symbolInfo, venues);
+
+  // Venues run book-only: the merge below is the only aggregation, instead of one snapshot per venue per frame
+  const feeds: { id: VenueId; source: LiveSource; status: FeedStatus }[] = venues.map(id => ({
+    id,
+    source: createLiveSource(createVenueConfig(id, symbolInfo), {
+      socketFactory: options.socketFactory,
+      fetchImpl: options.fetchImpl,
+      onBookChange: () => scheduleEmit(),
+    }),
+    status: 'connecting',
+  }));
+
+  let onUpdate: ((snapshot: OrderBookSnapshot) => void) | null = null;
+  let onStatus: ((status: FeedStatus) => void) | null = null;
+  let active = false;
+  let status: FeedStatus = 'connecting';
+  let emitPending = false;
+
+  const updateStatus = () => {
+    const next = STATUS_PRIORITY.find(s => feeds.some(f => f.status === s)) ?? 'connecting';
+    if (next === status) return;
+    status = next;
+    onStatus?.(next);
+  };
+
+  // Venue books change many times a frame; merge once per frame
+  const scheduleEmit = () => {
+    if (emitPending) return;
+    emitPending = true;
+    nextFrame(() => {
+      emitPending = false;
+      if (!active) return;
+      const synced = feeds.filter(f => f.status === 'live' || f.status === 'stale');
+      const snapshot = buildConsolidatedSnapshot(synced.map(f => ({ venue: f.id, book: f.source.book })), getBucketConfig());
+      if (!snapshot) return;
+
+      // Buckets snap to the coarsest tick; quantities are exact to the finest lot
+      const ticks = synced.map(f => f.source.metadata.tickSize).filter((t): t is number => t !== null);
+      const steps = synced.map(f => f.source.metadata.stepSize).filter((s): s is number => s !== null);
+      metadata.tickSize = ticks.length > 0 ? Math.max(...ticks) : null;
+      metadata.stepSize = steps.length > 0 ? Math.min(...steps) : null;
+      onUpdate?.(snapshot);
+    });
+  };
+
+  const unsubscribe = () => {
+    active = false;
+    feeds.forEach(f => f.source.unsubscribe());
+  };
+
+  const subscribe = (
+    nextOnUpdate: (snapshot: OrderBookSnapshot) => void,
+    nextOnStatus?: (status: FeedStatus) => void,
+    onTrades?: (trades: Trade[]) => void
+  ) => {
+    unsubscribe();
+    onUpdate = nextOnUpdate;
+    onStatus = nextOnStatus ?? null;
+    active = true;
+    status = 'connecting';
+    onStatus?.(status);
+
+    for (const feed of feeds) {
+      feed.status = 'connecting';
+      feed.source.subscribe(
+        () => {},
+        (next) => {
+          feed.status = next;
+          updateStatus();
+        },
+        (trades) => onTrades?.(trades)
+      );
+    }
+  };
+
+  return {
+    metadata,
+    subscribe,
+    unsubscribe,
+    getStatus: () => status,
+  };
+};
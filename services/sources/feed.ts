@@ -0,0 +1,433 @@
+import { BucketConfig, FeedStatus, MarketDataSource, OrderBookSnapshot, RecordedFrame, SimScenario, SourceMetadata, Trade, VenueId } from '../../types';
+import { BookScale, RawBook, createRawBook } from '../orderBook';
+import { DEFAULT_BUCKET_CONFIG, buildSnapshot } from '../marketService';
+
+// Live feed resilience
+const RECONNECT_BASE_DELAY_MS = 1000; // First retry waits ~1s, doubling each attempt
+const RECONNECT_MAX_DELAY_MS = 30000;
+const MAX_RECONNECT_ATTEMPTS = 10; // Give up ('failed') after this many consecutive failures
+const WATCHDOG_INTERVAL_MS = 1000;
+const STALE_AFTER_MS = 3000; // No message for this long => 'stale'
+const STALE_RECONNECT_MS = 10000; // No message for this long => force reconnect
+const CONNECT_TIMEOUT_MS = 10000; // Socket still not open after this long => reconnect
+const FETCH_TIMEOUT_MS = 10000; // REST requests (snapshots, instrument info) abort after this long
+
+const SOCKET_CONNECTING = 0; // WebSocket.CONNECTING and OPEN, without depending on the DOM global
+const SOCKET_OPEN = 1;
+
+/**
+ * The part of the WebSocket API the feeds use.
+ * Tests replay recorded venue messages through a fake implementing this.
+ */
+export interface SocketLike {
+  readonly readyState: number;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: { data: any }) => void) | null;
+  onerror: ((event: any) => void) | null;
+  onclose: ((event: any) => void) | null;
+  send: (data: string) => void;
+  close: () => void;
+}
+
+export type SocketFactory = (url: string) => SocketLike;
+
+export interface SourceOptions {
+  socketFactory?: SocketFactory;
+  fetchImpl?: typeof fetch;
+  // Read on every emit, so bucket sizing can change without resubscribing
+  getBucketConfig?: () => BucketConfig;
+  // Simulation only: market regime and random seed
+  scenario?: SimScenario;
+  seed?: number;
+  // Consolidated book only: venues merged into it
+  venues?: VenueId[];
+  // Book-only mode for the consolidated book's venues, which merge the raw books themselves: no snapshot is built
+  // or passed to `onUpdate`; this is called on every change of the synced book instead
+  onBookChange?: () => void;
+}
+
+/**
+ * What a venue session can do with its connection.
+ * Every method is a no-op once the connection has been superseded or torn down.
+ */
+export interface FeedContext {
+  readonly book: RawBook;
+  readonly signal: AbortSignal; // Aborted when this connection ends
+  fetch: typeof fetch;
+  send: (message: unknown) => void;
+  setStatus: (status: FeedStatus) => void;
+  // Book is in sync with the venue: go 'live' and start emitting
+  markLive: () => void;
+  // Book is no longer trustworthy: stop emitting until the next markLive
+  invalidate: () => void;
+  // Book changed: emit a snapshot on the next frame
+  update: () => void;
+  // Forwards executed trades from the venue's trade stream
+  trades: (trades: Trade[]) => void;
+  // Sequence gap: drop the connection and resubscribe immediately
+  restart: (reason: string) => void;
+  // Unrecoverable error on this connection: reconnect with backoff
+  fail: (reason: string) => void;
+  // Runs `fn` every `ms` for the lifetime of this connection (e.g. venue pings)
+  every: (ms: number, fn: () => void) => void;
+}
+
+export interface FeedSession {
+  onOpen: () => void;
+  onMessage: (data: any) => void;
+}
+
+export interface LiveSourceConfig {
+  metadata: Omit<SourceMetadata, 'tickSize' | 'stepSize'> & { id: VenueId };
+  url: string;
+  // Called once per connection; holds that connection's sequencing state
+  createSession: (ctx: FeedContext) => FeedSession;
+  // Price and quantity increments; the book is keyed in these units
+  fetchInstrument?: (fetchImpl: typeof fetch, signal: AbortSignal) => Promise<BookScale>;
+}
+
+export const nextFrame = (cb: () => void) => {
+  if (typeof requestAnimationFrame === 'function') requestAnimationFrame(cb);
+  else setTimeout(cb, 16);
+};
+
+/**
+ * A venue feed with its raw book exposed, for sources that read levels directly (the consolidated book).
+ * The book is only in sync while the status is 'live' or 'stale'.
+ */
+export interface LiveSource extends MarketDataSource {
+  readonly book: RawBook;
+}
+
+/**
+ * Shared lifecycle for WebSocket venues: connection state machine, reconnect with
+ * exponential backoff and jitter, stale-data watchdog and throttled aggregation.
+ * Venue specifics (subscribe messages, snapshots, sequencing) live in the session.
+ */
+export const createLiveSource = (config: LiveSourceConfig, options: SourceOptions = {}): LiveSource => {
+  const { url, createSession, fetchInstrument } = config;
+  const socketFactory: SocketFactory = options.socketFactory ?? ((u) => new WebSocket(u));
+  const fetchImpl: typeof fetch = options.fetchImpl ?? ((input, init) => fetch(input, init));
+  // A request that never answers rejects like a failed one, so sessions fail into the reconnect backoff
+  const timedFetch: typeof fetch = async (input, init) => {
+    const timeout = withTimeout(init?.signal, FETCH_TIMEOUT_MS);
+    try {
+      return await fetchImpl(input, { ...init, signal: timeout.signal });
+    } finally {
+      timeout.dispose();
+    }
+  };
+  const getBucketConfig = options.getBucketConfig ?? (() => DEFAULT_BUCKET_CONFIG);
+  const label = config.metadata.label;
+
+  const metadata: SourceMetadata = { ...config.metadata, tickSize: null, stepSize: null };
+  const book = createRawBook();
+
+  let onUpdate: ((snapshot: OrderBookSnapshot) => void) | null = null;
+  let onStatus: ((status: FeedStatus) => void) | null = null;
+  let onTrades: ((trades: Trade[]) => void) | null = null;
+
+  let active = false;
+  let status: FeedStatus = 'connecting';
+  let socket: SocketLike | null = null;
+  let connection: AbortController | null = null;
+  let connectionTimers: ReturnType<typeof setInterval>[] = [];
+  let ready = false; // Book is synced and may be emitted
+  let emitPending = false;
+
+  let reconnectAttempts = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let watchdog: ReturnType<typeof setInterval> | null = null;
+  let lastMessageAt = 0;
+  let connectStartedAt = 0;
+  let infoAbort: AbortController | null = null;
+  let recorder: ((frame: RecordedFrame) => void) | null = null;
+
+  const setStatus = (next: FeedStatus) => {
+    if (!active || next === status) return;
+    status = next;
+    onStatus?.(next);
+  };
+
+  // Optimization: Throttle aggregation to avoid UI stutter if messages come too fast
+  const scheduleEmit = () => {
+    if (options.onBookChange) {
+      if (active && ready) options.onBookChange();
+      return;
+    }
+    if (emitPending) return;
+    emitPending = true;
+    nextFrame(() => {
+      emitPending = false;
+      if (!active || !ready) return;
+      const snapshot = buildSnapshot(book, getBucketConfig(), metadata.tickSize);
+      if (snapshot) onUpdate?.(snapshot);
+    });
+  };
+
+  const endConnection = () => {
+    connection?.abort();
+    connection = null;
+    connectionTimers.forEach(clearInterval);
+    connectionTimers = [];
+
+    const ws = socket;
+    socket = null;
+    if (ws) {
+      ws.onopen = null;
+      ws.onmessage = null;
+      ws.onclose = null;
+      ws.close();
+    }
+
+    book.clear();
+    ready = false;
+  };
+
+  const connect = () => {
+    endConnection();
+
+    const controller = new AbortController();
+    connection = controller;
+    lastMessageAt = Date.now();
+    connectStartedAt = lastMessageAt;
+
+    const ws = socketFactory(url);
+    socket = ws;
+    const current = () => !controller.signal.aborted;
+    recorder?.({ t: Date.now(), kind: 'open', data: url });
+
+    // REST responses are part of the raw stream (e.g. Binance's depth snapshot), so they are recorded too
+    const recordingFetch: typeof fetch = async (input, init) => {
+      const res = await timedFetch(input, init);
+      if (recorder && current() && res.ok) {
+        const body = await res.clone().text();
+        recorder?.({ t: Date.now(), kind: 'rest', data: body });
+      }
+      return res;
+    };
+
+    const ctx: FeedContext = {
+      book,
+      signal: controller.signal,
+      fetch: recordingFetch,
+      send: (message) => {
+        if (current() && ws.readyState === SOCKET_OPEN) ws.send(JSON.stringify(message));
+      },
+      setStatus: (next) => {
+        if (current()) setStatus(next);
+      },
+      markLive: () => {
+        if (!current()) return;
+        ready = true;
+        reconnectAttempts = 0;
+        setStatus('live');
+        scheduleEmit();
+      },
+      invalidate: () => {
+        if (current()) ready = false;
+      },
+      update: () => {
+        if (current() && ready) scheduleEmit();
+      },
+      trades: (trades) => {
+        if (current() && trades.length > 0) onTrades?.(trades);
+      },
+      restart: (reason) => {
+        if (!current()) return;
+        console.warn(`${label} feed ${reason}, resubscribing`);
+        setStatus('resyncing');
+        connect();
+      },
+      fail: (reason) => {
+        if (current()) scheduleReconnect(reason);
+      },
+      every: (ms, fn) => {
+        if (current()) connectionTimers.push(setInterval(() => { if (current()) fn(); }, ms));
+      },
+    };
+
+    const session = createSession(ctx);
+
+    ws.onopen = () => {
+      console.log(`Connected to ${label} WS`);
+      setStatus('syncing');
+      session.onOpen();
+    };
+
+    ws.onmessage = (event) => {
+      lastMessageAt = Date.now();
+      if (status === 'stale') setStatus('live');
+      recorder?.({ t: lastMessageAt, kind: 'message', data: String(event.data) });
+
+      try {
+        session.onMessage(JSON.parse(event.data));
+      } catch (err) {
+        console.error(`${label} WS Parse Error`, err);
+      }
+    };
+
+    ws.onerror = (event) => {
+      console.error(`${label} WS error`, event);
+      // onclose always follows onerror; reconnect is handled there
+    };
+
+    ws.onclose = () => {
+      if (socket !== ws) return; // Superseded by a newer socket
+      scheduleReconnect('socket closed');
+    };
+  };
+
+  /**
+   * Tears down the current socket and retries after an exponential backoff with jitter.
+   * Gives up with 'failed' after MAX_RECONNECT_ATTEMPTS consecutive failures.
+   */
+  const scheduleReconnect = (reason: string) => {
+    if (!active || reconnectTimer) return;
+    endConnection();
+
+    if (reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      console.error(`${label} feed failed after ${reconnectAttempts} attempts (${reason})`);
+      setStatus('failed');
+      return;
+    }
+
+    const ceiling = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts);
+    const delay = Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+    reconnectAttempts++;
+
+    console.warn(`${label} feed ${reason}, reconnecting in ${delay}ms (attempt ${reconnectAttempts})`);
+    setStatus('reconnecting');
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      setStatus('connecting');
+      connect();
+    }, delay);
+  };
+
+  // Heartbeat watchdog: every venue pushes at least once a second, so silence means the feed is stuck.
+  // A socket that never opens (no close event either) is treated the same way.
+  const checkHeartbeat = () => {
+    if (!socket) return;
+    if (socket.readyState !== SOCKET_OPEN) {
+      const connectingFor = Date.now() - connectStartedAt;
+      if (socket.readyState === SOCKET_CONNECTING && connectingFor > CONNECT_TIMEOUT_MS) {
+        scheduleReconnect(`not connected after ${connectingFor}ms`);
+      }
+      return;
+    }
+    const silentFor = Date.now() - lastMessageAt;
+    if (silentFor > STALE_RECONNECT_MS) {
+      scheduleReconnect(`silent for ${silentFor}ms`);
+    } else if (silentFor > STALE_AFTER_MS && status === 'live') {
+      setStatus('stale');
+    }
+  };
+
+  const unsubscribe = () => {
+    if (!active) return;
+    active = false;
+    if (watchdog) clearInterval(watchdog);
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    watchdog = null;
+    reconnectTimer = null;
+    infoAbort?.abort();
+    infoAbort = null;
+    endConnection();
+  };
+
+  const subscribe = (
+    nextOnUpdate: (snapshot: OrderBookSnapshot) => void,
+    nextOnStatus?: (status: FeedStatus) => void,
+    nextOnTrades?: (trades: Trade[]) => void
+  ) => {
+    unsubscribe();
+    onUpdate = nextOnUpdate;
+    onStatus = nextOnStatus ?? null;
+    onTrades = nextOnTrades ?? null;
+    active = true;
+    reconnectAttempts = 0;
+    status = 'connecting';
+    onStatus?.(status);
+
+    watchdog = setInterval(checkHeartbeat, WATCHDOG_INTERVAL_MS);
+
+    if (!fetchInstrument || metadata.tickSize !== null) {
+      connect();
+      return;
+    }
+
+    // The book is keyed in ticks and lots, so the increments are loaded before the first connection.
+    // Without them the book falls back to a fine grid and buckets are unsnapped.
+    const controller = new AbortController();
+    infoAbort = controller;
+    fetchInstrument(timedFetch, controller.signal)
+      .then(scale => {
+        metadata.tickSize = scale.tickSize;
+        metadata.stepSize = scale.stepSize;
+        book.setScale(scale);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) console.warn(`No instrument increments for ${label} ${metadata.venueSymbol}:`, err);
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return;
+        infoAbort = null;
+        connect();
+      });
+  };
+
+  /**
+   * Attaching a recorder reconnects, so the recording starts from a fresh
+   * connection and snapshot rather than mid-stream.
+   */
+  const setRecorder = (next: ((frame: RecordedFrame) => void) | null) => {
+    const attaching = next !== null && recorder === null;
+    recorder = next;
+    // While the instrument is loading, the first connection is still to come and will be recorded whole
+    if (attaching && active && !reconnectTimer && !infoAbort) {
+      setStatus('resyncing');
+      connect();
+    }
+  };
+
+  return {
+    metadata,
+    book,
+    subscribe,
+    unsubscribe,
+    getStatus: () => status,
+    setRecorder,
+  };
+};
+
+/**
+ * A signal that aborts with `signal` or after `ms`, whichever comes first.
+ * `dispose` drops the timer and the listener on `signal` once the request has settled.
+ */
+const withTimeout = (signal: AbortSignal | null | undefined, ms: number) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new Error(`Timed out after ${ms}ms`)), ms);
+  const abort = () => {
+    clearTimeout(timer);
+    controller.abort(signal?.reason);
+  };
+  if (signal?.aborted) abort();
+  else signal?.addEventListener('abort', abort, { once: true });
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    },
+  };
+};
+
+/**
+ * GETs a JSON document, throwing on HTTP errors.
+ */
+export const fetchJson = async (fetchImpl: typeof fetch, url: string, signal: AbortSignal): Promise<any> => {
+  const res = await fetchImpl(url, { signal });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return res.json();
+};
@@ -0,0 +1,64 @@
+import { BucketConfig, MarketDataSource } from '../../types';
+import { DEFAULT_BUCKET_CONFIG } from '../marketService';
+import { createLiveSource } from './feed';
+import { createConsolidatedSource } from './consolidated';
+import { createVenueConfig } from './venues';
+import { WorkerEvent, WorkerRequest, packSnapshot, snapshotTransferables } from './workerProtocol';
+
+/**
+ * Worker entry: owns the venue socket, the raw book and aggregation,
+ * so bursts of depth messages never compete with React and the three.js frame.
+ * Spawned by createWorkerSource; one worker per subscription.
+ */
+
+// The project compiles against the DOM lib, so describe the worker scope by hand
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerEvent, transfer?: Transferable[]) => void;
+};
+
+let source: MarketDataSource | null = null;
+let bucketConfig: BucketConfig = DEFAULT_BUCKET_CONFIG;
+let instrumentPosted = false;
+
+const post = (message: WorkerEvent, transfer: Transferable[] = []) => scope.postMessage(message, transfer);
+
+scope.onmessage = (event) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'subscribe': {
+      source?.unsubscribe();
+      bucketConfig = request.bucketConfig;
+      instrumentPosted = false;
+
+      const options = { getBucketConfig: () => bucketConfig, venues: request.venues };
+      const live = request.id === 'consolidated'
+        ? createConsolidatedSource(request.symbolInfo, options)
+        : createLiveSource(createVenueConfig(request.id, request.symbolInfo), options);
+      source = live;
+
+      live.subscribe(
+        (snapshot) => {
+          // Increments arrive asynchronously; the UI copy of the metadata needs them for recordings
+          const { tickSize, stepSize } = live.metadata;
+          if (!instrumentPosted && tickSize !== null && stepSize !== null) {
+            instrumentPosted = true;
+            post({ type: 'instrument', scale: { tickSize, stepSize } });
+          }
+          const packed = packSnapshot(snapshot);
+          post({ type: 'snapshot', snapshot: packed }, snapshotTransferables(packed));
+        },
+        (status) => post({ type: 'status', status }),
+        (trades) => post({ type: 'trades', trades })
+      );
+      break;
+    }
+    case 'bucket-config':
+      bucketConfig = request.bucketConfig;
+      break;
+    case 'record':
+      source?.setRecorder?.(request.enabled ? (frame) => post({ type: 'frame', frame }) : null);
+      break;
+  }
+};
@@ -0,0 +1,118 @@
+import { vi } from 'vitest';
+import { FeedStatus, OrderBookSnapshot, Trade } from '../../../types';
+import { LiveSource, LiveSourceConfig, SocketLike, SourceOptions, createLiveSource } from '../feed';
+
+/**
+ * A WebSocket stand-in driven by the test: `open` and `receive` fire the handlers the feed installed.
+ */
+export interface FakeSocket extends SocketLike {
+  readonly url: string;
+  readonly sent: any[];
+  open: () => void;
+  receive: (message: unknown) => void;
+}
+
+const createFakeSocket = (url: string): FakeSocket => {
+  let readyState = 0;
+  const socket: FakeSocket = {
+    url,
+    sent: [],
+    get readyState() { return readyState; },
+    onopen: null,
+    onmessage: null,
+    onerror: null,
+    onclose: null,
+    send: (data) => { socket.sent.push(JSON.parse(data)); },
+    close: () => { readyState = 3; },
+    open: () => {
+      readyState = 1;
+      socket.onopen?.({});
+    },
+    receive: (message) => socket.onmessage?.({ data: JSON.stringify(message) }),
+  };
+  return socket;
+};
+
+export interface FakeFeed {
+  source: LiveSource;
+  sockets: FakeSocket[];
+  // Newest connection
+  socket: () => FakeSocket;
+  statuses: FeedStatus[];
+  snapshots: OrderBookSnapshot[];
+  trades: Trade[];
+  // URLs of every REST request, in order
+  fetches: string[];
+  // Answers the oldest held REST request with `body`
+  respond: (body: unknown) => Promise<void>;
+  // Lets timers and pending promises run for `ms` of fake time
+  tick: (ms?: number) => Promise<void>;
+}
+
+/**
+ * Runs a venue's live source against fake sockets and REST responses, without the network.
+ * Requests `answer` returns a body for are answered at once (instrument info); the rest are held
+ * until `respond`, so tests choose what arrives while a snapshot is in flight. Needs fake timers.
+ */
+export const createFakeFeed = async (
+  config: LiveSourceConfig,
+  answer: (url: string) => unknown | undefined,
+  options: SourceOptions = {}
+): Promise<FakeFeed> => {
+  const sockets: FakeSocket[] = [];
+  const fetches: string[] = [];
+  const held: ((res: Response) => void)[] = [];
+
+  const fetchImpl: typeof fetch = (input, init) => new Promise<Response>((resolve, reject) => {
+    const url = String(input);
+    fetches.push(url);
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    const body = answer(url);
+    if (body !== undefined) resolve(new Response(JSON.stringify(body)));
+    else held.push(resolve);
+  });
+
+  const source = createLiveSource(config, {
+    ...options,
+    socketFactory: (url) => {
+      const socket = createFakeSocket(url);
+      sockets.push(socket);
+      return socket;
+    },
+    fetchImpl,
+  });
+
+  const tick = (ms = 0) => vi.advanceTimersByTimeAsync(ms).then(() => {});
+
+  const feed: FakeFeed = {
+    source,
+    sockets,
+    socket: () => sockets[sockets.length - 1],
+    statuses: [],
+    snapshots: [],
+    trades: [],
+    fetches,
+    respond: async (body) => {
+      const resolve = held.shift();
+      if (!resolve) throw new Error('No REST request is waiting');
+      resolve(new Response(JSON.stringify(body)));
+      await tick();
+    },
+    tick,
+  };
+
+  source.subscribe(
+    (snapshot) => feed.snapshots.push(snapshot),
+    (status) => feed.statuses.push(status),
+    (trades) => feed.trades.push(...trades)
+  );
+  await tick(); // Instrument info, then the first connection
+  return feed;
+};
+
+// Price -> size of one side of the raw book, best first
+export const bookSide = (source: LiveSource, side: 'bid' | 'ask'): [number, number][] => {
+  const { book } = source;
+  const map = side === 'bid' ? book.bids : book.asks;
+  return book.levels(side).map(ticks => [book.priceOf(ticks), book.qtyOf(map.get(ticks)!)]);
+};
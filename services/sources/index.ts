@@ -0,0 +1,42 @@
+import { MarketDataSource, SourceId, SymbolInfo } from '../../types';
+import { SourceOptions, createLiveSource } from './feed';
+import { createVenueConfig } from './venues';
+import { createMockSource } from './mock';
+import { createWorkerSource } from './workerSource';
+import { createConsolidatedSource } from './consolidated';
+
+export type { SocketLike, SocketFactory, SourceOptions } from './feed';
+export { createReplaySource, createSnapshotReplaySource, renderRecording, REPLAY_SPEEDS } from './replay';
+export type { ReplaySource, ReplayState } from './replay';
+export { CONSOLIDATED_VENUES } from './consolidated';
+
+export const SOURCE_LABELS: Record<SourceId, string> = {
+  binance: 'Binance',
+  coinbase: 'Coinbase',
+  kraken: 'Kraken',
+  bybit: 'Bybit',
+  consolidated: 'Consolidated',
+  mock: 'Simulation',
+  replay: 'Replay',
+};
+
+// Order shown in the HUD source picker (replays are opened from a file instead)
+export const SOURCE_IDS: Exclude<SourceId, 'replay'>[] = ['binance', 'coinbase', 'kraken', 'bybit', 'consolidated', 'mock'];
+
+/**
+ * Builds the data source for a venue or the consolidated book. `symbolInfo` is ignored by the simulation.
+ * Live venues run in a Web Worker when available; injected sockets or fetch
+ * (tests, tooling) can't cross into a worker, so those run on the calling thread.
+ */
+export const createMarketDataSource = (
+  id: Exclude<SourceId, 'replay'>,
+  symbolInfo: SymbolInfo,
+  options?: SourceOptions
+): MarketDataSource => {
+  if (id === 'mock') return createMockSource(options);
+  if (typeof Worker !== 'undefined' && !options?.socketFactory && !options?.fetchImpl) {
+    return createWorkerSource(id, symbolInfo, options);
+  }
+  if (id === 'consolidated') return createConsolidatedSource(symbolInfo, options);
+  return createLiveSource(createVenueConfig(id, symbolInfo), options);
+};
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseSymbol } from '../symbolService';
+import { KRAKEN_DEPTH, krakenVenue } from './kraken';
+import { bookSide, createFakeFeed } from './fixtures/fakeFeed';
+import fixture from './fixtures/kraken.json';
+
+const startFeed = () => createFakeFeed(krakenVenue(parseSymbol('BTCUSDT')), () => fixture.assetPairs);
+
+describe('Kraken feed', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('applies the book snapshot and absolute-size updates', async () => {
+    const feed = await startFeed();
+    expect(feed.source.book.scale).toEqual({ tickSize: 0.1, stepSize: 1e-8 });
+    feed.socket().open();
+    fixture.session.forEach(feed.socket().receive);
+
+    expect(feed.statuses[feed.statuses.length - 1]).toBe('live');
+    expect(bookSide(feed.source, 'bid')).toEqual([[64000, 1.2], [63999.5, 2]]);
+    expect(bookSide(feed.source, 'ask')).toEqual([[64000.1, 0.8], [64000.2, 0.45], [64000.4, 1.1], [64001, 5]]);
+    expect(feed.trades).toEqual([{ time: Date.parse('2024-05-29T16:26:40.402115Z'), price: 64000, quantity: 0.01, side: 'sell' }]);
+  });
+
+  it('truncates the book back to the subscribed depth after an update', async () => {
+    const feed = await startFeed();
+    feed.socket().open();
+    const [status, subscribed, snapshot] = fixture.session;
+    [status, subscribed].forEach(feed.socket().receive);
+
+    // The recorded snapshot, extended with deeper bids to the full subscribed depth (so its checksum no longer applies)
+    const { checksum: _, ...recorded } = snapshot.data![0] as { bids: { price: number; qty: number }[]; checksum: number };
+    const deeper = Array.from({ length: KRAKEN_DEPTH - recorded.bids.length }, (_, i) => ({
+      price: Math.round((63999.4 - i * 0.1) * 10) / 10,
+      qty: 0.01,
+    }));
+    const full = { ...snapshot, data: [{ ...recorded, bids: [...recorded.bids, ...deeper] }] };
+    feed.socket().receive(full);
+    expect(feed.source.book.levels('bid').length).toBe(KRAKEN_DEPTH);
+    const worst = deeper[deeper.length - 1].price;
+
+    // A new best bid pushes the deepest level out of Kraken's view, so it is dropped locally
+    feed.socket().receive(fixture.betterBid);
+    const bids = bookSide(feed.source, 'bid');
+    expect(bids.length).toBe(KRAKEN_DEPTH);
+    expect(bids[0]).toEqual([64000.1, 0.3]);
+    expect(bids.some(([price]) => price === worst)).toBe(false);
+    expect(bookSide(feed.source, 'ask')[0]).toEqual([64000.4, 1.1]);
+  });
+
+  it('resubscribes when an update leaves the book out of step with its checksum', async () => {
+    const feed = await startFeed();
+    const first = feed.socket();
+    first.open();
+    fixture.session.forEach(first.receive);
+    expect(feed.sockets.length).toBe(1);
+
+    first.receive(fixture.corrupted);
+    expect(feed.statuses[feed.statuses.length - 1]).toBe('resyncing');
+    expect(feed.sockets.length).toBe(2);
+
+    const second = feed.socket();
+    second.open();
+    fixture.resubscribed.forEach(second.receive);
+    expect(feed.statuses[feed.statuses.length - 1]).toBe('live');
+    expect(bookSide(feed.source, 'bid')).toEqual([[64000, 1.2], [63999.8, 0.6]]);
+    expect(bookSide(feed.source, 'ask')).toEqual([[64000.1, 0.8]]);
+  });
+});
@@ -0,0 +1,146 @@
+import { SymbolInfo } from '../../types';
+import { isUsdQuote } from '../symbolService';
+import { RawBook } from '../orderBook';
+import { FeedContext, FeedSession, LiveSourceConfig, fetchJson } from './feed';
+
+// Kraken maintains the book only to the subscribed depth; levels pushed out must be dropped locally.
+export const KRAKEN_DEPTH = 1000;
+
+// Levels per side covered by the book checksum
+const CHECKSUM_LEVELS = 10;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (text: string): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < text.length; i++) crc = CRC_TABLE[(crc ^ text.charCodeAt(i)) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Decimal places of an increment (0.1 -> 1, 0.5 -> 1, 1e-8 -> 8)
+const decimalsOf = (increment: number): number => {
+  let decimals = 0;
+  while (decimals < 12 && Math.abs(Math.round(increment * 10 ** decimals) - increment * 10 ** decimals) > 1e-9) decimals++;
+  return decimals;
+};
+
+/**
+ * Kraken's CRC32 of the top of the book: the best 10 asks then the best 10 bids, each level as its price and
+ * quantity printed to the pair's precision with the decimal point and leading zeros dropped, all concatenated.
+ */
+export const krakenChecksum = (book: RawBook): number => {
+  const { tickSize, stepSize } = book.scale;
+  const priceFactor = 10 ** decimalsOf(tickSize);
+  const qtyFactor = 10 ** decimalsOf(stepSize);
+  let text = '';
+  for (const side of ['ask', 'bid'] as const) {
+    const map = side === 'bid' ? book.bids : book.asks;
+    for (const ticks of book.levels(side).slice(0, CHECKSUM_LEVELS)) {
+      text += Math.round(book.priceOf(ticks) * priceFactor).toString();
+      text += Math.round(book.qtyOf(map.get(ticks)!) * qtyFactor).toString();
+    }
+  }
+  return crc32(text);
+};
+
+// Majors are listed against USD; stablecoin pairs map onto the deep USD books.
+export const toKrakenPair = ({ baseAsset, quoteAsset }: SymbolInfo): string =>
+  `${baseAsset}/${isUsdQuote(quoteAsset) ? 'USD' : quoteAsset}`;
+
+/**
+ * KRAKEN WS V2 BOOK IMPLEMENTATION
+ * Subscribes to the `book` channel. A 'snapshot' message replaces the book,
+ * 'update' messages carry absolute sizes (qty 0 removes the level).
+ * After each update the book is truncated back to the subscribed depth, as Kraken requires,
+ * and its top is checked against the message's `checksum`; a mismatch resubscribes for a fresh snapshot.
+ * The `trade` channel feeds the trade tape (`side` is the taker side).
+ */
+const createKrakenSession = (ctx: FeedContext, pair: string): FeedSession => {
+  const { book } = ctx;
+  let hasSnapshot = false;
+
+  const applyLevels = (data: any) => {
+    for (const level of data.bids ?? []) book.set('bid', level.price, level.qty);
+    for (const level of data.asks ?? []) book.set('ask', level.price, level.qty);
+    book.truncate('bid', KRAKEN_DEPTH);
+    book.truncate('ask', KRAKEN_DEPTH);
+  };
+
+  // False (and resubscribing) when the local book no longer matches Kraken's
+  const verify = (data: any): boolean => {
+    if (typeof data.checksum !== 'number') return true;
+    const local = krakenChecksum(book);
+    if (local === data.checksum >>> 0) return true;
+    ctx.restart(`checksum mismatch (expected ${data.checksum}, got ${local})`);
+    return false;
+  };
+
+  return {
+    onOpen: () => {
+      ctx.send({ method: 'subscribe', params: { channel: 'book', symbol: [pair], depth: KRAKEN_DEPTH } });
+      // Without the initial snapshot of recent trades, which predate the canyon
+      ctx.send({ method: 'subscribe', params: { channel: 'trade', symbol: [pair], snapshot: false } });
+    },
+
+    onMessage: (msg) => {
+      if (msg.method === 'subscribe' && msg.success === false) {
+        ctx.fail(`subscribe rejected: ${msg.error}`);
+        return;
+      }
+
+      if (msg.channel === 'trade') {
+        ctx.trades((msg.data ?? [])
+          .filter((t: any) => t.symbol === pair)
+          .map((t: any) => ({
+            time: Date.parse(t.timestamp),
+            price: t.price,
+            quantity: t.qty,
+            side: t.side === 'buy' ? 'buy' : 'sell',
+          })));
+        return;
+      }
+
+      if (msg.channel !== 'book') return;
+
+      for (const data of msg.data ?? []) {
+        if (data.symbol !== pair) continue;
+
+        if (msg.type === 'snapshot') {
+          book.clear();
+          applyLevels(data);
+          if (!verify(data)) return;
+          hasSnapshot = true;
+          ctx.markLive();
+        } else if (hasSnapshot) {
+          applyLevels(data);
+          if (!verify(data)) return;
+          ctx.update();
+        }
+      }
+    },
+  };
+};
+
+export const krakenVenue = (symbolInfo: SymbolInfo): LiveSourceConfig => {
+  const pair = toKrakenPair(symbolInfo);
+
+  return {
+    metadata: { id: 'kraken', label: 'Kraken', venueSymbol: pair, symbolInfo },
+    url: 'wss://ws.kraken.com/v2',
+    createSession: (ctx) => createKrakenSession(ctx, pair),
+    fetchInstrument: async (fetchImpl, signal) => {
+      const data = await fetchJson(fetchImpl, `https://api.kraken.com/0/public/AssetPairs?pair=${encodeURIComponent(pair)}`, signal);
+      const info: any = Object.values(data.result ?? {})[0];
+      const tickSize = parseFloat(info?.tick_size);
+      if (!(tickSize > 0)) throw new Error(`No tick_size for ${pair}`);
+      // Sizes are quoted to lot_decimals places
+      const lotDecimals = Number(info?.lot_decimals);
+      if (!Number.isInteger(lotDecimals)) throw new Error(`No lot_decimals for ${pair}`);
+      return { tickSize, stepSize: Math.pow(10, -lotDecimals) };
+    },
+  };
+};
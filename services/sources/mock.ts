@@ -0,0 +1,73 @@
+import { FeedStatus, MarketDataSource, OrderBookSnapshot, Trade } from '../../types';
+import { DEFAULT_BUCKET_CONFIG, MOCK_TICK_SIZE, buildSnapshot } from '../marketService';
+import { createRawBook } from '../orderBook';
+import { DEFAULT_SIM_SEED, SIM_BOOK_SCALE, SIM_SCENARIO_LABELS, createSimulator } from '../simulator';
+import { DEFAULT_SYMBOL, parseSymbol } from '../symbolService';
+import { SourceOptions } from './feed';
+
+const MOCK_INTERVAL_MS = 100; // One simulator step per 100ms, like Binance's @depth@100ms
+
+/**
+ * Simulation source: steps the market simulator on a timer and applies its depth diffs
+ * to a local book, exactly as the Binance feed does with the real stream.
+ * Each subscription restarts the scenario from its seed. Always 'live'; there is no connection to lose.
+ */
+export const createMockSource = (options: SourceOptions = {}): MarketDataSource => {
+  const symbolInfo = parseSymbol(DEFAULT_SYMBOL);
+  const scenario = options.scenario ?? 'calm';
+  const seed = options.seed ?? DEFAULT_SIM_SEED;
+  const getBucketConfig = options.getBucketConfig ?? (() => DEFAULT_BUCKET_CONFIG);
+  let interval: ReturnType<typeof setInterval> | null = null;
+
+  const unsubscribe = () => {
+    if (interval) clearInterval(interval);
+    interval = null;
+  };
+
+  const subscribe = (
+    onUpdate: (snapshot: OrderBookSnapshot) => void,
+    onStatus?: (status: FeedStatus) => void,
+    onTrades?: (trades: Trade[]) => void
+  ) => {
+    unsubscribe();
+    onStatus?.('live');
+
+    const simulator = createSimulator({ scenario, seed, symbol: symbolInfo.symbol });
+    const book = createRawBook(SIM_BOOK_SCALE);
+    const initial = simulator.snapshot();
+    initial.bids.forEach(([price, qty]) => book.set('bid', price, qty));
+    initial.asks.forEach(([price, qty]) => book.set('ask', price, qty));
+
+    interval = setInterval(() => {
+      const time = Date.now();
+      const { depth, trades } = simulator.step(time);
+      depth?.b.forEach(([price, qty]) => book.set('bid', price, qty));
+      depth?.a.forEach(([price, qty]) => book.set('ask', price, qty));
+
+      const snapshot = buildSnapshot(book, getBucketConfig(), MOCK_TICK_SIZE, time);
+      if (snapshot) onUpdate(snapshot);
+      if (trades.length > 0) {
+        onTrades?.(trades.map(t => ({
+          time: t.T,
+          price: parseFloat(t.p),
+          quantity: parseFloat(t.q),
+          side: t.m ? 'sell' : 'buy',
+        })));
+      }
+    }, MOCK_INTERVAL_MS);
+  };
+
+  return {
+    metadata: {
+      id: 'mock',
+      label: `Simulation · ${SIM_SCENARIO_LABELS[scenario]}`,
+      venueSymbol: symbolInfo.symbol,
+      symbolInfo,
+      tickSize: MOCK_TICK_SIZE,
+      stepSize: SIM_BOOK_SCALE.stepSize,
+    },
+    subscribe,
+    unsubscribe,
+    getStatus: () => 'live',
+  };
+};
@@ -0,0 +1,438 @@
+import { FeedStatus, MarketDataSource, OrderBookSnapshot, SessionRecording, SnapshotExport, SourceMetadata, Trade } from '../../types';
+import { FALLBACK_BOOK_SCALE, createRawBook } from '../orderBook';
+import { DEFAULT_BUCKET_CONFIG, buildSnapshot } from '../marketService';
+import { FeedContext, FeedSession, SourceOptions } from './feed';
+import { createVenueConfig } from './venues';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4, 8, 16];
+const REPLAY_STEP_MS = 50; // Playback clock resolution
+
+export interface ReplayState {
+  playing: boolean;
+  speed: number;
+  positionMs: number; // Offset from the start of the recording
+  durationMs: number;
+}
+
+export interface ReplaySource extends MarketDataSource {
+  play: () => void;
+  pause: () => void;
+  // Resolves once the slice at the new position has been emitted
+  seek: (positionMs: number) => Promise<void>;
+  setSpeed: (speed: number) => void;
+  getReplayState: () => ReplayState;
+  onReplayState: (listener: (state: ReplayState) => void) => void;
+}
+
+/**
+ * Minimal Response stand-in for recorded REST bodies.
+ * Resolves in microtasks only, so a seek can flush right after fast-forwarding.
+ */
+const recordedResponse = (body: string): Response => ({
+  ok: true,
+  status: 200,
+  json: async () => JSON.parse(body),
+  text: async () => body,
+  clone: () => recordedResponse(body),
+}) as unknown as Response;
+
+/**
+ * Runs `fn` in a fresh task, after every pending microtask (recorded fetches) has settled.
+ * Unlike setTimeout(0) it is never clamped, so rendering a long recording stays fast.
+ */
+const afterMicrotasks = (fn: () => void) => {
+  const channel = new MessageChannel();
+  channel.port1.onmessage = () => {
+    channel.port1.close();
+    fn();
+  };
+  channel.port2.postMessage(null);
+};
+
+/**
+ * What a replay plays back: frames or slices laid out over `durationMs`.
+ */
+interface PlaybackTarget {
+  durationMs: number;
+  // Applies everything up to `positionMs`; positions only grow between rewinds
+  advanceTo: (positionMs: number) => void;
+  // Back to the state before the first frame
+  rewind: () => void;
+  // Emits the current slice if anything changed; `jumped` after a seek, which always emits
+  flush: (jumped: boolean) => void;
+}
+
+/**
+ * Playback clock shared by the replay sources: play/pause, speed, seeking and state notifications.
+ */
+const createPlayback = (target: PlaybackTarget) => {
+  const { durationMs } = target;
+  let listener: ((state: ReplayState) => void) | null = null;
+  let active = false;
+  let playing = false;
+  let speed = 1;
+  let positionMs = 0;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let lastStepAt = 0;
+
+  const getReplayState = (): ReplayState => ({ playing, speed, positionMs, durationMs });
+  const notify = () => listener?.(getReplayState());
+
+  const stopClock = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  const step = () => {
+    const now = performance.now();
+    const next = Math.min(durationMs, positionMs + (now - lastStepAt) * speed);
+    lastStepAt = now;
+
+    target.advanceTo(next);
+    positionMs = next;
+    if (active) target.flush(false);
+
+    if (next >= durationMs) {
+      playing = false;
+      stopClock();
+    }
+    notify();
+  };
+
+  const play = () => {
+    if (!active || playing) return;
+    if (positionMs >= durationMs) seek(0); // Replay from the start once finished
+    playing = true;
+    lastStepAt = performance.now();
+    timer = setInterval(step, REPLAY_STEP_MS);
+    notify();
+  };
+
+  const pause = () => {
+    if (!playing) return;
+    playing = false;
+    stopClock();
+    notify();
+  };
+
+  /**
+   * Jumps to a position. Seeking backwards rewinds and re-applies from the start,
+   * since diff streams can only be applied forwards.
+   */
+  const seek = (position: number): Promise<void> => {
+    const clamped = Math.max(0, Math.min(durationMs, position));
+    if (clamped < positionMs) target.rewind();
+    target.advanceTo(clamped);
+    positionMs = clamped;
+    lastStepAt = performance.now();
+    notify();
+    return new Promise(resolve => afterMicrotasks(() => {
+      if (active) target.flush(true);
+      resolve();
+    }));
+  };
+
+  const setSpeed = (next: number) => {
+    speed = next;
+    notify();
+  };
+
+  return {
+    play,
+    pause,
+    seek,
+    setSpeed,
+    getReplayState,
+    onReplayState: (next: (state: ReplayState) => void) => { listener = next; },
+    start: () => {
+      active = true;
+      positionMs = 0;
+      seek(0);
+      play();
+    },
+    stop: () => {
+      active = false;
+      playing = false;
+      stopClock();
+      target.rewind();
+      positionMs = 0;
+    },
+  };
+};
+
+/**
+ * Replays a recorded session through the same venue session code as the live feed,
+ * so sequencing, resyncs and aggregation behave exactly as they did when recorded.
+ * Snapshots carry the recorded receive time, not the wall clock.
+ */
+export const createReplaySource = (recording: SessionRecording, options: SourceOptions = {}): ReplaySource => {
+  const { header, frames } = recording;
+  const venue = createVenueConfig(header.sourceId, header.symbolInfo);
+  const getBucketConfig = options.getBucketConfig ?? (() => DEFAULT_BUCKET_CONFIG);
+  const durationMs = frames.length > 0 ? frames[frames.length - 1].t - header.startedAt : 0;
+
+  // Same increments the live book used while recording
+  const book = createRawBook({
+    tickSize: header.tickSize ?? FALLBACK_BOOK_SCALE.tickSize,
+    stepSize: header.stepSize ?? FALLBACK_BOOK_SCALE.stepSize,
+  });
+
+  let onUpdate: ((snapshot: OrderBookSnapshot) => void) | null = null;
+  let onTrades: ((trades: Trade[]) => void) | null = null;
+  let cursor = 0; // Next frame to apply
+
+  // Per-connection replay state, reset by each recorded 'open' frame
+  let connection: AbortController | null = null;
+  let session: FeedSession | null = null;
+  let ready = false;
+  let dirty = false;
+  let lastFrameTime = header.startedAt;
+  let pendingRest: string[] = [];
+  let restWaiter: ((body: string) => void) | null = null;
+
+  // Recorded REST bodies answer the session's fetches in order
+  const replayFetch: typeof fetch = (_input, init) => new Promise<Response>((resolve, reject) => {
+    const respond = (body: string) => resolve(recordedResponse(body));
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    if (pendingRest.length > 0) respond(pendingRest.shift()!);
+    else restWaiter = respond;
+  });
+
+  const openConnection = () => {
+    connection?.abort();
+    const controller = new AbortController();
+    connection = controller;
+    book.clear();
+    ready = false;
+    pendingRest = [];
+    restWaiter = null;
+
+    const current = () => !controller.signal.aborted;
+    // The recording continues with its own 'open' frame after a restart, so gaps are only reported
+    const report = (reason: string) => {
+      if (!current()) return;
+      console.warn(`Replay: recorded ${venue.metadata.label} stream ${reason}`);
+      ready = false;
+    };
+
+    const ctx: FeedContext = {
+      book,
+      signal: controller.signal,
+      fetch: replayFetch,
+      send: () => {},
+      setStatus: () => {},
+      markLive: () => {
+        if (!current()) return;
+        ready = true;
+        dirty = true;
+      },
+      invalidate: () => {
+        if (current()) ready = false;
+      },
+      update: () => {
+        if (current() && ready) dirty = true;
+      },
+      trades: (trades) => {
+        if (current() && trades.length > 0) onTrades?.(trades);
+      },
+      restart: report,
+      fail: report,
+      every: () => {},
+    };
+
+    session = venue.createSession(ctx);
+    session.onOpen();
+  };
+
+  const applyFrame = (index: number) => {
+    const frame = frames[index];
+    lastFrameTime = frame.t;
+
+    if (frame.kind === 'open') {
+      openConnection();
+    } else if (frame.kind === 'rest') {
+      if (restWaiter) {
+        const respond = restWaiter;
+        restWaiter = null;
+        respond(frame.data);
+      } else {
+        pendingRest.push(frame.data);
+      }
+    } else if (session) {
+      try {
+        session.onMessage(JSON.parse(frame.data));
+      } catch (err) {
+        console.error('Replay frame error', err);
+      }
+    }
+  };
+
+  const advanceTo = (targetMs: number) => {
+    while (cursor < frames.length && frames[cursor].t - header.startedAt <= targetMs) {
+      applyFrame(cursor++);
+    }
+  };
+
+  const flush = (jumped: boolean) => {
+    if (jumped) dirty = true;
+    if (!dirty || !ready) return;
+    dirty = false;
+    const snapshot = buildSnapshot(book, getBucketConfig(), header.tickSize, lastFrameTime);
+    if (snapshot) onUpdate?.(snapshot);
+  };
+
+  const rewind = () => {
+    connection?.abort();
+    connection = null;
+    session = null;
+    book.clear();
+    ready = false;
+    dirty = false;
+    cursor = 0;
+    lastFrameTime = header.startedAt;
+  };
+
+  const playback = createPlayback({ durationMs, advanceTo, rewind, flush });
+
+  const subscribe = (
+    nextOnUpdate: (snapshot: OrderBookSnapshot) => void,
+    onStatus?: (status: FeedStatus) => void,
+    nextOnTrades?: (trades: Trade[]) => void
+  ) => {
+    playback.stop();
+    onUpdate = nextOnUpdate;
+    onTrades = nextOnTrades ?? null;
+    onStatus?.('live');
+    playback.start();
+  };
+
+  return {
+    metadata: {
+      id: 'replay',
+      label: `Replay · ${venue.metadata.label}`,
+      venueSymbol: header.venueSymbol,
+      symbolInfo: header.symbolInfo,
+      tickSize: header.tickSize,
+      stepSize: header.stepSize ?? null,
+    },
+    subscribe,
+    unsubscribe: playback.stop,
+    getStatus: () => 'live',
+    play: playback.play,
+    pause: playback.pause,
+    seek: playback.seek,
+    setSpeed: playback.setSpeed,
+    getReplayState: playback.getReplayState,
+    onReplayState: playback.onReplayState,
+  };
+};
+
+/**
+ * Replays exported slices (see snapshotExport.ts) on their original timeline.
+ * They are already aggregated, so the bucket size is the one they were exported with.
+ */
+export const createSnapshotReplaySource = (exported: SnapshotExport): ReplaySource => {
+  const { header, slices } = exported;
+  const startedAt = slices[0]?.timestamp ?? 0;
+  const durationMs = slices.length > 0 ? slices[slices.length - 1].timestamp - startedAt : 0;
+
+  let onUpdate: ((snapshot: OrderBookSnapshot) => void) | null = null;
+  let onTrades: ((trades: Trade[]) => void) | null = null;
+  let cursor = 0; // Next slice to apply
+  let latest: OrderBookSnapshot | null = null;
+  let pendingTrades: Trade[] = [];
+  let dirty = false;
+
+  const advanceTo = (targetMs: number) => {
+    while (cursor < slices.length && slices[cursor].timestamp - startedAt <= targetMs) {
+      latest = slices[cursor++];
+      if (latest.trades) pendingTrades.push(...latest.trades);
+      dirty = true;
+    }
+  };
+
+  const flush = (jumped: boolean) => {
+    // Trades skipped over by a seek would all land on one slice, so they are dropped
+    if (jumped) {
+      pendingTrades = [];
+      dirty = true;
+    }
+    if (!dirty || !latest) return;
+    dirty = false;
+    if (pendingTrades.length > 0) onTrades?.(pendingTrades);
+    pendingTrades = [];
+    onUpdate?.({ ...latest, trades: undefined });
+  };
+
+  const rewind = () => {
+    cursor = 0;
+    latest = null;
+    pendingTrades = [];
+    dirty = false;
+  };
+
+  const playback = createPlayback({ durationMs, advanceTo, rewind, flush });
+
+  const metadata: SourceMetadata = {
+    id: 'replay',
+    label: `Replay · ${header.source}`,
+    venueSymbol: header.symbolInfo.symbol,
+    symbolInfo: header.symbolInfo,
+    tickSize: header.tickSize,
+    stepSize: null,
+  };
+
+  return {
+    metadata,
+    subscribe: (nextOnUpdate, onStatus, nextOnTrades) => {
+      playback.stop();
+      onUpdate = nextOnUpdate;
+      onTrades = nextOnTrades ?? null;
+      onStatus?.('live');
+      playback.start();
+    },
+    unsubscribe: playback.stop,
+    getStatus: () => 'live',
+    play: playback.play,
+    pause: playback.pause,
+    seek: playback.seek,
+    setSpeed: playback.setSpeed,
+    getReplayState: playback.getReplayState,
+    onReplayState: playback.onReplayState,
+  };
+};
+
+/**
+ * Aggregates a whole recording into slices every `intervalMs` of recorded time,
+ * each carrying the trades that printed since the previous one (e.g. for export).
+ */
+export const renderRecording = async (
+  recording: SessionRecording,
+  intervalMs: number,
+  options: SourceOptions = {}
+): Promise<OrderBookSnapshot[]> => {
+  const replay = createReplaySource(recording, options);
+  const slices: OrderBookSnapshot[] = [];
+  let latest: OrderBookSnapshot | null = null;
+  let trades: Trade[] = [];
+
+  replay.subscribe(
+    (snapshot) => { latest = snapshot; },
+    undefined,
+    (next) => { trades.push(...next); }
+  );
+  replay.pause();
+
+  const { durationMs } = replay.getReplayState();
+  const startedAt = recording.header.startedAt;
+  for (let t = 0; t <= durationMs; t += intervalMs) {
+    await replay.seek(t);
+    if (!latest) continue;
+    const slice: OrderBookSnapshot = latest;
+    slices.push({ ...slice, timestamp: startedAt + t, trades: trades.length > 0 ? trades : undefined });
+    trades = [];
+  }
+
+  replay.unsubscribe();
+  return slices;
+};
@@ -0,0 +1,19 @@
+import { SymbolInfo, VenueId } from '../../types';
+import { LiveSourceConfig } from './feed';
+import { binanceVenue } from './binance';
+import { coinbaseVenue } from './coinbase';
+import { krakenVenue } from './kraken';
+import { bybitVenue } from './bybit';
+
+/**
+ * Venue protocol (URL, session, tick size lookup) for a symbol.
+ * Shared by live sources and replays of their recordings.
+ */
+export const createVenueConfig = (id: VenueId, symbolInfo: SymbolInfo): LiveSourceConfig => {
+  switch (id) {
+    case 'binance': return binanceVenue(symbolInfo);
+    case 'coinbase': return coinbaseVenue(symbolInfo);
+    case 'kraken': return krakenVenue(symbolInfo);
+    case 'bybit': return bybitVenue(symbolInfo);
+  }
+};
@@ -0,0 +1,108 @@
+import { BucketConfig, FeedStatus, LiveSourceId, OrderBookSnapshot, OrderEntry, RecordedFrame, SymbolInfo, Trade, VenueId } from '../../types';
+import { METRICS_WIDTH, decodeMetrics, encodeMetrics } from '../bookMetrics';
+import { BookScale } from '../orderBook';
+
+/**
+ * Messages between the UI thread and the feed worker.
+ * Snapshots cross as Float64Array columns so they can be transferred instead of cloned.
+ */
+export type WorkerRequest =
+  | { type: 'subscribe'; id: LiveSourceId; symbolInfo: SymbolInfo; bucketConfig: BucketConfig; venues?: VenueId[] }
+  | { type: 'bucket-config'; bucketConfig: BucketConfig }
+  | { type: 'record'; enabled: boolean };
+
+export interface PackedSide {
+  prices: Float64Array;
+  quantities: Float64Array;
+  totals: Float64Array;
+}
+
+export interface PackedBreakdown {
+  venues: VenueId[];
+  bids: Float64Array[];
+  asks: Float64Array[];
+}
+
+export interface PackedSnapshot {
+  timestamp: number;
+  midPrice: number;
+  bucketSize: number;
+  bids: PackedSide;
+  asks: PackedSide;
+  metrics: Float64Array | null;
+  breakdown: PackedBreakdown | null;
+}
+
+export type WorkerEvent =
+  | { type: 'snapshot'; snapshot: PackedSnapshot }
+  | { type: 'status'; status: FeedStatus }
+  | { type: 'trades'; trades: Trade[] }
+  | { type: 'instrument'; scale: BookScale }
+  | { type: 'frame'; frame: RecordedFrame };
+
+const packSide = (entries: OrderEntry[]): PackedSide => {
+  const prices = new Float64Array(entries.length);
+  const quantities = new Float64Array(entries.length);
+  const totals = new Float64Array(entries.length);
+  entries.forEach((e, i) => {
+    prices[i] = e.price;
+    quantities[i] = e.quantity;
+    totals[i] = e.total;
+  });
+  return { prices, quantities, totals };
+};
+
+const unpackSide = (side: PackedSide): OrderEntry[] => {
+  const entries: OrderEntry[] = new Array(side.prices.length);
+  for (let i = 0; i < side.prices.length; i++) {
+    entries[i] = { price: side.prices[i], quantity: side.quantities[i], total: side.totals[i] };
+  }
+  return entries;
+};
+
+export const packSnapshot = (snapshot: OrderBookSnapshot): PackedSnapshot => {
+  let metrics: Float64Array | null = null;
+  if (snapshot.metrics) {
+    metrics = new Float64Array(METRICS_WIDTH);
+    encodeMetrics(snapshot.metrics, metrics, 0);
+  }
+  return {
+    timestamp: snapshot.timestamp,
+    midPrice: snapshot.midPrice,
+    bucketSize: snapshot.bucketSize,
+    bids: packSide(snapshot.bids),
+    asks: packSide(snapshot.asks),
+    metrics,
+    breakdown: snapshot.breakdown ? {
+      venues: snapshot.breakdown.venues,
+      bids: snapshot.breakdown.bids.map(q => Float64Array.from(q)),
+      asks: snapshot.breakdown.asks.map(q => Float64Array.from(q)),
+    } : null,
+  };
+};
+
+// Buffers to hand over with postMessage; they are detached on the sending side
+export const snapshotTransferables = (packed: PackedSnapshot): ArrayBuffer[] => {
+  const buffers = [packed.bids, packed.asks].flatMap(side =>
+    [side.prices.buffer, side.quantities.buffer, side.totals.buffer]
+  );
+  if (packed.metrics) buffers.push(packed.metrics.buffer);
+  if (packed.breakdown) {
+    [...packed.breakdown.bids, ...packed.breakdown.asks].forEach(column => buffers.push(column.buffer as ArrayBuffer));
+  }
+  return buffers as ArrayBuffer[];
+};
+
+export const unpackSnapshot = (packed: PackedSnapshot): OrderBookSnapshot => ({
+  timestamp: packed.timestamp,
+  midPrice: packed.midPrice,
+  bucketSize: packed.bucketSize,
+  bids: unpackSide(packed.bids),
+  asks: unpackSide(packed.asks),
+  metrics: packed.metrics ? decodeMetrics(packed.metrics, 0) : undefined,
+  breakdown: packed.breakdown ? {
+    venues: packed.breakdown.venues,
+    bids: packed.breakdown.bids.map(column => Array.from(column)),
+    asks: packed.breakdown.asks.map(column => Array.from(column)),
+  } : undefined,
+});
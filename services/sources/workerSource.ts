@@ -0,0 +1,106 @@
+import { BucketConfig, FeedStatus, LiveSourceId, MarketDataSource, OrderBookSnapshot, RecordedFrame, SourceMetadata, SymbolInfo, Trade } from '../../types';
+import { DEFAULT_BUCKET_CONFIG } from '../marketService';
+import { SourceOptions } from './feed';
+import { CONSOLIDATED_VENUES, consolidatedMetadata } from './consolidated';
+import { createVenueConfig } from './venues';
+import { WorkerEvent, WorkerRequest, unpackSnapshot } from './workerProtocol';
+
+/**
+ * UI-thread handle for a venue feed (or the consolidated book) running in a Web Worker (see feedWorker.ts).
+ * Behaves like createLiveSource: same statuses, trades, recorder tap and live bucket config.
+ * The worker is started on subscribe and terminated on unsubscribe, which also closes its socket.
+ */
+export const createWorkerSource = (id: LiveSourceId, symbolInfo: SymbolInfo, options: SourceOptions = {}): MarketDataSource => {
+  const getBucketConfig = options.getBucketConfig ?? (() => DEFAULT_BUCKET_CONFIG);
+  const venues = options.venues ?? CONSOLIDATED_VENUES;
+  const metadata: SourceMetadata = id === 'consolidated'
+    ? consolidatedMetadata(symbolInfo, venues)
+    : { ...createVenueConfig(id, symbolInfo).metadata, tickSize: null, stepSize: null };
+
+  let worker: Worker | null = null;
+  let status: FeedStatus = 'connecting';
+  let sentBucketConfig: BucketConfig | null = null;
+  let recorder: ((frame: RecordedFrame) => void) | null = null;
+
+  const send = (request: WorkerRequest) => worker?.postMessage(request);
+
+  // The worker reads its own copy of the config, so push changes before each next frame
+  const syncBucketConfig = () => {
+    const config = getBucketConfig();
+    if (config === sentBucketConfig) return;
+    sentBucketConfig = config;
+    send({ type: 'bucket-config', bucketConfig: config });
+  };
+
+  const unsubscribe = () => {
+    worker?.terminate();
+    worker = null;
+  };
+
+  const subscribe = (
+    onUpdate: (snapshot: OrderBookSnapshot) => void,
+    onStatus?: (status: FeedStatus) => void,
+    onTrades?: (trades: Trade[]) => void
+  ) => {
+    unsubscribe();
+    status = 'connecting';
+    onStatus?.(status);
+
+    const current = new Worker(new URL('./feedWorker.ts', import.meta.url), { type: 'module' });
+    worker = current;
+
+    current.onmessage = (event: MessageEvent<WorkerEvent>) => {
+      if (worker !== current) return;
+      const message = event.data;
+
+      switch (message.type) {
+        case 'snapshot':
+          syncBucketConfig();
+          onUpdate(unpackSnapshot(message.snapshot));
+          break;
+        case 'status':
+          status = message.status;
+          onStatus?.(status);
+          break;
+        case 'trades':
+          onTrades?.(message.trades);
+          break;
+        case 'instrument':
+          metadata.tickSize = message.scale.tickSize;
+          metadata.stepSize = message.scale.stepSize;
+          break;
+        case 'frame':
+          recorder?.(message.frame);
+          break;
+      }
+    };
+
+    // An uncaught error leaves the worker's feed in an unknown state, so it is stopped rather than trusted
+    current.onerror = (event) => {
+      if (worker !== current) return;
+      console.error(`${metadata.label} feed worker error`, event);
+      unsubscribe();
+      status = 'failed';
+      onStatus?.(status);
+    };
+
+    sentBucketConfig = getBucketConfig();
+    send({ type: 'subscribe', id, symbolInfo, bucketConfig: sentBucketConfig, venues });
+    if (recorder) send({ type: 'record', enabled: true });
+  };
+
+  const setRecorder = (next: ((frame: RecordedFrame) => void) | null) => {
+    const changed = (next === null) !== (recorder === null);
+    recorder = next;
+    if (changed) send({ type: 'record', enabled: next !== null });
+  };
+
+  return {
+    metadata,
+    subscribe,
+    unsubscribe,
+    getStatus: () => status,
+    // Recordings replay a single venue's raw stream
+    setRecorder: id === 'consolidated' ? undefined : setRecorder,
+  };
+};
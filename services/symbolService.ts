@@ -0,0 +1,115 @@
+import { SymbolInfo } from '../types';
+
+// Quote assets Binance lists spot pairs against, longest first so "FDUSD" wins over "USD"-like suffixes.
+const KNOWN_QUOTES = [
+  'FDUSD', 'USDT', 'USDC', 'TUSD', 'BUSD', 'DAI',
+  'BTC', 'ETH', 'BNB', 'EUR', 'TRY', 'BRL', 'JPY',
+].sort((a, b) => b.length - a.length);
+
+// Quotes we render with a "$" prefix instead of a suffix
+const USD_QUOTES = new Set(['USDT', 'USDC', 'FDUSD', 'TUSD', 'BUSD', 'DAI']);
+
+const STORAGE_KEY = 'orderbook-canyon.symbol';
+
+export const DEFAULT_SYMBOL = 'BTCUSDT';
+
+// Shortlist offered in the HUD picker; any other pair can be typed in.
+export const POPULAR_SYMBOLS = [
+  'BTCUSDT', 'ETHUSDT', 'SOLUSDT', 'BNBUSDT', 'XRPUSDT',
+  'DOGEUSDT', 'ADAUSDT', 'AVAXUSDT', 'LINKUSDT', 'ETHBTC',
+];
+
+/**
+ * Splits a Binance spot symbol (e.g. 'SOLUSDT') into base and quote assets.
+ * Falls back to the whole string as base if the quote is not recognised.
+ */
+export const parseSymbol = (raw: string): SymbolInfo => {
+  const symbol = raw.trim().toUpperCase();
+  const quoteAsset = KNOWN_QUOTES.find(q => symbol.endsWith(q) && symbol.length > q.length);
+
+  if (!quoteAsset) {
+    return { symbol, baseAsset: symbol, quoteAsset: '' };
+  }
+
+  return {
+    symbol,
+    baseAsset: symbol.slice(0, -quoteAsset.length),
+    quoteAsset,
+  };
+};
+
+// USD-pegged quotes; venues that list majors against USD map these onto their USD books
+export const isUsdQuote = (quoteAsset: string): boolean => USD_QUOTES.has(quoteAsset);
+
+/**
+ * Loose format check so typos fail fast instead of opening a socket that never receives data.
+ */
+export const isValidSymbol = (raw: string): boolean => /^[A-Z0-9]{5,20}$/.test(raw.trim().toUpperCase());
+
+/**
+ * Picks a decimal count that keeps roughly 5-6 significant digits across price magnitudes.
+ */
+export const priceDecimals = (price: number): number => {
+  const abs = Math.abs(price);
+  if (abs >= 1000) return 2;
+  if (abs >= 1) return 4;
+  if (abs >= 0.01) return 6;
+  return 8;
+};
+
+/**
+ * Decimals needed to resolve the leading digit of a price step (2 -> 0, 0.05 -> 2).
+ */
+export const stepDecimals = (step: number): number => {
+  if (!(step > 0)) return 2;
+  return Math.min(10, Math.max(0, -Math.floor(Math.log10(step) + 1e-9)));
+};
+
+/**
+ * Formats a price in the quote currency: "$96,000.00" for USD stables, "0.052310 BTC" otherwise.
+ */
+export const formatPrice = (price: number, quoteAsset: string, decimals = priceDecimals(price)): string => {
+  const value = price.toLocaleString(undefined, {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  });
+
+  if (USD_QUOTES.has(quoteAsset)) return `$${value}`;
+  return quoteAsset ? `${value} ${quoteAsset}` : value;
+};
+
+/**
+ * Short magnitude label for sizes and notionals: 1234567 -> "1.23M", 0.0042 -> "0.0042".
+ */
+export const formatCompact = (value: number): string => {
+  const abs = Math.abs(value);
+  if (abs >= 1e9) return `${(value / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${(value / 1e6).toFixed(2)}M`;
+  if (abs >= 1e3) return `${(value / 1e3).toFixed(2)}K`;
+  if (abs >= 1 || abs === 0) return value.toFixed(2);
+  return String(parseFloat(value.toPrecision(2)));
+};
+
+/**
+ * Compact quote-currency amount: "$1.23M" for USD stables, "1.23M BTC" otherwise.
+ */
+export const formatNotional = (value: number, quoteAsset: string): string =>
+  USD_QUOTES.has(quoteAsset) ? `$${formatCompact(value)}` : `${formatCompact(value)} ${quoteAsset}`;
+
+export const loadSavedSymbol = (): string => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved && isValidSymbol(saved)) return saved.toUpperCase();
+  } catch {
+    // localStorage can be unavailable (privacy mode, sandboxed iframes)
+  }
+  return DEFAULT_SYMBOL;
+};
+
+export const saveSymbol = (symbol: string) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, symbol);
+  } catch {
+    // Persisting is best effort
+  }
+};
@@ -4,14 +4,265 @@ export interface OrderEntry {
   total: number; // Cumulative sum up to this point (for depth visualization)
 }
 
+// An executed trade. `side` is the aggressor: 'buy' lifted an ask, 'sell' hit a bid.
+export interface Trade {
+  time: number; // Exchange trade time (ms since epoch)
+  price: number;
+  quantity: number;
+  side: 'buy' | 'sell';
+}
+
 export interface OrderBookSnapshot {
   timestamp: number;
   midPrice: number;
+  bucketSize: number; // Price width of each aggregated bucket
   bids: OrderEntry[]; // Sorted high to low
   asks: OrderEntry[]; // Sorted low to high
+  trades?: Trade[]; // Trades that printed during this slice's time slot
+  metrics?: BookMetrics; // Microstructure metrics computed from the full book at emit time
+  breakdown?: VenueBreakdown; // Consolidated books only: each venue's part of every bucket
+}
+
+// How much of each bucket of a consolidated snapshot rests on each venue
+export interface VenueBreakdown {
+  venues: VenueId[];
+  bids: number[][]; // [venue][bucket] base quantity, index-aligned with the snapshot's bids
+  asks: number[][];
+}
+
+// Band arrays are indexed like DEPTH_BANDS_PCT in services/bookMetrics.ts (±0.1%, ±0.5%, ±1%).
+export interface BookMetrics {
+  bestBid: number;
+  bestAsk: number;
+  spread: number;
+  spreadBps: number;
+  spreadTicks: number | null; // null until the tick size is known
+  imbalance: number;          // Top-N (bidQty - askQty) / (bidQty + askQty), in [-1, 1]
+  microprice: number;         // Level-1 size-weighted mid
+  weightedMid: number;        // Top-N size-weighted mid
+  bidDepth: number[];         // Base quantity resting within each band below mid
+  askDepth: number[];         // Base quantity resting within each band above mid
+  bidNotional: number[];      // Quote notional to sell through to move price down by each band
+  askNotional: number[];      // Quote notional to buy through to move price up by each band
+}
+
+// How raw levels are grouped into visual buckets.
+// 'auto' derives a round step from mid price and the exchange tick size.
+export type BucketConfig =
+  | { mode: 'auto' }
+  | { mode: 'absolute'; size: number } // Fixed price step, snapped to the tick size
+  // Step in basis points of mid. `fromMid` counts bucket edges out from the mid instead of the absolute grid (percent axis).
+  | { mode: 'bps'; bps: number; fromMid?: boolean };
+
+export interface SymbolInfo {
+  symbol: string;     // Exchange symbol, e.g. 'SOLUSDT'
+  baseAsset: string;  // e.g. 'SOL' (unit of quantity)
+  quoteAsset: string; // e.g. 'USDT' (unit of price)
+}
+
+export type LiquidityEventType =
+  | 'wall-added'    // A large resting order appeared
+  | 'wall-pulled'   // A large order disappeared without trades against it
+  | 'wall-consumed' // A large order disappeared mostly through trades
+  | 'flicker';      // A wall pulled shortly after it appeared (spoofing-like)
+
+export interface LiquidityEvent {
+  type: LiquidityEventType;
+  side: BookSide;
+  price: number;      // Bucket price (edge nearest mid)
+  bucketSize: number;
+  quantity: number;   // Size added or removed
+  timestamp: number;  // Slice the change was seen in
+}
+
+// Thresholds are multiples of the side's median bucket quantity, so they carry across instruments.
+export interface LiquidityDetectorConfig {
+  wallFactor: number;        // A bucket at least this many medians is a wall
+  minChangeFactor: number;   // Ignore changes smaller than this many medians
+  consumedFraction: number;  // Share of a removal that must have traded to count as consumed
+  flickerWindowMs: number;   // Add→pull within this window is a flicker
+}
+
+// A secondary canyon in the split view, bound to its own market
+export interface PaneConfig {
+  id: string;
+  sourceId: Exclude<SourceId, 'replay'>;
+  symbol: string; // Ignored by the simulation, which always models BTC
+}
+
+// Market regimes the simulation can play; each is reproducible from its seed.
+export type SimScenario =
+  | 'calm'         // Balanced flow in a tight range
+  | 'trend'        // Persistent buying drives the price up
+  | 'flash-crash'  // Bids are pulled and swept, then the price partly recovers
+  | 'iceberg'      // A hidden bid keeps refilling its displayed size as it is hit
+  | 'spoof';       // Large walls appear near the touch and vanish as price approaches
+
+// User-defined alert conditions, checked on every emitted snapshot.
+export type AlertKind =
+  | 'mid-cross'    // Mid price crosses `level` in either direction
+  | 'spread-wide'  // Spread widens beyond `level` bps
+  | 'depth-thin'   // Cumulative depth within `bandPct` of mid falls below `level` (base units)
+  | 'bucket-size'; // A single bucket holds more than `level` (base units)
+
+export interface AlertRule {
+  id: string;
+  kind: AlertKind;
+  symbol: string;            // Rules only apply to the pair they were created on
+  level: number;
+  bandPct: number;           // Only used by 'depth-thin'
+  side: BookSide | 'both';   // Only used by 'depth-thin' and 'bucket-size'
+  enabled: boolean;
+  sound: boolean;
+  notify: boolean;           // Also raise a browser notification
+}
+
+export interface AlertTrigger {
+  ruleId: string;
+  kind: AlertKind;
+  message: string;
+  price: number;             // Where the scene marks it
+  side: BookSide | null;     // Null for conditions on the whole book (mid, spread)
+  timestamp: number;         // Snapshot that tripped the rule
+}
+
+// Lifecycle of a live depth feed, surfaced to the HUD.
+// 'resyncing' means a sequence gap was detected and the book is being rebuilt from a fresh snapshot.
+// 'stale' means the socket is open but no messages arrived recently.
+// 'failed' means reconnect attempts were exhausted; the subscriber must be recreated to retry.
+export type FeedStatus =
+  | 'connecting'
+  | 'syncing'
+  | 'live'
+  | 'resyncing'
+  | 'stale'
+  | 'reconnecting'
+  | 'failed';
+
+// What a bar's height measures, and how values map onto the Y axis.
+export type HeightMetric =
+  | 'cumulative' // Base quantity resting from mid out to this bucket
+  | 'level'      // Base quantity in this bucket alone
+  | 'notional';  // Quote value resting from mid out to this bucket
+export type HeightScaleMode = 'linear' | 'sqrt' | 'log';
+
+export interface HeightConfig {
+  metric: HeightMetric;
+  scale: HeightScaleMode;
 }
 
 export interface ViewState {
   mode: '3D' | '2D';
   selectedSnapshot: OrderBookSnapshot | null;
 }
+
+export type BookSide = 'bid' | 'ask';
+
+// Canyon X axis: centred on the latest mid with older rows shifted by the move since ('follow'),
+// absolute prices with the mid moving across them ('fixed'), or offsets from the mid in percent,
+// scaled so different instruments line up ('percent')
+export type PriceAxisMode = 'follow' | 'fixed' | 'percent';
+
+// One bucket of a slice, e.g. the canyon bar that was clicked
+export interface BucketRef {
+  side: BookSide;
+  index: number; // 0 is the bucket at the touch
+}
+
+// Exchanges with a live WebSocket adapter.
+export type VenueId = 'binance' | 'coinbase' | 'kraken' | 'bybit';
+
+// Sources fed by exchange WebSockets: one venue, or several merged into one book.
+// These are the sources that run in the feed worker.
+export type LiveSourceId = VenueId | 'consolidated';
+
+// Everything the app can stream from: a live source, the local simulation, or a recorded session.
+export type SourceId = LiveSourceId | 'mock' | 'replay';
+
+export interface SourceMetadata {
+  id: SourceId;
+  label: string;         // Display name, e.g. 'Coinbase'
+  venueSymbol: string;   // Symbol in the venue's own notation, e.g. 'BTC-USD'
+  symbolInfo: SymbolInfo;
+  tickSize: number | null; // Price increment, null until known
+  stepSize: number | null; // Quantity increment, null until known
+}
+
+/**
+ * A stream of aggregated order book snapshots from one venue and symbol.
+ * Every exchange adapter and the simulation implement this.
+ */
+export interface MarketDataSource {
+  readonly metadata: SourceMetadata;
+  subscribe: (
+    onUpdate: (snapshot: OrderBookSnapshot) => void,
+    onStatus?: (status: FeedStatus) => void,
+    onTrades?: (trades: Trade[]) => void
+  ) => void;
+  unsubscribe: () => void;
+  getStatus: () => FeedStatus;
+  // Taps raw venue frames for session recording (live venues only); null detaches
+  setRecorder?: (onFrame: ((frame: RecordedFrame) => void) | null) => void;
+}
+
+// 'open' starts a new connection, 'rest' is a REST response body (e.g. the depth snapshot),
+// 'message' is a raw WebSocket message.
+export type RecordedFrameKind = 'open' | 'rest' | 'message';
+
+export interface RecordedFrame {
+  t: number; // Receive time (ms since epoch)
+  kind: RecordedFrameKind;
+  data: string; // Raw payload exactly as received
+}
+
+export interface RecordingHeader {
+  format: 'orderbook-canyon-session';
+  version: 1;
+  sourceId: VenueId;
+  venueSymbol: string;
+  symbolInfo: SymbolInfo;
+  tickSize: number | null;
+  stepSize?: number | null; // Absent in recordings made before books were quantised
+  startedAt: number;
+}
+
+export interface SessionRecording {
+  header: RecordingHeader;
+  frames: RecordedFrame[];
+}
+
+// Aggregated slices exported for analysis (and re-importable as a replay).
+export type ExportFormat = 'csv' | 'json' | 'columnar';
+// Selected slice(s), the visible canyon window, or the whole loaded replay
+export type ExportScope = 'slice' | 'window' | 'session';
+
+export interface SnapshotExportHeader {
+  format: 'orderbook-canyon-snapshots';
+  version: 1;
+  source: string; // Label of the source the slices came from, e.g. 'Binance'
+  symbolInfo: SymbolInfo;
+  tickSize: number | null;
+  exportedAt: number;
+}
+
+export interface SnapshotExport {
+  header: SnapshotExportHeader;
+  slices: OrderBookSnapshot[]; // Oldest first
+}
+
+// Output size for canyon screenshots, in pixels
+export interface CaptureSize {
+  width: number;
+  height: number;
+}
+
+// Caption burned into a screenshot instead of the HUD
+export interface CaptureOverlay {
+  title: string; // e.g. 'BTC/USDT · Binance'
+  lines: string[]; // Time range, price, ...
+}
+
+// A file opened for replay: a raw recorded session or a JSON snapshot export
+export type ReplayFile =
+  | { kind: 'session'; recording: SessionRecording }
+  | { kind: 'snapshots'; data: SnapshotExport };
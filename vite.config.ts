@@ -10,6 +10,15 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      build: {
+        rollupOptions: {
+          // The rendering benchmark ships as a second page next to the app
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            benchmark: path.resolve(__dirname, 'benchmark.html'),
+          },
+        },
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)